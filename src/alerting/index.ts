@@ -1,8 +1,15 @@
 export * from './issue-handlers';
 export * from './issue-parsers';
 export * from './lib';
+export * from './testing';
 
 export * from './issue-handler-override';
+export * from './issue-deduplication';
+export * from './issue-enrichment';
+export * from './issue-failure-handling';
+export * from './issue-forwarder';
 export * from './issue-plugin-base';
 export * from './issue-manager';
+export * from './issue-mute';
+export * from './issue-tracking';
 export * from './issue-trigger';
\ No newline at end of file
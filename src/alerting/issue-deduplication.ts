@@ -0,0 +1,365 @@
+import { Duration, RemovalPolicy, Resource, ResourceProps } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ITable, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Choice, Condition, DefinitionBody, Fail, IChainable, IntegrationPattern, JsonPath, Parallel, Pass, StateMachine, StateMachineType, Succeed, TaskInput, Wait, WaitTime } from 'aws-cdk-lib/aws-stepfunctions';
+import { DynamoAttributeValue, DynamoDeleteItem, DynamoPutItem, StepFunctionsStartExecution } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn } from '../stepfunctions';
+
+
+/**
+ * Criteria used to suppress issues so that they are not passed to any issue
+ * handlers.
+ *
+ * When multiple criteria are given an issue must match all of them to be
+ * suppressed. When multiple values are given for a single criteria an issue
+ * only needs to match one of them.
+ */
+export interface IssueSuppressionOptions {
+  /**
+   * The accounts that issues should be suppressed for.
+   *
+   * @default Issues are suppressed regardless of account
+   */
+  readonly accountIds?: string[];
+
+  /**
+   * The point in time after which the suppression should no longer be
+   * applied.
+   *
+   * @default The suppression never expires
+   */
+  readonly expiration?: Date;
+
+  /**
+   * Patterns for the types of the findings that issues should be suppressed
+   * for, for example `Recon:EC2/PortProbeUnprotectedPort`.
+   *
+   * Patterns can include `*` as a wildcard. Patterns are matched against the
+   * `FindingType` reported by the issue parser. This is provided by the
+   * `GuardDutyFinding`, `InspectorFinding`, `MacieFinding` and
+   * `SecurityHubFinding` parsers, which use the first of the finding's
+   * `Types` for Security Hub. Issues from parsers that don't report a finding
+   * type never match.
+   *
+   * @default Issues are suppressed regardless of finding type
+   */
+  readonly findingTypes?: string[];
+
+  /**
+   * The match types of the issue parsers that issues should be suppressed
+   * for, for example `GuardDutyFinding`.
+   *
+   * @default Issues are suppressed regardless of type
+   */
+  readonly matchTypes?: string[];
+
+  /**
+   * Patterns for the ARNs of resources that issues should be suppressed for.
+   *
+   * Patterns can include `*` as a wildcard. Patterns are matched against the
+   * first resource listed in the event that raised the issue.
+   *
+   * @default Issues are suppressed regardless of resource
+   */
+  readonly resourcePatterns?: string[];
+}
+
+export interface IssueDeduplicationProps extends ResourceProps {
+  /**
+   * The table used to track issues that have already been passed to issue
+   * handlers.
+   *
+   * The table must use a string partition key named `Fingerprint`.
+   *
+   * @default A new table is created
+   */
+  readonly table?: ITable;
+
+  /**
+   * The amount of time after an issue is handled during which further
+   * occurrences of the same issue will be ignored.
+   *
+   * An issue is considered to be the same as a previous issue if it was
+   * raised by the same parser, in the same account, with the same ID and
+   * status. This allows updates that resolve an issue to still be passed to
+   * issue handlers.
+   *
+   * The window can be at most 8759 hours, one year less the time allowed for
+   * the record of an issue to be removed once the window has passed.
+   *
+   * @default Duration.hours(1)
+   */
+  readonly window?: Duration;
+}
+
+/**
+ * Prevents issues that have already been handled from being passed to issue
+ * handlers again and allows specific issues to be suppressed entirely.
+ */
+export class IssueDeduplication extends Resource {
+  public static readonly DEFAULT_WINDOW: Duration = Duration.hours(1);
+
+  /**
+   * The time the expiry handler is given to remove the record of an issue
+   * once the window has passed.
+   */
+  private static readonly EXPIRY_MARGIN: Duration = Duration.hours(1);
+
+  /**
+   * The longest execution time allowed for Standard state machines.
+   */
+  private static readonly MAX_EXECUTION_TIME: Duration = Duration.days(365);
+
+  // Internal properties
+  private readonly _suppressions: IssueSuppressionOptions[];
+  private _expiryHandler?: StateMachine;
+
+  // Input properties
+  public readonly window: Duration;
+
+  // Resource properties
+  public readonly table: ITable;
+
+
+  public constructor(scope: IConstruct, id: string, props: IssueDeduplicationProps = {}) {
+    super(scope, id, props);
+
+    this._suppressions = [];
+
+    this.window = props.window ?? IssueDeduplication.DEFAULT_WINDOW;
+
+    const maxWindow = IssueDeduplication.MAX_EXECUTION_TIME.minus(IssueDeduplication.EXPIRY_MARGIN);
+    if (this.window.toSeconds() < 1 || this.window.toSeconds() > maxWindow.toSeconds()) {
+      throw new Error([
+        'The deduplication window for issues must be between 1 second and',
+        `${maxWindow.toHours()} hours so that the expiry of handled issues`,
+        'fits within the one year limit on Step Functions executions.',
+      ].join(' '));
+    }
+
+    this.table = props.table ?? new Table(this, 'table', {
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      partitionKey: {
+        name: 'Fingerprint',
+        type: AttributeType.STRING,
+      },
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+  }
+
+  /**
+   * Registers criteria for issues that should not be passed to any issue
+   * handlers.
+   *
+   * @param options The criteria that issues must match to be suppressed.
+   */
+  public addSuppression(options: IssueSuppressionOptions): void {
+    if (!options.accountIds?.length && !options.findingTypes?.length && !options.matchTypes?.length && !options.resourcePatterns?.length) {
+      throw new Error([
+        'At least one account ID, finding type, match type, or resource',
+        'pattern is required when adding an issue suppression.',
+      ].join(' '));
+    }
+
+    this._suppressions.push(options);
+  }
+
+  /**
+   * Builds the states that check an issue against the registered
+   * suppressions and previously handled issues.
+   *
+   * @param scope The construct that the states should be created in.
+   * @param next The state to transition to if the issue should be handled.
+   * @returns The first state in the deduplication stage.
+   */
+  public bind(scope: IConstruct, next: IChainable): IChainable {
+    const skip = new Succeed(scope, 'duplicate-issue');
+
+    const setFingerprintDefaults = new Pass(scope, 'set-fingerprint-defaults', {
+      parameters: {
+        'Id.$': '$.Issue.Output.Summary',
+        'Status': 'OPEN',
+      },
+      resultPath: '$.Fingerprint',
+    });
+
+    const mergeFingerprintFields = new Pass(scope, 'merge-fingerprint-fields', {
+      parameters: {
+        'Fields.$': SfnFn.jsonMerge('$.Fingerprint', '$.Issue.Output'),
+      },
+      resultPath: '$.Fingerprint',
+    });
+
+    const computeFingerprint = new Pass(scope, 'compute-fingerprint', {
+      parameters: {
+        'Value.$': SfnFn.hash(SfnFn.format('{}/{}/{}/{}', [
+          '$.Context.MatchType',
+          '$.Context.AccountId',
+          '$.Fingerprint.Fields.Id',
+          '$.Fingerprint.Fields.Status',
+        ]), 'SHA-256'),
+      },
+      resultPath: '$.Fingerprint',
+    });
+
+    // The write only succeeds if the fingerprint hasn't been recorded yet. A
+    // failed condition check means the issue was handled within the window.
+    const recordIssue = new DynamoPutItem(scope, 'record-issue', {
+      conditionExpression: 'attribute_not_exists(Fingerprint)',
+      item: {
+        Fingerprint: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Fingerprint.Value')),
+        MatchType: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Context.MatchType')),
+        SeenAt: DynamoAttributeValue.fromString(JsonPath.stringAt('$$.Execution.StartTime')),
+      },
+      resultPath: JsonPath.DISCARD,
+      table: this.table,
+    });
+
+    recordIssue.addCatch(skip, {
+      errors: [
+        'DynamoDB.ConditionalCheckFailedException',
+      ],
+      resultPath: JsonPath.DISCARD,
+    });
+
+    // Handlers are run inside a Parallel state so that the record of an issue
+    // can be removed if any of them fail. Otherwise a retry of the issue
+    // would be treated as a duplicate until the window passed.
+    const handleIssue = new Parallel(scope, 'handle-unique-issue', {
+      resultPath: JsonPath.DISCARD,
+    });
+
+    handleIssue.branch(next);
+
+    const forgetIssue = new DynamoDeleteItem(scope, 'forget-issue', {
+      key: {
+        Fingerprint: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Fingerprint.Value')),
+      },
+      resultPath: JsonPath.DISCARD,
+      table: this.table,
+    });
+
+    forgetIssue.addRetry({
+      backoffRate: 2,
+      interval: Duration.seconds(1),
+      maxAttempts: 3,
+    });
+
+    const handlingFailed = new Fail(scope, 'issue-handling-failed', {
+      causePath: '$.HandlingError.Cause',
+      errorPath: '$.HandlingError.Error',
+    });
+
+    handleIssue.addCatch(forgetIssue.next(handlingFailed), {
+      resultPath: '$.HandlingError',
+    });
+
+    const scheduleExpiry = new StepFunctionsStartExecution(scope, 'schedule-expiry', {
+      input: TaskInput.fromObject({
+        'Fingerprint.$': '$.Fingerprint.Value',
+      }),
+      integrationPattern: IntegrationPattern.REQUEST_RESPONSE,
+      resultPath: JsonPath.DISCARD,
+      stateMachine: this.buildExpiryHandler(),
+    });
+
+    const deduplicate = setFingerprintDefaults
+      .next(mergeFingerprintFields)
+      .next(computeFingerprint)
+      .next(recordIssue)
+      .next(handleIssue)
+      .next(scheduleExpiry);
+
+    if (this._suppressions.length === 0) {
+      return deduplicate;
+    }
+
+    const suppressed = new Succeed(scope, 'suppressed-issue');
+
+    const checkSuppressions = new Choice(scope, 'check-suppressions');
+
+    this._suppressions.forEach((x) => {
+      checkSuppressions.when(this.buildSuppressionCondition(x), suppressed);
+    });
+
+    return checkSuppressions
+      .otherwise(deduplicate);
+  }
+
+  /**
+   * Builds a state machine that waits for the deduplication window to pass
+   * and then removes the record of an issue so that it can be raised again.
+   *
+   * A Standard state machine is used rather than a TTL on the table as
+   * DynamoDB can take up to several days to remove expired items.
+   */
+  private buildExpiryHandler(): StateMachine {
+    if (this._expiryHandler) {
+      return this._expiryHandler;
+    }
+
+    const wait = new Wait(this, 'wait-for-window', {
+      time: WaitTime.duration(this.window),
+    });
+
+    const removeRecord = new DynamoDeleteItem(this, 'remove-record', {
+      key: {
+        Fingerprint: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Fingerprint')),
+      },
+      table: this.table,
+    });
+
+    // Issues whose record is never removed can't be raised again, so
+    // transient failures are retried for up to 20 minutes of the margin.
+    removeRecord.addRetry({
+      backoffRate: 2,
+      interval: Duration.seconds(5),
+      maxAttempts: 8,
+    });
+
+    this._expiryHandler = new StateMachine(this, 'expiry-handler', {
+      definitionBody: DefinitionBody.fromChainable(wait.next(removeRecord)),
+      stateMachineType: StateMachineType.STANDARD,
+      timeout: this.window.plus(IssueDeduplication.EXPIRY_MARGIN),
+      tracingEnabled: true,
+    });
+
+    return this._expiryHandler;
+  }
+
+  private buildSuppressionCondition(options: IssueSuppressionOptions): Condition {
+    const conditions: Condition[] = [];
+
+    if (options.accountIds?.length) {
+      conditions.push(Condition.or(...options.accountIds.map((x) => {
+        return Condition.stringEquals('$.Context.AccountId', x);
+      })));
+    }
+
+    if (options.findingTypes?.length) {
+      conditions.push(Condition.isPresent('$.Issue.Output.FindingType'));
+      conditions.push(Condition.or(...options.findingTypes.map((x) => {
+        return Condition.stringMatches('$.Issue.Output.FindingType', x);
+      })));
+    }
+
+    if (options.matchTypes?.length) {
+      conditions.push(Condition.or(...options.matchTypes.map((x) => {
+        return Condition.stringEquals('$.Context.MatchType', x);
+      })));
+    }
+
+    if (options.resourcePatterns?.length) {
+      conditions.push(Condition.isPresent('$.Event.resources[0]'));
+      conditions.push(Condition.or(...options.resourcePatterns.map((x) => {
+        return Condition.stringMatches('$.Event.resources[0]', x);
+      })));
+    }
+
+    if (options.expiration) {
+      conditions.push(Condition.timestampLessThan('$$.Execution.StartTime', options.expiration.toISOString()));
+    }
+
+    return Condition.and(...conditions);
+  }
+}
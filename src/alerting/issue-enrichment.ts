@@ -0,0 +1,151 @@
+import { Chain, Choice, Condition, Pass } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { IssueHandlerOverride } from './issue-handler-override';
+import { SfnFn } from '../stepfunctions';
+
+
+const TAG_PATTERN = /^\{\{resource-tag:(.+)\}\}$/;
+
+/**
+ * Overrides for an issue handler whose values are taken from the tags of the
+ * resource an issue was raised for.
+ *
+ * Values are referenced using `IssueEnrichment.resourceTag` in place of a
+ * static value when building the overrides for a handler. For example,
+ * assigning Jira tickets to the owner of a resource:
+ *
+ * ```ts
+ * manager.addEnrichment(jiraTicket.buildEventOverrides({
+ *   assignee: IssueEnrichment.resourceTag('owner'),
+ * }));
+ * ```
+ *
+ * The overrides are only applied when the resource has every tag that they
+ * reference. Overrides provided by the trigger that raised the issue take
+ * precedence over those built from tags.
+ */
+export class IssueEnrichment {
+  /**
+   * Creates a placeholder for the value of a resource tag that can be used
+   * in place of a static value when building handler overrides.
+   *
+   * Placeholders must be used as the whole value of an override or as an
+   * element of a list. They can't be combined with other text.
+   *
+   * @param key The key of the tag whose value should be used.
+   * @returns A placeholder for the value of the tag.
+   */
+  public static resourceTag(key: string): string {
+    if (key.includes("'")) {
+      throw new Error([
+        'Tag keys used for issue enrichment cannot contain single quotes.',
+      ].join(' '));
+    }
+
+    return `{{resource-tag:${key}}}`;
+  }
+
+  private static parseTag(value: any): string | undefined {
+    return typeof value === 'string' ? value.match(TAG_PATTERN)?.[1] : undefined;
+  }
+
+  // Internal properties
+  private readonly _tagKeys: string[];
+
+  // Input properties
+  public readonly override: IssueHandlerOverride;
+
+  /**
+   * The keys of the resource tags referenced by the overrides.
+   */
+  public get tagKeys(): string[] {
+    return [...this._tagKeys];
+  }
+
+
+  public constructor(override: IssueHandlerOverride) {
+    this.override = override;
+    this._tagKeys = [...new Set(this.collectTags(override.overrides))];
+
+    if (this._tagKeys.length === 0) {
+      throw new Error([
+        `The overrides for the '${override.handler.name}' issue handler don't`,
+        'reference any resource tags. Use IssueEnrichment.resourceTag to',
+        'reference tags or add the overrides to an issue trigger instead.',
+      ].join(' '));
+    }
+  }
+
+  /**
+   * Builds the states that add the overrides to the handler overrides when
+   * the resource has all of the referenced tags.
+   *
+   * @param scope The construct that the states should be created in.
+   * @param id A suffix used to make the names of the states unique.
+   * @param tagPaths A map of tag keys to the paths holding the list of values
+   * found for that tag.
+   * @returns The states that apply the overrides.
+   */
+  public bind(scope: IConstruct, id: string, tagPaths: {[key: string]: string}): Chain {
+    const tagPath = (key: string): string => {
+      return `${tagPaths[key]}[0]`;
+    };
+
+    const checkTags = new Choice(scope, `check-enrichment-${id}`);
+
+    const buildEnrichment = new Pass(scope, `build-enrichment-${id}`, {
+      parameters: this.renderObject(this.override.overrides, tagPath),
+      resultPath: '$.Enrichment',
+    });
+
+    const applyEnrichment = new Pass(scope, `apply-enrichment-${id}`, {
+      parameters: {
+        'Overrides.$': SfnFn.jsonMerge('$.Enrichment', '$.Handler.Overrides'),
+      },
+      resultPath: '$.Handler',
+    });
+
+    return checkTags
+      .when(Condition.and(...this._tagKeys.map((x) => {
+        return Condition.isPresent(tagPath(x));
+      })), buildEnrichment
+        .next(applyEnrichment))
+      .afterwards({ includeOtherwise: true });
+  }
+
+  private collectTags(value: any): string[] {
+    const tag = IssueEnrichment.parseTag(value);
+    if (tag !== undefined) {
+      return [tag];
+    } else if (Array.isArray(value)) {
+      return value.flatMap((x) => this.collectTags(x));
+    } else if (value !== null && typeof value === 'object') {
+      return Object.values(value).flatMap((x) => this.collectTags(x));
+    } else {
+      return [];
+    }
+  }
+
+  private renderObject(obj: {[key: string]: any}, tagPath: (key: string) => string): {[key: string]: any} {
+    return Object.entries(obj).reduce((prev, [key, value]) => {
+      const tag = IssueEnrichment.parseTag(value);
+
+      if (value === undefined) {
+        return prev;
+      } else if (tag !== undefined) {
+        prev[`${key}.$`] = tagPath(tag);
+      } else if (Array.isArray(value) && this.collectTags(value).length) {
+        prev[`${key}.$`] = SfnFn.array(...value.map((x) => {
+          const item = IssueEnrichment.parseTag(x);
+          return item === undefined ? x : tagPath(item);
+        }));
+      } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        prev[key] = this.renderObject(value, tagPath);
+      } else {
+        prev[key] = value;
+      }
+
+      return prev;
+    }, {} as {[key: string]: any});
+  }
+}
@@ -0,0 +1,183 @@
+import { Duration, Resource, ResourceProps } from 'aws-cdk-lib';
+import { Alarm, ComparisonOperator, IAlarm, IAlarmAction, IMetric, TreatMissingData } from 'aws-cdk-lib/aws-cloudwatch';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { IStateMachine, JsonPath, RetryProps, Succeed, TaskInput, TaskStateBase } from 'aws-cdk-lib/aws-stepfunctions';
+import { SqsSendMessage } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { IIssueHandler } from './issue-manager';
+
+
+export interface IssueFailureHandlingProps extends ResourceProps {
+  /**
+   * Actions that should be taken when any of the failure alarms enter the
+   * `ALARM` state, for example notifying an SNS topic.
+   *
+   * @default No actions are taken
+   */
+  readonly alarmActions?: IAlarmAction[];
+
+  /**
+   * The queue that issues are sent to when an issue handler fails to handle
+   * them.
+   *
+   * @default A new queue is created
+   */
+  readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The retry policy used for issue handlers that haven't been given a
+   * policy of their own.
+   *
+   * @default IssueFailureHandling.DEFAULT_RETRY
+   */
+  readonly retry?: RetryProps;
+}
+
+/**
+ * Prevents issues from being lost when an issue handler fails.
+ *
+ * Failed handler executions are retried and, if they continue to fail, the
+ * issue is sent to a dead-letter queue along with the error so that the
+ * remaining handlers can still process it. Alarms are raised when issues are
+ * sent to the dead-letter queue, when handler executions fail and when the
+ * queues used internally by issue handlers to deliver requests receive
+ * messages that couldn't be delivered.
+ */
+export class IssueFailureHandling extends Resource {
+  public static readonly DEFAULT_RETRY: RetryProps = {
+    backoffRate: 2,
+    errors: [
+      'States.ALL',
+    ],
+    interval: Duration.seconds(5),
+    maxAttempts: 3,
+  };
+
+  // Internal properties
+  private readonly _alarms: IAlarm[];
+  private readonly _retries: {[name: string]: RetryProps};
+
+  // Input properties
+  public readonly alarmActions: IAlarmAction[];
+  public readonly retry: RetryProps;
+
+  // Resource properties
+  public readonly deadLetterQueue: IQueue;
+
+
+  public constructor(scope: IConstruct, id: string, props: IssueFailureHandlingProps = {}) {
+    super(scope, id, props);
+
+    this._alarms = [];
+    this._retries = {};
+
+    this.alarmActions = props.alarmActions ?? [];
+    this.retry = props.retry ?? IssueFailureHandling.DEFAULT_RETRY;
+
+    this.deadLetterQueue = props.deadLetterQueue ?? new Queue(this, 'dead-letter-queue', {
+      retentionPeriod: Duration.days(14),
+    });
+
+    this.addAlarm('dead-letter-queue-alarm', this.deadLetterQueue.metricApproximateNumberOfMessagesVisible({
+      period: Duration.minutes(5),
+      statistic: 'Maximum',
+    }), 'Issues could not be handled and were sent to the dead-letter queue.');
+  }
+
+  /**
+   * The alarms that have been created to monitor for failures.
+   */
+  public get alarms(): IAlarm[] {
+    return [...this._alarms];
+  }
+
+  /**
+   * Sets the retry policy used when executions of a specific issue handler
+   * fail.
+   *
+   * @param handler The issue handler the retry policy applies to.
+   * @param retry The retry policy to use in place of the default policy.
+   */
+  public addHandlerRetry(handler: IIssueHandler, retry: RetryProps): void {
+    this._retries[handler.name] = retry;
+  }
+
+  /**
+   * Adds the retry policy for a handler to the task that executes it and
+   * sends the issue to the dead-letter queue if the handler still fails.
+   *
+   * @param scope The construct that the states should be created in.
+   * @param handler The issue handler being executed.
+   * @param execute The task that executes the issue handler.
+   */
+  public bindHandler(scope: IConstruct, handler: IIssueHandler, execute: TaskStateBase): void {
+    const sendToDeadLetterQueue = new SqsSendMessage(scope, `send-to-dead-letter-queue-${handler.name}`, {
+      messageBody: TaskInput.fromObject({
+        'Context.$': '$.Context',
+        'Error.$': '$.Failure',
+        'ExecutionId.$': '$$.Execution.Id',
+        'Handler': handler.name,
+        'Issue.$': '$.Issue',
+        'Overrides.$': '$.Handler.Overrides',
+      }),
+      queue: this.deadLetterQueue,
+      resultPath: JsonPath.DISCARD,
+    });
+
+    const handlerFailed = new Succeed(scope, `handler-failed-${handler.name}`);
+
+    execute.addRetry(this._retries[handler.name] ?? this.retry);
+    execute.addCatch(sendToDeadLetterQueue.next(handlerFailed), {
+      errors: [
+        'States.ALL',
+      ],
+      resultPath: '$.Failure',
+    });
+  }
+
+  /**
+   * Creates alarms that are raised when the issue manager or any of its
+   * handlers fail.
+   *
+   * @param stateMachine The state machine used by the issue manager.
+   * @param handlers The issue handlers registered with the issue manager.
+   */
+  public bindAlarms(stateMachine: IStateMachine, handlers: IIssueHandler[]): void {
+    this.addAlarm('execution-failed-alarm', stateMachine.metricFailed({
+      period: Duration.minutes(5),
+      statistic: 'Sum',
+    }), 'Executions of the issue manager failed.');
+
+    handlers.forEach((x) => {
+      this.addAlarm(`handler-failed-alarm-${x.name}`, x.handler.metricFailed({
+        period: Duration.minutes(5),
+        statistic: 'Sum',
+      }), `Executions of the ${x.name} issue handler failed.`);
+
+      if (x.deadLetterQueue) {
+        this.addAlarm(`handler-dead-letter-queue-alarm-${x.name}`, x.deadLetterQueue.metricApproximateNumberOfMessagesVisible({
+          period: Duration.minutes(5),
+          statistic: 'Maximum',
+        }), `Requests made by the ${x.name} issue handler could not be delivered.`);
+      }
+    });
+  }
+
+  private addAlarm(id: string, metric: IMetric, description: string): IAlarm {
+    const alarm = new Alarm(this, id, {
+      alarmDescription: description,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      evaluationPeriods: 1,
+      metric: metric,
+      threshold: 1,
+      treatMissingData: TreatMissingData.NOT_BREACHING,
+    });
+
+    this.alarmActions.forEach((x) => {
+      alarm.addAlarmAction(x);
+    });
+
+    this._alarms.push(alarm);
+    return alarm;
+  }
+}
@@ -0,0 +1,98 @@
+import { Aspects, Resource, ResourceProps } from 'aws-cdk-lib';
+import { IEventBus, Rule } from 'aws-cdk-lib/aws-events';
+import { EventBus as EventBusTarget } from 'aws-cdk-lib/aws-events-targets';
+import { IConstruct } from 'constructs';
+import { IIssueParser } from './issue-manager';
+
+
+export interface IssueForwarderProps extends ResourceProps {
+  /**
+   * The event bus used by the central issue manager that events should be
+   * forwarded to.
+   *
+   * The event bus must allow the account the forwarder is deployed in to
+   * send events to it. See `IssueManager.addSourceAccount`.
+   */
+  readonly destination: IEventBus;
+
+  /**
+   * The event bus in the local account that events are forwarded from.
+   *
+   * @default The default event bus for the account
+   */
+  readonly eventBus?: IEventBus;
+
+  /**
+   * The issue parsers used by the central issue manager. Only events that
+   * match the triggers of these parsers are forwarded.
+   */
+  readonly parsers?: IIssueParser[];
+}
+
+/**
+ * Forwards events that would trigger an issue to the event bus of a central
+ * issue manager in another account.
+ *
+ * Intended to be deployed to each member account so that a single
+ * `IssueManager` can handle issues for all accounts. The account the event
+ * was originally raised in is preserved when forwarding and is made available
+ * to issue handlers as the `AccountId` of the issue.
+ */
+export class IssueForwarder extends Resource {
+  // Internal properties
+  private readonly _parsers: IIssueParser[];
+
+  // Input properties
+  public readonly destination: IEventBus;
+  public readonly eventBus?: IEventBus;
+
+
+  public constructor(scope: IConstruct, id: string, props: IssueForwarderProps) {
+    super(scope, id, props);
+
+    this._parsers = [];
+
+    this.destination = props.destination;
+    this.eventBus = props.eventBus;
+
+    props.parsers?.forEach((x) => {
+      this.addIssueParser(x);
+    });
+
+    Aspects.of(this).add({
+      visit: (node: IConstruct) => {
+        if (node === this) {
+          this.addForwardingRules();
+        }
+      },
+    });
+  }
+
+  /**
+   * Forwards events that match the triggers of a parser used by the central
+   * issue manager.
+   *
+   * @param parser A parser used by the central issue manager.
+   */
+  public addIssueParser(parser: IIssueParser): void {
+    this._parsers.push(parser);
+  }
+
+  protected addForwardingRules(): void {
+    const target = new EventBusTarget(this.destination);
+
+    this._parsers.forEach((parser) => {
+      parser.bind(this).forEach((trigger, idx) => {
+        new Rule(this, `forward-${parser.matchType}-${idx}`, {
+          description: `Forwards events for ${parser.matchType} issues to a central issue manager.`,
+          enabled: true,
+          eventBus: this.eventBus,
+          eventPattern: trigger.eventPattern,
+          targets: [
+            target,
+          ],
+        });
+      });
+    });
+  }
+}
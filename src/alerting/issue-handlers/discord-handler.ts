@@ -2,8 +2,8 @@ import { ArnFormat, Duration, Lazy } from 'aws-cdk-lib';
 import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
 import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
 import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
-import { Queue } from 'aws-cdk-lib/aws-sqs';
-import { Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, CustomState, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
 import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import { IConstruct } from 'constructs';
 import { SfnFn } from '../../stepfunctions';
@@ -38,9 +38,22 @@ export interface DiscordProps extends IssuePluginBaseProps {
  * Intended for use with the `IssueManager` state machine which allows
  * arbitrary types of events to be processed into standard values and then
  * output or one of more issue tracking services.
+ *
+ * When the `IssueManager` has tracking enabled, resolved issues are announced
+ * with a new message in the channel that the original message was sent to.
+ * Messages are delivered through an EventBridge API destination, which
+ * doesn't return the ID of the message it created, so resolution notices
+ * can't be sent as replies to the original message or in a thread started
+ * from it.
  */
 export class Discord extends IssuePluginBase implements IIssueHandler {
   public static readonly DEFAULT_NAME: string = 'Discord';
+  public static readonly MAX_EMBED_DESCRIPTION_LENGTH: number = 4096;
+  public static readonly MAX_EMBED_FIELD_NAME_LENGTH: number = 256;
+  public static readonly MAX_EMBED_FIELD_VALUE_LENGTH: number = 1024;
+  public static readonly MAX_EMBED_FIELDS: number = 25;
+  public static readonly MAX_EMBED_LENGTH: number = 6000;
+  public static readonly MAX_EMBED_TITLE_LENGTH: number = 256;
   public static readonly MESSAGES_ENDPOINT: string = 'https://discord.com/api/v10/channels/*/messages';
 
   /**
@@ -114,10 +127,24 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
   public readonly connection: Connection;
 
   /**
-   * The State Machine that handles creating a Jira ticket for a passed issue.
+   * The queue that receives Discord messages that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles sending a Discord message for a passed
+   * issue.
    *
-   * Internally this state machine uses the AWS managed `AWS-CreateJiraIssue`
-   * SSM Automation document.
+   * The channel that the message was sent to is returned as the `Reference`
+   * output of the state machine. When a `RESOLVED` issue is passed along with
+   * a reference a resolution notice is posted to the same channel.
+   *
+   * Messages are sent asynchronously through the API destination which
+   * doesn't return the ID of the message that was created, so the resolution
+   * notice is posted as a new message rather than as a reply to the original
+   * message.
    *
    * @group Resources
    */
@@ -190,16 +217,6 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
       outputPath: '$.Merged',
     });
 
-    const buildRequest = new Pass(this, 'build-request', {
-      parameters: {
-        'content.$': SfnFn.format('**{}**\n{}', [
-          '$.Summary',
-          '$.Description',
-        ]),
-      },
-      resultPath: '$.Output',
-    });
-
     const checkMentions = new Choice(this, 'check-mentions');
 
     const initializeMentionsBuilder = new Pass(this, 'initialize-mentions-builder', {
@@ -207,8 +224,8 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
         'Builder': '',
         'Delimiter': '',
         'Index': 0,
-        'Length.$': '$.Mentions.Length',
-        'List.$': '$.Merged.Mentions',
+        'Length.$': SfnFn.arrayLength('$.Mentions'),
+        'List.$': '$.Mentions',
       },
       resultPath: '$.Mentions',
     });
@@ -217,38 +234,59 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
 
     const addMention = new Pass(this, 'add-mentions', {
       parameters: {
-        'Builder': SfnFn.format('{}{}@{}', [
+        'Builder.$': SfnFn.format('{}{}@{}', [
           '$.Mentions.Builder',
           '$.Mentions.Delimiter',
           SfnFn.arrayGetItem('$.Mentions.List', '$.Mentions.Index'),
         ]),
         'Delimiter': ' ',
-        'Index': SfnFn.mathAdd('$.Mantions.Index', 1),
+        'Index.$': SfnFn.mathAdd('$.Mentions.Index', 1),
         'Length.$': '$.Mentions.Length',
-        'List.$': '$.Merged.Mentions',
+        'List.$': '$.Mentions.List',
       },
       resultPath: '$.Mentions',
     });
 
-    const addMentionsToRequest = new Pass(this, 'add-mentions-to-request', {
+    const addMentionsToPrefix = new Pass(this, 'add-mentions-to-prefix', {
       parameters: {
-        'content.$': SfnFn.format('{}\n{}', [
+        'Value.$': SfnFn.format('{}\n', [
           '$.Mentions.Builder',
-          '$.Output.content',
         ]),
       },
-      resultPath: '$.Output',
+      resultPath: '$.Prefix',
+    });
+
+    const noMentions = new Pass(this, 'no-mentions', {
+      parameters: {
+        Value: '',
+      },
+      resultPath: '$.Prefix',
     });
 
     const handleMentions = checkMentions
-      .when(Condition.isPresent('$.Merged.Mentions'), initializeMentionsBuilder
+      .when(Condition.isPresent('$.Mentions[0]'), initializeMentionsBuilder
         .next(iterateMentions
           .when(Condition.numberLessThanJsonPath('$.Mentions.Index', '$.Mentions.Length'), addMention
             .next(iterateMentions))
           .afterwards({ includeOtherwise: true })
-          .next(addMentionsToRequest)))
-      .afterwards({ includeOtherwise: true });
+          .next(addMentionsToPrefix)))
+      .otherwise(noMentions)
+      .afterwards();
+
+    const checkEmbed = new Choice(this, 'check-embed');
+
+    const buildRequest = new Pass(this, 'build-request', {
+      parameters: {
+        'content.$': SfnFn.format('{}**{}**\n{}', [
+          '$.Prefix.Value',
+          '$.Summary',
+          '$.Description',
+        ]),
+      },
+      resultPath: '$.Request',
+    });
 
+    const sendEmbed = this.buildEmbedRequest();
 
     const putEvent = new CallAwsService(this, 'put-event', {
       action: 'putEvents',
@@ -265,7 +303,7 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
         Entries: [{
           'Detail': {
             'channel.$': '$.Channel',
-            'payload.$': '$.Output',
+            'payload.$': '$.Request',
           },
           'EventBusName': this.eventBus?.eventBusName ?? 'default',
           'DetailType': this.name,
@@ -277,12 +315,48 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
       service: 'eventbridge',
     });
 
+    const formatMessageOutput = new Pass(this, 'format-message-output', {
+      parameters: {
+        'Reference.$': '$.Channel',
+      },
+    });
+
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const buildResolution = new Pass(this, 'build-resolution', {
+      parameters: {
+        'Channel.$': '$.Reference',
+        'Request': {
+          'content.$': SfnFn.format('**Resolved:** {}', [
+            '$.Summary',
+          ]),
+        },
+      },
+    });
+
+    // Issues raised by parsers that provide a structured description are sent
+    // as an embed so that each detail of the issue is shown as a field.
+    const sendMessageChain = handleMentions
+      .next(checkEmbed
+        .when(Condition.isPresent('$.DescriptionFormats.Embed'), sendEmbed)
+        .otherwise(buildRequest)
+        .afterwards());
+
+    // Issues that have been resolved are announced in the channel where the
+    // message for the issue was originally sent.
     const definition = nestInput
       .next(addDefaults)
       .next(mergeInputWithDefaults)
-      .next(buildRequest)
-      .next(handleMentions)
-      .next(putEvent);
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Reference'),
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), buildResolution)
+        .otherwise(sendMessageChain)
+        .afterwards())
+      .next(putEvent)
+      .next(formatMessageOutput);
 
     this.handler = new StateMachine(this, 'state-machine', {
       definitionBody: DefinitionBody.fromChainable(definition),
@@ -292,6 +366,8 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
       tracingEnabled: true,
     });
 
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
     new Rule(this, 'rule', {
       description: 'Triggers a Discord alert in response to an event.',
       enabled: true,
@@ -309,7 +385,7 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
       },
       targets: [
         new EventsApiDestination(this.apiDestination, {
-          deadLetterQueue: new Queue(this, 'dead-letter-queue'),
+          deadLetterQueue: this.deadLetterQueue,
           event: RuleTargetInput.fromEventPath('$.detail.payload'),
           pathParameterValues: [
             '$.detail.channel',
@@ -319,6 +395,97 @@ export class Discord extends IssuePluginBase implements IIssueHandler {
     });
   }
 
+  /**
+   * Builds a request that sends the description of an issue as an embed.
+   *
+   * Discord rejects embeds with more than 25 fields, field values over 1024
+   * characters or more than 6000 characters in total. Values that are too
+   * long are truncated and any fields that would take the embed over these
+   * limits are dropped.
+   */
+  protected buildEmbedRequest(): Chain {
+    const addEmbedDefaults = new Pass(this, 'add-embed-defaults', {
+      parameters: {
+        'title.$': '$.Summary',
+      },
+      resultPath: '$.Embed.Defaults',
+    });
+
+    const buildEmbed = new Pass(this, 'build-embed', {
+      parameters: {
+        'Value.$': SfnFn.jsonMerge(
+          '$.Embed.Defaults',
+          '$.DescriptionFormats.Embed',
+        ),
+      },
+      resultPath: '$.Embed',
+    });
+
+    // Discord rejects embeds that exceed its size limits so long values are
+    // truncated and fields that don't fit are dropped. Intrinsic functions
+    // can't measure or slice strings so this state uses JSONata instead.
+    const limitEmbed = new CustomState(this, 'limit-embed', {
+      stateJson: {
+        Output: [
+          '{% (',
+          '  $truncate := function($value, $max) {(',
+          '    $text := $string($value);',
+          "    $length($text) > $max ? $substring($text, 0, $max - 1) & '\u2026' : $text",
+          '  )};',
+          '  $measure := function($value) {',
+          '    $exists($value) ? $length($value) : 0',
+          '  };',
+          '  $embed := $states.input.Embed.Value;',
+          `  $title := $exists($embed.title) ? $truncate($embed.title, ${Discord.MAX_EMBED_TITLE_LENGTH});`,
+          `  $description := $exists($embed.description) ? $truncate($embed.description, ${Discord.MAX_EMBED_DESCRIPTION_LENGTH});`,
+          '  $limited := $reduce($embed.fields, function($acc, $field, $index) {(',
+          `    $name := $truncate($field.name, ${Discord.MAX_EMBED_FIELD_NAME_LENGTH});`,
+          `    $value := $truncate($field.value, ${Discord.MAX_EMBED_FIELD_VALUE_LENGTH});`,
+          '    $size := $length($name) + $length($value);',
+          `    $index < ${Discord.MAX_EMBED_FIELDS} and $acc.open and $size <= $acc.remaining ? {`,
+          "      'fields': $append($acc.fields, [$merge([$field, { 'name': $name, 'value': $value }])]),",
+          "      'open': true,",
+          "      'remaining': $acc.remaining - $size",
+          "    } : $merge([$acc, { 'open': false }])",
+          '  )}, {',
+          "    'fields': [],",
+          "    'open': true,",
+          `    'remaining': ${Discord.MAX_EMBED_LENGTH} - $measure($title) - $measure($description) - $measure($embed.footer.text) - $measure($embed.author.name)`,
+          '  });',
+          '  $merge([$states.input, {',
+          "    'Embed': $merge([$states.input.Embed, {",
+          "      'Value': $merge([",
+          '        $embed,',
+          "        $exists($title) ? { 'title': $title } : {},",
+          "        $exists($description) ? { 'description': $description } : {},",
+          "        $exists($embed.fields) ? { 'fields': $limited.fields } : {}",
+          '      ])',
+          '    }])',
+          '  }])',
+          ') %}',
+        ].join('\n'),
+        QueryLanguage: 'JSONata',
+        Type: 'Pass',
+      },
+    });
+
+    const buildRequest = new Pass(this, 'build-embed-request', {
+      parameters: {
+        'content.$': SfnFn.format('{}**{}**', [
+          '$.Prefix.Value',
+          '$.Summary',
+        ]),
+        'embeds.$': SfnFn.array('$.Embed.Value'),
+      },
+      resultPath: '$.Request',
+    });
+
+    return addEmbedDefaults
+      .next(buildEmbed)
+      .next(limitEmbed)
+      .next(buildRequest);
+  }
+
   public buildEventOverrides(options: DiscordOverrideOptions): IssueHandlerOverride {
     return new IssueHandlerOverride(this, {
       Channel: options.channel,
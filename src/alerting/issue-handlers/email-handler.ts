@@ -0,0 +1,510 @@
+import { ArnFormat, Duration } from 'aws-cdk-lib';
+import { IEmailIdentity } from 'aws-cdk-lib/aws-ses';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType, Succeed } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn, StringReplace } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * A template used to render part of an email sent by the email issue
+ * handler.
+ *
+ * Templates use the Step Functions `States.Format` syntax where each `{}` in
+ * the template is replaced by the value of the corresponding JSONPath field.
+ * The characters `'`, `{`, `}` and `\` can't be used as literals in the
+ * template. Available fields include:
+ *
+ * - `$.Summary`: The title of the issue.
+ * - `$.HtmlSummary`: The title of the issue with HTML special characters
+ *   escaped.
+ * - `$.Description`: The full description of the issue.
+ * - `$.HtmlDescription`: The description of the issue with HTML special
+ *   characters escaped and line breaks converted to `<br>` tags.
+ * - `$.Severity`: The standardized severity of the issue.
+ * - `$.Status`: The status of the issue. This is always `OPEN` as resolved
+ *   issues aren't emailed.
+ * - `$.AccountId`: The AWS account where the issue was raised.
+ * - `$.Region`: The AWS region where the issue was raised.
+ * - `$.MatchType`: The type of the parser that raised the issue.
+ * - `$.ConsoleLink.Html`: An HTML paragraph linking to the issue in the AWS
+ *   console, or an empty string if the parser did not provide a URL.
+ * - `$.ConsoleLink.Text`: A line linking to the issue in the AWS console, or
+ *   an empty string if the parser did not provide a URL.
+ */
+export class EmailTemplate {
+  /**
+   * The default template used for the HTML body of emails.
+   */
+  public static readonly DEFAULT_HTML: EmailTemplate = EmailTemplate.format([
+    '<html><body style="font-family: Arial, sans-serif;">',
+    '<h2>{}</h2>',
+    '<table style="border-collapse: collapse;">',
+    '<tr><td style="padding-right: 12px;"><b>Severity</b></td><td>{}</td></tr>',
+    '<tr><td style="padding-right: 12px;"><b>Status</b></td><td>{}</td></tr>',
+    '<tr><td style="padding-right: 12px;"><b>Account</b></td><td>{}</td></tr>',
+    '<tr><td style="padding-right: 12px;"><b>Region</b></td><td>{}</td></tr>',
+    '<tr><td style="padding-right: 12px;"><b>Type</b></td><td>{}</td></tr>',
+    '</table>',
+    '<p>{}</p>',
+    '{}',
+    '</body></html>',
+  ].join(''), [
+    '$.HtmlSummary',
+    '$.Severity',
+    '$.Status',
+    '$.AccountId',
+    '$.Region',
+    '$.MatchType',
+    '$.HtmlDescription',
+    '$.ConsoleLink.Html',
+  ]);
+
+  /**
+   * The default template used for the subject of emails.
+   */
+  public static readonly DEFAULT_SUBJECT: EmailTemplate = EmailTemplate.format('[{}] {}', [
+    '$.Severity',
+    '$.Summary',
+  ]);
+
+  /**
+   * The default template used for the plain text body of emails.
+   */
+  public static readonly DEFAULT_TEXT: EmailTemplate = EmailTemplate.format([
+    '{}',
+    '',
+    'Severity: {}',
+    'Status: {}',
+    'Account: {}',
+    'Region: {}',
+    'Type: {}',
+    '',
+    '{}',
+    '',
+    '{}',
+  ].join('\n'), [
+    '$.Summary',
+    '$.Severity',
+    '$.Status',
+    '$.AccountId',
+    '$.Region',
+    '$.MatchType',
+    '$.Description',
+    '$.ConsoleLink.Text',
+  ]);
+
+  /**
+   * Creates a template from a format string and the fields that should be
+   * substituted into it.
+   *
+   * @param template The format string for the template where each `{}` is
+   * replaced by the value of a field.
+   * @param fields JSONPath expressions for the values to substitute into the
+   * template, in the order they appear.
+   * @returns A template that can be used by the email issue handler.
+   */
+  public static format(template: string, fields: string[]): EmailTemplate {
+    const placeholders = template.split('{}').length - 1;
+    if (placeholders !== fields.length) {
+      throw new Error([
+        `Email template has ${placeholders} placeholders but ${fields.length}`,
+        'fields were provided.',
+      ].join(' '));
+    }
+
+    return new EmailTemplate(template, fields);
+  }
+
+  /**
+   * Creates a template that uses a single field as its entire content.
+   *
+   * @param field JSONPath expression for the field to use.
+   * @returns A template that can be used by the email issue handler.
+   */
+  public static fromField(field: string): EmailTemplate {
+    return new EmailTemplate('{}', [field]);
+  }
+
+  /**
+   * JSONPath expressions for the values substituted into the template.
+   */
+  public readonly fields: string[];
+
+  /**
+   * The format string for the template.
+   */
+  public readonly template: string;
+
+
+  private constructor(template: string, fields: string[]) {
+    this.fields = fields;
+    this.template = template;
+  }
+
+  /**
+   * Renders the template as a Step Functions intrinsic function.
+   *
+   * @returns A `States.Format` expression that produces the content of the
+   * template.
+   */
+  public render(): string {
+    return SfnFn.format(this.template, this.fields);
+  }
+}
+
+export interface EmailOverrideOptions {
+  readonly recipients?: string[];
+}
+
+/**
+ * Configuration controlling how emails should be sent in response to events.
+ */
+export interface EmailProps extends IssuePluginBaseProps {
+  /**
+   * The email address that emails should be sent from.
+   */
+  readonly from: string;
+
+  /**
+   * The template used for the HTML body of emails.
+   *
+   * @default EmailTemplate.DEFAULT_HTML
+   */
+  readonly htmlTemplate?: EmailTemplate;
+
+  /**
+   * The SES identity that emails will be sent from. Used to scope the
+   * permissions of the handler.
+   *
+   * @default Emails can be sent using any identity in the account.
+   */
+  readonly identity?: IEmailIdentity;
+
+  readonly name?: string;
+
+  /**
+   * The email addresses that emails should be sent to if no override is
+   * given.
+   */
+  readonly recipients: string[];
+
+  /**
+   * The template used for the subject of emails.
+   *
+   * @default EmailTemplate.DEFAULT_SUBJECT
+   */
+  readonly subjectTemplate?: EmailTemplate;
+
+  /**
+   * The template used for the plain text body of emails.
+   *
+   * @default EmailTemplate.DEFAULT_TEXT
+   */
+  readonly textTemplate?: EmailTemplate;
+
+  readonly timeout?: Duration;
+}
+
+/**
+ * A standardized implementation that allows emails to be sent using Amazon
+ * SES in response to events detected in AWS.
+ *
+ * Each email contains both an HTML and a plain text rendering of the issue.
+ * Emails are only sent when an issue is opened and resolved issues are
+ * ignored.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ *
+ * @see [SendEmail](https://docs.aws.amazon.com/ses/latest/APIReference-V2/API_SendEmail.html)
+ */
+export class Email extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'Email';
+
+  /**
+   * The email address that emails are sent from.
+   *
+   * @group Inputs
+   */
+  public readonly from: string;
+
+  /**
+   * The template used for the HTML body of emails.
+   *
+   * @group Inputs
+   */
+  public readonly htmlTemplate: EmailTemplate;
+
+  /**
+   * The SES identity that emails are sent from.
+   *
+   * @group Inputs
+   */
+  public readonly identity?: IEmailIdentity;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The email addresses that emails are sent to if no override is given.
+   *
+   * @group Inputs
+   */
+  public readonly recipients: string[];
+
+  /**
+   * The template used for the subject of emails.
+   *
+   * @group Inputs
+   */
+  public readonly subjectTemplate: EmailTemplate;
+
+  /**
+   * The template used for the plain text body of emails.
+   *
+   * @group Inputs
+   */
+  public readonly textTemplate: EmailTemplate;
+
+  /**
+   * The length of time that the State Machine that handles sending emails is
+   * allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * The State Machine that handles sending an email for a passed issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the Email class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: EmailProps) {
+    super(scope, id, props);
+
+    this.from = props.from;
+    this.htmlTemplate = props.htmlTemplate ?? EmailTemplate.DEFAULT_HTML;
+    this.identity = props.identity;
+    this.name = props.name ?? Email.DEFAULT_NAME;
+    this.recipients = props.recipients;
+    this.subjectTemplate = props.subjectTemplate ?? EmailTemplate.DEFAULT_SUBJECT;
+    this.textTemplate = props.textTemplate ?? EmailTemplate.DEFAULT_TEXT;
+    this.timeout = props.timeout;
+
+    if (this.recipients.length === 0) {
+      throw new Error([
+        'At least one recipient must be specified when creating an email',
+        'issue handler.',
+      ].join(' '));
+    }
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: {
+        AccountId: 'UNKNOWN',
+        MatchType: 'UNKNOWN',
+        Recipients: this.recipients,
+        Region: 'UNKNOWN',
+        Severity: 'UNKNOWN',
+        Status: 'OPEN',
+      },
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const escapeSummary = this.buildHtmlEscape('escape-summary', '$.Summary', 'HtmlSummary');
+
+    const escapeDescription = this.buildHtmlEscape('escape', '$.Description', 'HtmlDescription');
+
+    const convertLineBreaks = new StringReplace(this, 'convert-line-breaks', {
+      inputString: '$.HtmlDescription',
+      outputKey: 'HtmlDescription',
+      replace: '<br>',
+      search: '\n',
+    });
+
+    const checkUrl = new Choice(this, 'check-url');
+
+    // The URL is used as an attribute value so quotes are escaped as well as
+    // the characters escaped in the rest of the body.
+    const escapeUrl = this.buildHtmlEscape('escape-url', '$.Url', 'HtmlUrl')
+      .next(new StringReplace(this, 'escape-url-quotes', {
+        inputString: '$.HtmlUrl',
+        outputKey: 'HtmlUrl',
+        replace: '&quot;',
+        search: '"',
+      }));
+
+    const addConsoleLink = new Pass(this, 'add-console-link', {
+      parameters: {
+        'Html.$': SfnFn.format('<p><a href="{}">View in AWS Console</a></p>', [
+          '$.HtmlUrl',
+        ]),
+        'Text.$': SfnFn.format('View in AWS Console: {}', [
+          '$.Url',
+        ]),
+      },
+      resultPath: '$.ConsoleLink',
+    });
+
+    const addNoConsoleLink = new Pass(this, 'add-no-console-link', {
+      parameters: {
+        Html: '',
+        Text: '',
+      },
+      resultPath: '$.ConsoleLink',
+    });
+
+    const buildConsoleLink = checkUrl
+      .when(Condition.isPresent('$.Url'), escapeUrl
+        .next(addConsoleLink))
+      .otherwise(addNoConsoleLink)
+      .afterwards();
+
+    const sendEmail = new CallAwsService(this, 'send-email', {
+      action: 'sendEmail',
+      iamAction: 'ses:SendEmail',
+      iamResources: [
+        this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'identity',
+          resourceName: this.identity?.emailIdentityName ?? '*',
+          service: 'ses',
+        }),
+      ],
+      parameters: {
+        Content: {
+          Simple: {
+            Body: {
+              Html: {
+                'Charset': 'UTF-8',
+                'Data.$': this.htmlTemplate.render(),
+              },
+              Text: {
+                'Charset': 'UTF-8',
+                'Data.$': this.textTemplate.render(),
+              },
+            },
+            Subject: {
+              'Charset': 'UTF-8',
+              'Data.$': this.subjectTemplate.render(),
+            },
+          },
+        },
+        Destination: {
+          'ToAddresses.$': '$.Recipients',
+        },
+        FromEmailAddress: this.from,
+      },
+      resultPath: '$.SendEmail',
+      service: 'sesv2',
+    });
+
+    // Emails are only sent for new issues. A resolved issue would otherwise
+    // arrive looking the same as the alert it resolves.
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const sendEmailChain = escapeSummary
+      .next(escapeDescription)
+      .next(convertLineBreaks)
+      .next(buildConsoleLink)
+      .next(sendEmail);
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(sendEmailChain));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  public buildEventOverrides(options: EmailOverrideOptions): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, {
+      Recipients: options.recipients,
+    });
+  }
+
+  /**
+   * Builds the states that escape the HTML special characters in a string
+   * so that it can be included in the HTML body of an email.
+   *
+   * @param id The prefix for the IDs of the states.
+   * @param inputString The JSONPath of the string to escape.
+   * @param outputKey The key the escaped string should be written to.
+   * @returns The states that escape the string.
+   */
+  private buildHtmlEscape(id: string, inputString: string, outputKey: string): Chain {
+    const escapeAmpersands = new StringReplace(this, `${id}-ampersands`, {
+      inputString: inputString,
+      outputKey: outputKey,
+      replace: '&amp;',
+      search: '&',
+    });
+
+    const escapeLessThan = new StringReplace(this, `${id}-less-than`, {
+      inputString: `$.${outputKey}`,
+      outputKey: outputKey,
+      replace: '&lt;',
+      search: '<',
+    });
+
+    const escapeGreaterThan = new StringReplace(this, `${id}-greater-than`, {
+      inputString: `$.${outputKey}`,
+      outputKey: outputKey,
+      replace: '&gt;',
+      search: '>',
+    });
+
+    return escapeAmpersands
+      .next(escapeLessThan)
+      .next(escapeGreaterThan);
+  }
+}
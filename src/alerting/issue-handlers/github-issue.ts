@@ -0,0 +1,463 @@
+import { ArnFormat, Duration } from 'aws-cdk-lib';
+import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType, Succeed } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn } from '../../stepfunctions';
+import { definedFields } from '../../utils/formatting';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * A mapping of the standard severities supported by issue manager to the
+ * labels that should be applied to GitHub issues.
+ */
+export interface GitHubIssueSeverityLabelMap {
+  readonly critical?: string;
+  readonly default?: string;
+  readonly high?: string;
+  readonly info?: string;
+  readonly low?: string;
+  readonly medium?: string;
+}
+
+export interface GitHubIssueOverrideOptions {
+  readonly assignees?: string[];
+  readonly labels?: string[];
+  readonly owner?: string;
+  readonly repository?: string;
+}
+
+/**
+ * Configuration controlling how GitHub issues should be created in response
+ * to events.
+ */
+export interface GitHubIssueProps extends IssuePluginBaseProps {
+  readonly assignees?: string[];
+  readonly eventBus?: IEventBus;
+  readonly labels?: string[];
+  readonly name?: string;
+  readonly owner: string;
+  readonly repository: string;
+  readonly severityLabels?: GitHubIssueSeverityLabelMap;
+  readonly timeout?: Duration;
+  readonly token: ISecret;
+}
+
+/**
+ * A standardized implementation that allows GitHub issues to be created in
+ * response to events detected in AWS.
+ *
+ * Issues are labelled with the standardized severity of the issue as well as
+ * the type of parser that raised it. The repository where issues are created
+ * can be overridden per trigger so findings can be routed to the
+ * repositories that own the affected resources.
+ *
+ * Resolved issues are ignored. Issues that are created need to be closed
+ * manually.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ *
+ * @see [Create an issue](https://docs.github.com/en/rest/issues/issues#create-an-issue)
+ */
+export class GitHubIssue extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'GitHubIssue';
+  public static readonly DEFAULT_SEVERITY_LABELS: GitHubIssueSeverityLabelMap = {
+    critical: 'severity:critical',
+    default: 'severity:unknown',
+    high: 'severity:high',
+    info: 'severity:info',
+    low: 'severity:low',
+    medium: 'severity:medium',
+  };
+  public static readonly ISSUES_ENDPOINT: string = 'https://api.github.com/repos/*/*/issues';
+
+  private static buildSeverityCondition(severity: string): Condition {
+    return Condition.and(
+      Condition.isPresent('$.Severity'),
+      Condition.stringEquals('$.Severity', severity),
+    );
+  }
+
+  /**
+   * The GitHub users that issues should be assigned to if no other assignees
+   * are specified by the event that triggered the issue creation.
+   *
+   * @group Inputs
+   */
+  public readonly assignees: string[];
+
+  /**
+   * The event bus to use to trigger writes to GitHub.
+   *
+   * This integration formats a GitHub API request and then sends it to GitHub
+   * by means of an EventBridge Destination API and a specially crafted event
+   * pattern. This is the event bus where the rule to trigger the API will be
+   * added and the trigger event will be sent.
+   */
+  public readonly eventBus?: IEventBus;
+
+  /**
+   * Additional labels that should be applied to all issues if no other labels
+   * are specified by the event that triggered the issue creation.
+   *
+   * @group Inputs
+   */
+  public readonly labels: string[];
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The default user or organization that owns the repository where issues
+   * should be created.
+   *
+   * @group Inputs
+   */
+  public readonly owner: string;
+
+  /**
+   * The default repository where issues should be created.
+   *
+   * @group Inputs
+   */
+  public readonly repository: string;
+
+  /**
+   * A mapping of the standard severities supported by issue manager to the
+   * labels applied to issues in GitHub.
+   *
+   * @group Inputs
+   */
+  public readonly severityLabels: GitHubIssueSeverityLabelMap;
+
+  /**
+   * The length of time that the State Machine that handles creation of GitHub
+   * issues is allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * The token used to authenticate with GitHub. The token must have
+   * permission to create issues in the destination repositories. The secret
+   * should be in JSON format and contain the key:
+   *
+   * token: The full value of the authorization header to send to GitHub. This
+   * should take the form `Bearer ghp_...`.
+   *
+   * @group Inputs
+   */
+  public readonly token: ISecret;
+
+  /**
+   * Destination pointing to the GitHub issues API.
+   */
+  public readonly apiDestination: ApiDestination;
+
+  /**
+   * API connection providing details of how to communicate with GitHub.
+   */
+  public readonly connection: Connection;
+
+  /**
+   * The queue that receives GitHub API requests that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles creating a GitHub issue for a passed
+   * issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the GitHubIssue class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: GitHubIssueProps) {
+    super(scope, id, props);
+
+    this.assignees = props.assignees ?? [];
+    this.eventBus = props.eventBus;
+    this.labels = props.labels ?? [];
+    this.name = props.name ?? GitHubIssue.DEFAULT_NAME;
+    this.owner = props.owner;
+    this.repository = props.repository;
+    this.severityLabels = {
+      ...GitHubIssue.DEFAULT_SEVERITY_LABELS,
+      ...definedFields(props.severityLabels ?? {}),
+    };
+    this.timeout = props.timeout;
+    this.token = props.token;
+
+    this.connection = new Connection(this, 'connection', {
+      authorization: Authorization.apiKey(
+        'Authorization',
+        this.token.secretValueFromJson('token'),
+      ),
+      description: 'Allows events to be sent to GitHub to create issues.',
+      headerParameters: {
+        'Accept': HttpParameter.fromString('application/vnd.github+json'),
+        'Content-Type': HttpParameter.fromString('application/json'),
+        'User-Agent': HttpParameter.fromString('cdk-extensions'),
+        'X-GitHub-Api-Version': HttpParameter.fromString('2022-11-28'),
+      },
+    });
+
+    this.apiDestination = new ApiDestination(this, 'api-destination', {
+      connection: this.connection,
+      description: 'Allows events to be sent to GitHub to create issues.',
+      endpoint: GitHubIssue.ISSUES_ENDPOINT,
+      httpMethod: HttpMethod.POST,
+    });
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: {
+        Assignees: this.assignees,
+        Labels: this.labels,
+        MatchType: 'Unknown',
+        Owner: this.owner,
+        Repository: this.repository,
+      },
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const checkSeverity = this.buildSeverityMap();
+
+    // Step Functions has no way to concatenate arrays so the generated labels
+    // and the configured labels are nested and then flattened using a JSONPath
+    // wildcard.
+    const groupLabels = new Pass(this, 'group-labels', {
+      parameters: {
+        'Groups.$': SfnFn.array(
+          SfnFn.array('$.Resolved.Label', '$.MatchType'),
+          '$.Labels',
+        ),
+      },
+      resultPath: '$.LabelGroups',
+    });
+
+    const flattenLabels = new Pass(this, 'flatten-labels', {
+      parameters: {
+        'Labels.$': '$.LabelGroups.Groups[*][*]',
+      },
+      resultPath: '$.Resolved',
+    });
+
+    // GitHub renders issue bodies as Markdown so the Markdown description is
+    // preferred when the parser that raised the issue provides one.
+    const checkDescriptionFormat = new Choice(this, 'check-description-format');
+
+    const useMarkdownDescription = new Pass(this, 'use-markdown-description', {
+      parameters: {
+        'Value.$': '$.DescriptionFormats.Markdown',
+      },
+      resultPath: '$.Body',
+    });
+
+    const useTextDescription = new Pass(this, 'use-text-description', {
+      parameters: {
+        'Value.$': '$.Description',
+      },
+      resultPath: '$.Body',
+    });
+
+    const buildRequest = new Pass(this, 'build-request', {
+      parameters: {
+        'assignees.$': '$.Assignees',
+        'body.$': '$.Body.Value',
+        'labels.$': '$.Resolved.Labels',
+        'title.$': '$.Summary',
+      },
+      resultPath: '$.Output',
+    });
+
+    const putEvent = new CallAwsService(this, 'put-event', {
+      action: 'putEvents',
+      iamAction: 'events:PutEvents',
+      iamResources: [
+        this.eventBus?.eventBusArn ?? this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'event-bus',
+          resourceName: 'default',
+          service: 'events',
+        }),
+      ],
+      parameters: {
+        Entries: [{
+          'Detail': {
+            'owner.$': '$.Owner',
+            'payload.$': '$.Output',
+            'repository.$': '$.Repository',
+          },
+          'EventBusName': this.eventBus?.eventBusName ?? 'default',
+          'DetailType': this.name,
+          'Resources.$': SfnFn.array('$$.StateMachine.Id'),
+          'Source': 'cdke.issues',
+        }],
+      },
+      resultPath: '$.PutEvent',
+      service: 'eventbridge',
+    });
+
+    // Issues are only ever opened, so a resolved issue would otherwise be
+    // filed as a new GitHub issue.
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const createIssueChain = Chain.start(checkSeverity)
+      .next(groupLabels)
+      .next(flattenLabels)
+      .next(checkDescriptionFormat
+        .when(Condition.isPresent('$.DescriptionFormats.Markdown'), useMarkdownDescription)
+        .otherwise(useTextDescription)
+        .afterwards())
+      .next(buildRequest)
+      .next(putEvent);
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(createIssueChain));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
+    new Rule(this, 'rule', {
+      description: 'Triggers an issue to be created in GitHub in response to an event.',
+      enabled: true,
+      eventBus: this.eventBus,
+      eventPattern: {
+        detailType: [
+          this.name,
+        ],
+        resources: [
+          this.handler.stateMachineArn,
+        ],
+        source: [
+          'cdke.issues',
+        ],
+      },
+      targets: [
+        new EventsApiDestination(this.apiDestination, {
+          deadLetterQueue: this.deadLetterQueue,
+          event: RuleTargetInput.fromEventPath('$.detail.payload'),
+          pathParameterValues: [
+            '$.detail.owner',
+            '$.detail.repository',
+          ],
+        }),
+      ],
+    });
+  }
+
+  public buildSeverityMap(): Chain {
+    const registerSeverity = (choice: Choice, name: string, value: string): Choice => {
+      const step = new Pass(this, `map-${name.toLowerCase()}`, {
+        parameters: {
+          'Label': value,
+          'Severity.$': '$.Severity',
+        },
+        resultPath: '$.Resolved',
+      });
+
+      const condition = GitHubIssue.buildSeverityCondition(name.toUpperCase());
+      return choice.when(condition, step);
+    };
+
+    let checkSeverity = new Choice(this, 'check-severity');
+
+    if (this.severityLabels.critical) {
+      checkSeverity = registerSeverity(checkSeverity, 'critical', this.severityLabels.critical);
+    }
+
+    if (this.severityLabels.high) {
+      checkSeverity = registerSeverity(checkSeverity, 'high', this.severityLabels.high);
+    }
+
+    if (this.severityLabels.medium) {
+      checkSeverity = registerSeverity(checkSeverity, 'medium', this.severityLabels.medium);
+    }
+
+    if (this.severityLabels.low) {
+      checkSeverity = registerSeverity(checkSeverity, 'low', this.severityLabels.low);
+    }
+
+    if (this.severityLabels.info) {
+      checkSeverity = registerSeverity(checkSeverity, 'info', this.severityLabels.info);
+    }
+
+    const defaultAssignment = new Pass(this, 'map-default', {
+      parameters: {
+        Label: this.severityLabels.default,
+        Severity: 'DEFAULT',
+      },
+      resultPath: '$.Resolved',
+    });
+
+    return checkSeverity
+      .otherwise(defaultAssignment)
+      .afterwards();
+  }
+
+  public buildEventOverrides(options: GitHubIssueOverrideOptions): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, {
+      Assignees: options.assignees,
+      Labels: options.labels,
+      Owner: options.owner,
+      Repository: options.repository,
+    });
+  }
+}
@@ -1,3 +1,11 @@
 export * from './discord-handler';
+export * from './email-handler';
+export * from './github-issue';
+export * from './issue-digest';
 export * from './issue-handler';
-export * from './jira-ticket';
\ No newline at end of file
+export * from './jira-ticket';
+export * from './pager-duty-handler';
+export * from './service-now-incident';
+export * from './slack-handler';
+export * from './teams-handler';
+export * from './webhook-handler';
\ No newline at end of file
@@ -0,0 +1,371 @@
+import { Aws, Duration, RemovalPolicy } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ITable, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { SfnStateMachine } from 'aws-cdk-lib/aws-events-targets';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, IntegrationPattern, JsonPath, LogOptions, Map, Pass, StateMachine, StateMachineType, Succeed, TaskInput } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService, DynamoAttributeValue, DynamoDeleteItem, DynamoUpdateItem, StepFunctionsStartExecution } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn } from '../../stepfunctions';
+import { IIssueHandler } from '../issue-manager';
+import { DescriptionBuilder } from '../issue-parsers/description-builder';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * Configuration controlling how issues should be collected and summarized
+ * in periodic digests.
+ */
+export interface IssueDigestProps extends IssuePluginBaseProps {
+  readonly handler: IIssueHandler;
+  readonly name?: string;
+  readonly schedule?: Schedule;
+  readonly severity?: string;
+  readonly table?: ITable;
+  readonly timeout?: Duration;
+}
+
+/**
+ * Collects issues and periodically sends a single summary of them to another
+ * issue handler.
+ *
+ * Issues passed to the digest are counted by the type of parser that raised
+ * them and their severity. On each run of the schedule a summary listing the
+ * number of issues in each group is sent to the configured handler and the
+ * counts are reset.
+ *
+ * Intended to be combined with routing on the `IssueManager` so that high
+ * volume, low severity issues are sent to a digest rather than directly to a
+ * handler.
+ */
+export class IssueDigest extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'IssueDigest';
+  public static readonly DEFAULT_SEVERITY: string = 'INFO';
+  public static readonly MATCH_TYPE: string = 'IssueDigest';
+
+  /**
+   * The issue handler that digests are sent to.
+   *
+   * @group Inputs
+   */
+  public readonly destination: IIssueHandler;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The schedule on which digests are sent.
+   *
+   * @group Inputs
+   */
+  public readonly schedule: Schedule;
+
+  /**
+   * The standardized severity that digests are sent with.
+   *
+   * @group Inputs
+   */
+  public readonly severity: string;
+
+  /**
+   * The length of time that the State Machine that records issues is allowed
+   * to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * The State Machine that sends a summary of the collected issues to the
+   * destination handler and resets the counts.
+   *
+   * @group Resources
+   */
+  public readonly flushHandler: IStateMachine;
+
+  /**
+   * The State Machine that records issues passed to the digest.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+  /**
+   * The table that holds the counts of issues that have been collected since
+   * the last digest was sent.
+   *
+   * The table uses a string partition key named `Digest` and a string sort
+   * key named `Group`.
+   *
+   * @group Resources
+   */
+  public readonly table: ITable;
+
+
+  /**
+   * Creates a new instance of the IssueDigest class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: IssueDigestProps) {
+    super(scope, id, props);
+
+    this.destination = props.handler;
+    this.name = props.name ?? IssueDigest.DEFAULT_NAME;
+    this.schedule = props.schedule ?? Schedule.rate(Duration.days(1));
+    this.severity = (props.severity ?? IssueDigest.DEFAULT_SEVERITY).toUpperCase();
+    this.timeout = props.timeout;
+
+    this.table = props.table ?? new Table(this, 'table', {
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      partitionKey: {
+        name: 'Digest',
+        type: AttributeType.STRING,
+      },
+      removalPolicy: RemovalPolicy.DESTROY,
+      sortKey: {
+        name: 'Group',
+        type: AttributeType.STRING,
+      },
+    });
+
+    const logs = this.buildLogging();
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: {
+        MatchType: 'Unknown',
+        Severity: 'UNKNOWN',
+        Summary: 'Untitled issue',
+      },
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const recordIssue = new DynamoUpdateItem(this, 'record-issue', {
+      expressionAttributeNames: {
+        '#count': 'IssueCount',
+        '#first': 'FirstSeen',
+        '#last': 'LastSeen',
+        '#matchType': 'MatchType',
+        '#severity': 'Severity',
+        '#summary': 'LatestSummary',
+      },
+      expressionAttributeValues: {
+        ':matchType': DynamoAttributeValue.fromString(JsonPath.stringAt('$.MatchType')),
+        ':now': DynamoAttributeValue.fromString(JsonPath.stringAt('$$.State.EnteredTime')),
+        ':one': DynamoAttributeValue.fromNumber(1),
+        ':severity': DynamoAttributeValue.fromString(JsonPath.stringAt('$.Severity')),
+        ':summary': DynamoAttributeValue.fromString(JsonPath.stringAt('$.Summary')),
+      },
+      key: {
+        Digest: DynamoAttributeValue.fromString(this.name),
+        Group: DynamoAttributeValue.fromString(JsonPath.format('{}#{}', JsonPath.stringAt('$.MatchType'), JsonPath.stringAt('$.Severity'))),
+      },
+      resultPath: JsonPath.DISCARD,
+      table: this.table,
+      updateExpression: [
+        'ADD #count :one',
+        'SET #matchType = :matchType, #severity = :severity, #last = :now,',
+        '#summary = :summary, #first = if_not_exists(#first, :now)',
+      ].join(' '),
+    });
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(nestInput
+        .next(addDefaults)
+        .next(mergeInputWithDefaults)
+        .next(recordIssue)),
+      logs: logs,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.flushHandler = this.buildFlushHandler(logs);
+
+    new Rule(this, 'schedule', {
+      description: 'Triggers a digest of collected issues to be sent.',
+      enabled: true,
+      schedule: this.schedule,
+      targets: [
+        new SfnStateMachine(this.flushHandler),
+      ],
+    });
+  }
+
+  private buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: 'The following issues have been raised since the last digest was sent.',
+    });
+
+    const iterator = builder.addIterator('groups', {
+      arrayRef: '$.Groups.Items',
+      resultPath: '$.Groups.Result',
+      title: 'Issues',
+    });
+
+    iterator.addReference('match-type', {
+      label: 'Type',
+      value: '$.Item.MatchType.S',
+    });
+
+    iterator.addReference('severity', {
+      label: 'Severity',
+      value: '$.Item.Severity.S',
+    });
+
+    iterator.addReference('count', {
+      label: 'Count',
+      value: '$.Item.IssueCount.N',
+    });
+
+    iterator.addReference('first-seen', {
+      label: 'First Seen',
+      required: false,
+      value: '$.Item.FirstSeen.S',
+    });
+
+    iterator.addReference('last-seen', {
+      label: 'Last Seen',
+      required: false,
+      value: '$.Item.LastSeen.S',
+    });
+
+    iterator.addReference('latest-summary', {
+      label: 'Latest',
+      required: false,
+      value: '$.Item.LatestSummary.S',
+    });
+
+    return builder;
+  }
+
+  /**
+   * Builds a State Machine that sends a summary of the collected issues to
+   * the destination handler.
+   *
+   * Counts are removed only if they haven't changed since they were read so
+   * that issues recorded while the digest is being sent are included in the
+   * next digest.
+   */
+  private buildFlushHandler(logs?: LogOptions): IStateMachine {
+    const queryGroups = new CallAwsService(this, 'query-groups', {
+      action: 'query',
+      iamAction: 'dynamodb:Query',
+      iamResources: [
+        this.table.tableArn,
+      ],
+      parameters: {
+        ConsistentRead: true,
+        ExpressionAttributeValues: {
+          ':digest': {
+            S: this.name,
+          },
+        },
+        KeyConditionExpression: 'Digest = :digest',
+        TableName: this.table.tableName,
+      },
+      resultPath: '$.Groups',
+      resultSelector: {
+        'Count.$': '$.Count',
+        'Items.$': '$.Items',
+      },
+      service: 'dynamodb',
+    });
+
+    const checkGroups = new Choice(this, 'check-groups');
+
+    const noIssues = new Succeed(this, 'no-issues');
+
+    const buildDescription = this.buildDescription();
+
+    const sendDigest = new StepFunctionsStartExecution(this, 'send-digest', {
+      input: TaskInput.fromObject({
+        'AccountId': Aws.ACCOUNT_ID,
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': SfnFn.format(`${this.name}/{}`, [
+          '$$.Execution.StartTime',
+        ]),
+        'MatchType': IssueDigest.MATCH_TYPE,
+        'Region': Aws.REGION,
+        'Severity': this.severity,
+        'Status': 'OPEN',
+        'Summary.$': SfnFn.format(`${this.name} - {} groups of issues since the last digest`, [
+          '$.Groups.Count',
+        ]),
+      }),
+      integrationPattern: IntegrationPattern.RUN_JOB,
+      resultPath: JsonPath.DISCARD,
+      stateMachine: this.destination.handler,
+    });
+
+    const clearGroups = new Map(this, 'clear-groups', {
+      itemsPath: '$.Groups.Items',
+      maxConcurrency: 10,
+      parameters: {
+        'Item.$': '$$.Map.Item.Value',
+      },
+      resultPath: JsonPath.DISCARD,
+    });
+
+    const removeGroup = new DynamoDeleteItem(this, 'remove-group', {
+      conditionExpression: 'IssueCount = :count',
+      expressionAttributeValues: {
+        ':count': DynamoAttributeValue.numberFromString(JsonPath.stringAt('$.Item.IssueCount.N')),
+      },
+      key: {
+        Digest: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Item.Digest.S')),
+        Group: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Item.Group.S')),
+      },
+      resultPath: JsonPath.DISCARD,
+      table: this.table,
+    });
+
+    const groupChanged = new Pass(this, 'group-changed');
+
+    removeGroup.addCatch(groupChanged, {
+      errors: [
+        'DynamoDB.ConditionalCheckFailedException',
+      ],
+      resultPath: JsonPath.DISCARD,
+    });
+
+    const definition = queryGroups
+      .next(checkGroups
+        .when(Condition.numberGreaterThan('$.Groups.Count', 0), Chain.start(buildDescription.render())
+          .next(sendDigest)
+          .next(clearGroups.iterator(removeGroup)))
+        .otherwise(noIssues));
+
+    return new StateMachine(this, 'flush-state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: logs,
+      stateMachineType: StateMachineType.STANDARD,
+      tracingEnabled: true,
+    });
+  }
+}
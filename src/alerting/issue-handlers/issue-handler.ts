@@ -1,6 +1,14 @@
 import { IConstruct } from 'constructs';
 import { Discord, DiscordProps } from './discord-handler';
+import { Email, EmailProps } from './email-handler';
+import { GitHubIssue, GitHubIssueProps } from './github-issue';
+import { IssueDigest, IssueDigestProps } from './issue-digest';
 import { JiraTicket, JiraTicketProps } from './jira-ticket';
+import { PagerDuty, PagerDutyProps } from './pager-duty-handler';
+import { ServiceNowIncident, ServiceNowIncidentProps } from './service-now-incident';
+import { Slack, SlackProps } from './slack-handler';
+import { Teams, TeamsProps } from './teams-handler';
+import { Webhook, WebhookProps } from './webhook-handler';
 
 
 export class IssueHander {
@@ -8,7 +16,39 @@ export class IssueHander {
     return new Discord(scope, id, props);
   }
 
+  public static email(scope: IConstruct, id: string, props: EmailProps): Email {
+    return new Email(scope, id, props);
+  }
+
+  public static gitHubIssue(scope: IConstruct, id: string, props: GitHubIssueProps): GitHubIssue {
+    return new GitHubIssue(scope, id, props);
+  }
+
+  public static issueDigest(scope: IConstruct, id: string, props: IssueDigestProps): IssueDigest {
+    return new IssueDigest(scope, id, props);
+  }
+
   public static jiraTicket(scope: IConstruct, id: string, props: JiraTicketProps): JiraTicket {
     return new JiraTicket(scope, id, props);
   }
+
+  public static pagerDuty(scope: IConstruct, id: string, props: PagerDutyProps): PagerDuty {
+    return new PagerDuty(scope, id, props);
+  }
+
+  public static serviceNowIncident(scope: IConstruct, id: string, props: ServiceNowIncidentProps): ServiceNowIncident {
+    return new ServiceNowIncident(scope, id, props);
+  }
+
+  public static slack(scope: IConstruct, id: string, props: SlackProps): Slack {
+    return new Slack(scope, id, props);
+  }
+
+  public static teams(scope: IConstruct, id: string, props: TeamsProps): Teams {
+    return new Teams(scope, id, props);
+  }
+
+  public static webhook(scope: IConstruct, id: string, props: WebhookProps): Webhook {
+    return new Webhook(scope, id, props);
+  }
 }
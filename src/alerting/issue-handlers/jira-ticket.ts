@@ -2,11 +2,11 @@ import { ArnFormat, Duration } from 'aws-cdk-lib';
 import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
 import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
 import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
-import { Queue } from 'aws-cdk-lib/aws-sqs';
-import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, JsonPath, Map, Pass, StateMachine, StateMachineType, Succeed, TaskInput } from 'aws-cdk-lib/aws-stepfunctions';
 import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import { IConstruct } from 'constructs';
-import { SfnFn } from '../../stepfunctions';
+import { HttpInvoke, SfnFn } from '../../stepfunctions';
 import { definedFields } from '../../utils/formatting';
 import { IssueHandlerOverride } from '../issue-handler-override';
 import { IIssueHandler } from '../issue-manager';
@@ -27,6 +27,7 @@ export interface JiraTicketOverrideOptions {
   readonly issuePriority?: string;
   readonly issueType?: string;
   readonly project?: string;
+  readonly transitionId?: string;
 }
 
 /**
@@ -35,6 +36,7 @@ export interface JiraTicketOverrideOptions {
  */
 export interface JiraTicketProps extends IssuePluginBaseProps {
   readonly assignee?: string;
+  readonly cloud?: boolean;
   readonly credentials: ISecret;
   readonly eventBus?: IEventBus;
   readonly issueType: string;
@@ -43,6 +45,7 @@ export interface JiraTicketProps extends IssuePluginBaseProps {
   readonly project: string;
   readonly priorityMap: JiraTicketPriorityMap;
   readonly timeout?: Duration;
+  readonly transitionId?: string;
 }
 
 /**
@@ -73,6 +76,20 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
    */
   public readonly assignee?: string;
 
+  /**
+   * Whether the destination is a Jira Cloud instance.
+   *
+   * Jira Cloud tickets are created using version 3 of the Jira REST API,
+   * which allows descriptions to be sent in Atlassian Document Format. When
+   * the parser that raised an issue provides an ADF description it is used
+   * in place of the plain text description.
+   *
+   * @default false
+   *
+   * @group Inputs
+   */
+  public readonly cloud: boolean;
+
   /**
    * The credentials to be used for connecting to Jira. The secret should be in
    * JSON format and contain the key:
@@ -140,6 +157,22 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
    */
   public readonly timeout?: Duration;
 
+  /**
+   * The ID of the workflow transition that should be applied to tickets when
+   * the issue they were created for is resolved.
+   *
+   * When a transition is configured each ticket is created with a unique
+   * tracking label which is returned as the `Reference` output of the
+   * handler. Resolving tickets requires the `IssueManager` to have tracking
+   * enabled so that the label can be passed back to the handler when the
+   * issue is resolved. The tickets with the label are then looked up and
+   * transitioned. When no transition is configured tickets are left open and
+   * resolved issues are ignored rather than raising a new ticket.
+   *
+   * @group Inputs
+   */
+  public readonly transitionId?: string;
+
   /**
    * Destination pointing to a Jira instance where tickets are to be created.
    */
@@ -151,11 +184,19 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
    */
   public readonly connection: Connection;
 
+  /**
+   * The queue that receives Jira tickets that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
   /**
    * The State Machine that handles creating a Jira ticket for a passed issue.
    *
-   * Internally this state machine uses the AWS managed `AWS-CreateJiraIssue`
-   * SSM Automation document.
+   * Tickets are created asynchronously through the API destination. Looking
+   * up and transitioning the tickets for resolved issues is done by calling
+   * the Jira API directly from the state machine.
    *
    * @group Resources
    */
@@ -175,6 +216,7 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
     super(scope, id, props);
 
     this.assignee = props.assignee;
+    this.cloud = props.cloud ?? false;
     this.credentials = props.credentials;
     this.eventBus = props.eventBus;
     this.issueType = props.issueType;
@@ -183,6 +225,9 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
     this.project = props.project;
     this.priorityMap = props.priorityMap;
     this.timeout = props.timeout;
+    this.transitionId = props.transitionId;
+
+    const apiRoot = `${this.jiraUrl.replace(/\/$/, '')}/rest/api/${this.cloud ? 3 : 2}`;
 
     this.connection = new Connection(this, 'connection', {
       authorization: Authorization.basic(
@@ -198,7 +243,7 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
     this.apiDestination = new ApiDestination(this, 'api-destination', {
       connection: this.connection,
       description: 'Allows events to be sent to Jira to create tickets.',
-      endpoint: `${this.jiraUrl.replace(/\/$/, '')}/rest/api/2/issue/`,
+      endpoint: `${apiRoot}/issue/`,
       httpMethod: HttpMethod.POST,
     });
 
@@ -213,6 +258,7 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
         Assignee: this.assignee,
         JiraUrl: this.jiraUrl,
         Project: this.project,
+        TransitionId: this.transitionId,
         Type: this.issueType,
       }),
       resultPath: '$.Defaults',
@@ -232,18 +278,21 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
 
     const buildFields = new Pass(this, 'build-fields', {
       parameters: {
-        /*'description': {
-          'content': [{
-            'content': [{
-              'text.$': '$.Description',
-              'type': 'text',
+        ...(this.cloud ? {
+          description: {
+            content: [{
+              content: [{
+                'text.$': '$.Description',
+                'type': 'text',
+              }],
+              type: 'paragraph',
             }],
-            'type': 'paragraph',
-          }],
-          'type': 'doc',
-          'version': 1,
-        },*/
-        'description.$': '$.Description',
+            type: 'doc',
+            version: 1,
+          },
+        } : {
+          'description.$': '$.Description',
+        }),
         'issuetype': {
           'name.$': '$.Type',
         },
@@ -255,6 +304,12 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
       resultPath: '$.Output.Fields',
     });
 
+    // Descriptions can only be sent in Atlassian Document Format when using
+    // version 3 of the API.
+    const addFields = this.cloud ?
+      Chain.start(buildFields).next(this.buildDescriptionFormat()) :
+      Chain.start(buildFields);
+
     const checkAssignee = new Choice(this, 'check-assignee');
 
     const buildAssignee = new Pass(this, 'build-assignee', {
@@ -325,6 +380,39 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
         .next(mergePriority))
       .afterwards({ includeOtherwise: true });
 
+    const checkTracking = new Choice(this, 'check-tracking');
+
+    const buildLabel = new Pass(this, 'build-label', {
+      parameters: {
+        'Value.$': SfnFn.format('cdke-{}', [
+          SfnFn.uuid(),
+        ]),
+      },
+      resultPath: '$.Label',
+    });
+
+    const buildLabels = new Pass(this, 'build-labels', {
+      parameters: {
+        'labels.$': SfnFn.array('$.Label.Value'),
+      },
+      resultPath: '$.Optional.Labels',
+    });
+
+    const mergeLabels = new Pass(this, 'merge-labels', {
+      parameters: {
+        'Fields.$': SfnFn.jsonMerge('$.Output.Fields', '$.Optional.Labels'),
+      },
+      resultPath: '$.Output',
+    });
+
+    // Tickets are only labelled when they can be transitioned once the issue
+    // is resolved.
+    const addLabel = checkTracking
+      .when(Condition.isPresent('$.TransitionId'), buildLabel
+        .next(buildLabels)
+        .next(mergeLabels))
+      .afterwards({ includeOtherwise: true });
+
     const putEvent = new CallAwsService(this, 'put-event', {
       action: 'putEvents',
       iamAction: 'events:PutEvents',
@@ -351,15 +439,99 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
       service: 'eventbridge',
     });
 
-    const definition = nestInput
-      .next(addDefaults)
-      .next(mergeInputWithDefaults)
-      .next(checkSeverity)
-      .next(buildFields)
+    const checkLabel = new Choice(this, 'check-label');
+
+    const formatCreateOutput = new Pass(this, 'format-create-output', {
+      parameters: {
+        'Reference.$': '$.Label.Value',
+      },
+    });
+
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    // Jira Cloud has removed the original search endpoint from version 3 of
+    // the API in favour of the enhanced JQL search.
+    const findTickets = new HttpInvoke(this, 'find-tickets', {
+      apiEndpoint: this.cloud ? `${apiRoot}/search/jql` : `${apiRoot}/search`,
+      apiRoot: apiRoot,
+      connection: this.connection,
+      method: 'GET',
+      queryParameters: {
+        'fields': 'key',
+        'jql.$': SfnFn.format('labels = "{}"', [
+          '$.Reference',
+        ]),
+      },
+      resultPath: '$.Search',
+      resultSelector: {
+        'Issues.$': '$.ResponseBody.issues',
+      },
+    });
+
+    const transitionTickets = new Map(this, 'transition-tickets', {
+      itemsPath: '$.Search.Issues',
+      parameters: {
+        'Key.$': '$$.Map.Item.Value.key',
+        'TransitionId.$': '$.TransitionId',
+      },
+      resultPath: JsonPath.DISCARD,
+    });
+
+    const transitionTicket = new HttpInvoke(this, 'transition-ticket', {
+      apiEndpoint: SfnFn.format(`${apiRoot}/issue/{}/transitions`, [
+        '$.Key',
+      ]),
+      apiRoot: apiRoot,
+      connection: this.connection,
+      method: 'POST',
+      requestBody: TaskInput.fromObject({
+        transition: {
+          'id.$': '$.TransitionId',
+        },
+      }),
+      resultPath: JsonPath.DISCARD,
+    });
+
+    const formatTransitionOutput = new Pass(this, 'format-transition-output', {
+      parameters: {
+        'Reference.$': '$.Reference',
+      },
+    });
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const createTicketChain = checkSeverity
+      .next(addFields)
       .next(addAssignee)
       .next(addDueDate)
       .next(addPriority)
-      .next(putEvent);
+      .next(addLabel)
+      .next(putEvent)
+      .next(checkLabel
+        .when(Condition.isPresent('$.Label.Value'), formatCreateOutput)
+        .afterwards({ includeOtherwise: true }));
+
+    // Tickets that were previously created for an issue which has now been
+    // resolved are transitioned rather than raising a new ticket. Resolved
+    // issues that can't be matched to a ticket or that have no transition
+    // configured are ignored.
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Reference'),
+          Condition.isPresent('$.TransitionId'),
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), findTickets
+          .next(transitionTickets.iterator(transitionTicket))
+          .next(formatTransitionOutput))
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(createTicketChain));
 
     this.handler = new StateMachine(this, 'state-machine', {
       definitionBody: DefinitionBody.fromChainable(definition),
@@ -369,6 +541,8 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
       tracingEnabled: true,
     });
 
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
     new Rule(this, 'rule', {
       description: 'Triggers a ticket to be created in Jira in response to an event.',
       enabled: true,
@@ -386,13 +560,41 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
       },
       targets: [
         new EventsApiDestination(this.apiDestination, {
-          deadLetterQueue: new Queue(this, 'dead-letter-queue'),
+          deadLetterQueue: this.deadLetterQueue,
           event: RuleTargetInput.fromEventPath('$.detail'),
         }),
       ],
     });
   }
 
+  /**
+   * Replaces the plain text description of a ticket with the Atlassian
+   * Document Format description provided by the issue parser when creating
+   * tickets in Jira Cloud.
+   */
+  protected buildDescriptionFormat(): Chain {
+    const checkDescriptionFormat = new Choice(this, 'check-description-format');
+
+    const buildDescription = new Pass(this, 'build-description', {
+      parameters: {
+        'description.$': '$.DescriptionFormats.Adf',
+      },
+      resultPath: '$.Optional.Description',
+    });
+
+    const mergeDescription = new Pass(this, 'merge-description', {
+      parameters: {
+        'Fields.$': SfnFn.jsonMerge('$.Output.Fields', '$.Optional.Description'),
+      },
+      resultPath: '$.Output',
+    });
+
+    return checkDescriptionFormat
+      .when(Condition.isPresent('$.DescriptionFormats.Adf'), buildDescription
+        .next(mergeDescription))
+      .afterwards({ includeOtherwise: true });
+  }
+
   public buildSeverityMap(): Chain {
     const registerSeverity = (choice: Choice, name: string, value: string): Choice => {
       const step = new Pass(this, `map-${name.toLowerCase()}`, {
@@ -456,6 +658,7 @@ export class JiraTicket extends IssuePluginBase implements IIssueHandler {
       Assignee: options.assignee,
       Priority: options.issuePriority,
       Project: options.project,
+      TransitionId: options.transitionId,
       Type: options.issueType,
     });
   }
@@ -0,0 +1,419 @@
+import { ArnFormat, Duration, SecretValue } from 'aws-cdk-lib';
+import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn } from '../../stepfunctions';
+import { definedFields } from '../../utils/formatting';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * A mapping of the standard severities supported by issue manager to the
+ * severities supported by the PagerDuty Events API.
+ *
+ * Valid PagerDuty severities are `critical`, `error`, `warning`, and `info`.
+ */
+export interface PagerDutySeverityMap {
+  readonly critical?: string;
+  readonly default?: string;
+  readonly high?: string;
+  readonly info?: string;
+  readonly low?: string;
+  readonly medium?: string;
+}
+
+export interface PagerDutyOverrideOptions {
+  readonly severity?: string;
+  readonly source?: string;
+}
+
+/**
+ * Configuration controlling how PagerDuty events should be sent in response
+ * to issues.
+ */
+export interface PagerDutyProps extends IssuePluginBaseProps {
+  readonly eventBus?: IEventBus;
+  readonly name?: string;
+  readonly routingKey: ISecret;
+  readonly severityMap?: PagerDutySeverityMap;
+  readonly source?: string;
+  readonly timeout?: Duration;
+}
+
+/**
+ * A standardized implementation that allows PagerDuty incidents to be
+ * triggered and resolved in response to events detected in AWS.
+ *
+ * Events are deduplicated using a key derived from the `Id` reported by the
+ * issue parser (falling back to the issue summary) so that repeated reports
+ * of the same finding update a single incident rather than paging again.
+ * Issues reported with a `Status` of `RESOLVED` will resolve the matching
+ * incident.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ *
+ * @see [Events API v2](https://developer.pagerduty.com/docs/events-api-v2/overview/)
+ */
+export class PagerDuty extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'PagerDuty';
+  public static readonly DEFAULT_SEVERITY_MAP: PagerDutySeverityMap = {
+    critical: 'critical',
+    default: 'warning',
+    high: 'error',
+    info: 'info',
+    low: 'warning',
+    medium: 'warning',
+  };
+  public static readonly DEFAULT_SOURCE: string = 'aws';
+  public static readonly EVENTS_ENDPOINT: string = 'https://events.pagerduty.com/v2/enqueue';
+
+  private static buildSeverityCondition(severity: string): Condition {
+    return Condition.and(
+      Condition.isPresent('$.Severity'),
+      Condition.stringEquals('$.Severity', severity),
+    );
+  }
+
+  /**
+   * The event bus to use to trigger writes to PagerDuty.
+   *
+   * This integration formats a PagerDuty Events API request and then sends it
+   * to PagerDuty by means of an EventBridge Destination API and a specially
+   * crafted event pattern. This is the event bus where the rule to trigger the
+   * API will be added and the trigger event will be sent.
+   */
+  public readonly eventBus?: IEventBus;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The integration key for the PagerDuty service where events should be
+   * sent. The secret should be in JSON format and contain the key:
+   *
+   * routingKey: The 32 character integration key for an Events API v2
+   * integration on a PagerDuty service.
+   *
+   * @group Inputs
+   */
+  public readonly routingKey: ISecret;
+
+  /**
+   * A mapping of the standard severities supported by issue manager to
+   * severities supported by PagerDuty.
+   *
+   * @group Inputs
+   */
+  public readonly severityMap: PagerDutySeverityMap;
+
+  /**
+   * The default value to report to PagerDuty as the source of triggered
+   * events if no override is given.
+   *
+   * @group Inputs
+   */
+  public readonly source: string;
+
+  /**
+   * The length of time that the State Machine that handles sending PagerDuty
+   * events is allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * Destination pointing to the PagerDuty Events API.
+   */
+  public readonly apiDestination: ApiDestination;
+
+  /**
+   * API connection providing details of how to communicate with the PagerDuty
+   * Events API.
+   */
+  public readonly connection: Connection;
+
+  /**
+   * The queue that receives PagerDuty events that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles sending a PagerDuty event for a passed
+   * issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the PagerDuty class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: PagerDutyProps) {
+    super(scope, id, props);
+
+    this.eventBus = props.eventBus;
+    this.name = props.name ?? PagerDuty.DEFAULT_NAME;
+    this.routingKey = props.routingKey;
+    this.severityMap = {
+      ...PagerDuty.DEFAULT_SEVERITY_MAP,
+      ...definedFields(props.severityMap ?? {}),
+    };
+    this.source = props.source ?? PagerDuty.DEFAULT_SOURCE;
+    this.timeout = props.timeout;
+
+    // The Events API authenticates using the routing key passed in the body
+    // of the request. As EventBridge connections require an authorization
+    // method a placeholder API key header is configured.
+    this.connection = new Connection(this, 'connection', {
+      authorization: Authorization.apiKey(
+        'X-PagerDuty-Auth',
+        SecretValue.unsafePlainText('none'),
+      ),
+      bodyParameters: {
+        routing_key: HttpParameter.fromSecret(this.routingKey.secretValueFromJson('routingKey')),
+      },
+      description: 'Allows events to be sent to PagerDuty.',
+      headerParameters: {
+        'Content-Type': HttpParameter.fromString('application/json'),
+      },
+    });
+
+    this.apiDestination = new ApiDestination(this, 'api-destination', {
+      connection: this.connection,
+      description: 'Allows events to be sent to PagerDuty.',
+      endpoint: PagerDuty.EVENTS_ENDPOINT,
+      httpMethod: HttpMethod.POST,
+    });
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: {
+        Source: this.source,
+      },
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const checkId = new Choice(this, 'check-id');
+
+    const hashId = new Pass(this, 'hash-id', {
+      parameters: {
+        'Key.$': SfnFn.hash('$.Id', 'SHA-256'),
+      },
+      resultPath: '$.DedupKey',
+    });
+
+    const hashSummary = new Pass(this, 'hash-summary', {
+      parameters: {
+        'Key.$': SfnFn.hash('$.Summary', 'SHA-256'),
+      },
+      resultPath: '$.DedupKey',
+    });
+
+    const buildDedupKey = checkId
+      .when(Condition.isPresent('$.Id'), hashId)
+      .otherwise(hashSummary)
+      .afterwards();
+
+    const checkStatus = new Choice(this, 'check-status');
+
+    const buildResolve = new Pass(this, 'build-resolve', {
+      parameters: {
+        'dedup_key.$': '$.DedupKey.Key',
+        'event_action': 'resolve',
+      },
+      resultPath: '$.Output',
+    });
+
+    const checkSeverity = this.buildSeverityMap();
+
+    const buildTrigger = new Pass(this, 'build-trigger', {
+      parameters: {
+        'dedup_key.$': '$.DedupKey.Key',
+        'event_action': 'trigger',
+        'payload': {
+          'custom_details': {
+            'description.$': '$.Description',
+          },
+          'severity.$': '$.Resolved.Severity',
+          'source.$': '$.Source',
+          'summary.$': '$.Summary',
+        },
+      },
+      resultPath: '$.Output',
+    });
+
+    const buildRequest = checkStatus
+      .when(Condition.and(
+        Condition.isPresent('$.Status'),
+        Condition.stringEquals('$.Status', 'RESOLVED'),
+      ), buildResolve)
+      .otherwise(checkSeverity
+        .next(buildTrigger))
+      .afterwards();
+
+    const putEvent = new CallAwsService(this, 'put-event', {
+      action: 'putEvents',
+      iamAction: 'events:PutEvents',
+      iamResources: [
+        this.eventBus?.eventBusArn ?? this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'event-bus',
+          resourceName: 'default',
+          service: 'events',
+        }),
+      ],
+      parameters: {
+        Entries: [{
+          'Detail': {
+            'payload.$': '$.Output',
+          },
+          'EventBusName': this.eventBus?.eventBusName ?? 'default',
+          'DetailType': this.name,
+          'Resources.$': SfnFn.array('$$.StateMachine.Id'),
+          'Source': 'cdke.issues',
+        }],
+      },
+      resultPath: '$.PutEvent',
+      service: 'eventbridge',
+    });
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(buildDedupKey)
+      .next(buildRequest)
+      .next(putEvent);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
+    new Rule(this, 'rule', {
+      description: 'Triggers a PagerDuty event in response to an issue.',
+      enabled: true,
+      eventBus: this.eventBus,
+      eventPattern: {
+        detailType: [
+          this.name,
+        ],
+        resources: [
+          this.handler.stateMachineArn,
+        ],
+        source: [
+          'cdke.issues',
+        ],
+      },
+      targets: [
+        new EventsApiDestination(this.apiDestination, {
+          deadLetterQueue: this.deadLetterQueue,
+          event: RuleTargetInput.fromEventPath('$.detail.payload'),
+        }),
+      ],
+    });
+  }
+
+  public buildSeverityMap(): Chain {
+    const registerSeverity = (choice: Choice, name: string, value: string): Choice => {
+      const step = new Pass(this, `map-${name.toLowerCase()}`, {
+        parameters: {
+          Severity: value,
+        },
+        resultPath: '$.Resolved',
+      });
+
+      const condition = PagerDuty.buildSeverityCondition(name.toUpperCase());
+      return choice.when(condition, step);
+    };
+
+    const overrideAssignment = new Pass(this, 'map-override', {
+      parameters: {
+        'Severity.$': '$.PagerDutySeverity',
+      },
+      resultPath: '$.Resolved',
+    });
+
+    let checkSeverity = new Choice(this, 'check-severity')
+      .when(Condition.isPresent('$.PagerDutySeverity'), overrideAssignment);
+
+    if (this.severityMap.critical) {
+      checkSeverity = registerSeverity(checkSeverity, 'critical', this.severityMap.critical);
+    }
+
+    if (this.severityMap.high) {
+      checkSeverity = registerSeverity(checkSeverity, 'high', this.severityMap.high);
+    }
+
+    if (this.severityMap.medium) {
+      checkSeverity = registerSeverity(checkSeverity, 'medium', this.severityMap.medium);
+    }
+
+    if (this.severityMap.low) {
+      checkSeverity = registerSeverity(checkSeverity, 'low', this.severityMap.low);
+    }
+
+    if (this.severityMap.info) {
+      checkSeverity = registerSeverity(checkSeverity, 'info', this.severityMap.info);
+    }
+
+    const defaultAssignment = new Pass(this, 'map-default', {
+      parameters: {
+        Severity: this.severityMap.default,
+      },
+      resultPath: '$.Resolved',
+    });
+
+    return checkSeverity
+      .otherwise(defaultAssignment)
+      .afterwards();
+  }
+
+  public buildEventOverrides(options: PagerDutyOverrideOptions): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, {
+      PagerDutySeverity: options.severity,
+      Source: options.source,
+    });
+  }
+}
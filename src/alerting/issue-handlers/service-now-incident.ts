@@ -0,0 +1,484 @@
+import { ArnFormat, Duration } from 'aws-cdk-lib';
+import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType, Succeed } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn } from '../../stepfunctions';
+import { definedFields, definedFieldsOrUndefined } from '../../utils/formatting';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * The impact and urgency that a ServiceNow incident should be created with.
+ *
+ * ServiceNow calculates the priority of an incident from its impact and
+ * urgency. In a default instance both fields accept the values `1` (High),
+ * `2` (Medium) and `3` (Low).
+ */
+export interface ServiceNowIncidentPriority {
+  readonly impact: string;
+  readonly urgency: string;
+}
+
+export interface ServiceNowIncidentSeverityMap {
+  readonly critical?: ServiceNowIncidentPriority;
+  readonly default?: ServiceNowIncidentPriority;
+  readonly high?: ServiceNowIncidentPriority;
+  readonly info?: ServiceNowIncidentPriority;
+  readonly low?: ServiceNowIncidentPriority;
+  readonly medium?: ServiceNowIncidentPriority;
+}
+
+export interface ServiceNowIncidentOverrideOptions {
+  readonly assignmentGroup?: string;
+  readonly category?: string;
+  readonly impact?: string;
+  readonly urgency?: string;
+}
+
+/**
+ * Configuration controlling how ServiceNow incidents should be created in
+ * response to events.
+ */
+export interface ServiceNowIncidentProps extends IssuePluginBaseProps {
+  readonly assignmentGroup?: string;
+  readonly category?: string;
+  readonly credentials: ISecret;
+  readonly eventBus?: IEventBus;
+  readonly instanceUrl: string;
+  readonly name?: string;
+  readonly severityMap?: ServiceNowIncidentSeverityMap;
+  readonly timeout?: Duration;
+}
+
+/**
+ * A standardized implementation that allows ServiceNow incidents to be
+ * created in response to events detected in AWS.
+ *
+ * Incidents are created using the ServiceNow Table API. Resolved issues are
+ * ignored, so incidents need to be resolved in ServiceNow.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ *
+ * @see [Table API](https://docs.servicenow.com/bundle/vancouver-api-reference/page/integrate/inbound-rest/concept/c_TableAPI.html)
+ */
+export class ServiceNowIncident extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'ServiceNowIncident';
+
+  public static readonly DEFAULT_SEVERITY_MAP: ServiceNowIncidentSeverityMap = {
+    critical: {
+      impact: '1',
+      urgency: '1',
+    },
+    default: {
+      impact: '3',
+      urgency: '3',
+    },
+    high: {
+      impact: '1',
+      urgency: '2',
+    },
+    info: {
+      impact: '3',
+      urgency: '3',
+    },
+    low: {
+      impact: '3',
+      urgency: '2',
+    },
+    medium: {
+      impact: '2',
+      urgency: '2',
+    },
+  };
+
+  private static buildSeverityCondition(severity: string): Condition {
+    return Condition.and(
+      Condition.isPresent('$.Severity'),
+      Condition.stringEquals('$.Severity', severity),
+    );
+  }
+
+  /**
+   * The default assignment group that incidents should be created with if no
+   * other group is specified by the event that triggered the incident
+   * creation.
+   *
+   * @group Inputs
+   */
+  public readonly assignmentGroup?: string;
+
+  /**
+   * The default category that incidents should be created with if no other
+   * category is specified by the event that triggered the incident creation.
+   *
+   * @group Inputs
+   */
+  public readonly category?: string;
+
+  /**
+   * The credentials to be used for connecting to ServiceNow. The secret should
+   * be in JSON format and contain the key:
+   *
+   * username: The name of the user incidents should be created as.
+   * password: The password for the user specified in `username`.
+   *
+   * @group Inputs
+   */
+  public readonly credentials: ISecret;
+
+  /**
+   * The event bus to use to trigger writes to the ServiceNow instance.
+   *
+   * This integration formats a ServiceNow API request and then sends it to a
+   * ServiceNow instance by means of an EventBridge Destination API and a
+   * specially crafted event pattern. This is the event bus where the rule to
+   * trigger the API will be added and the trigger event will be sent.
+   */
+  public readonly eventBus?: IEventBus;
+
+  /**
+   * The URL of the ServiceNow instance where incidents should be created.
+   *
+   * @group Inputs
+   */
+  public readonly instanceUrl: string;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * A mapping of the standard severities supported by issue manager to the
+   * impact and urgency incidents are created with in ServiceNow.
+   *
+   * @group Inputs
+   */
+  public readonly severityMap: ServiceNowIncidentSeverityMap;
+
+  /**
+   * The length of time that the State Machine that handles creation of
+   * ServiceNow incidents is allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * Destination pointing to a ServiceNow instance where incidents are to be
+   * created.
+   */
+  public readonly apiDestination: ApiDestination;
+
+  /**
+   * API connection providing details of how to communicate with the
+   * configured ServiceNow instance.
+   */
+  public readonly connection: Connection;
+
+  /**
+   * The queue that receives ServiceNow incidents that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles creating a ServiceNow incident for a
+   * passed issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the ServiceNowIncident class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: ServiceNowIncidentProps) {
+    super(scope, id, props);
+
+    this.assignmentGroup = props.assignmentGroup;
+    this.category = props.category;
+    this.credentials = props.credentials;
+    this.eventBus = props.eventBus;
+    this.instanceUrl = props.instanceUrl;
+    this.name = props.name ?? ServiceNowIncident.DEFAULT_NAME;
+    this.severityMap = {
+      ...ServiceNowIncident.DEFAULT_SEVERITY_MAP,
+      ...definedFields(props.severityMap ?? {}),
+    };
+    this.timeout = props.timeout;
+
+    this.connection = new Connection(this, 'connection', {
+      authorization: Authorization.basic(
+        this.credentials.secretValueFromJson('username').toString(),
+        this.credentials.secretValueFromJson('password'),
+      ),
+      description: 'Allows events to be sent to ServiceNow to create incidents.',
+      headerParameters: {
+        'Accept': HttpParameter.fromString('application/json'),
+        'Content-Type': HttpParameter.fromString('application/json'),
+      },
+    });
+
+    this.apiDestination = new ApiDestination(this, 'api-destination', {
+      connection: this.connection,
+      description: 'Allows events to be sent to ServiceNow to create incidents.',
+      endpoint: `${this.instanceUrl.replace(/\/$/, '')}/api/now/table/incident`,
+      httpMethod: HttpMethod.POST,
+    });
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: definedFields({
+        AssignmentGroup: this.assignmentGroup,
+        Category: this.category,
+      }),
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const checkSeverity = this.buildSeverityMap();
+
+    const buildFields = new Pass(this, 'build-fields', {
+      parameters: {
+        'description.$': '$.Description',
+        'impact.$': '$.Resolved.Impact',
+        'short_description.$': '$.Summary',
+        'urgency.$': '$.Resolved.Urgency',
+      },
+      resultPath: '$.Output.Fields',
+    });
+
+    const putEvent = new CallAwsService(this, 'put-event', {
+      action: 'putEvents',
+      iamAction: 'events:PutEvents',
+      iamResources: [
+        this.eventBus?.eventBusArn ?? this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'event-bus',
+          resourceName: 'default',
+          service: 'events',
+        }),
+      ],
+      parameters: {
+        Entries: [{
+          'Detail': {
+            'fields.$': '$.Output.Fields',
+          },
+          'EventBusName': this.eventBus?.eventBusName ?? 'default',
+          'DetailType': this.name,
+          'Resources.$': SfnFn.array('$$.StateMachine.Id'),
+          'Source': 'cdke.issues',
+        }],
+      },
+      resultPath: '$.PutEvent',
+      service: 'eventbridge',
+    });
+
+    // Incidents are only ever created, so a resolved issue would otherwise
+    // raise a second incident rather than closing the first.
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const createIncidentChain = Chain.start(checkSeverity)
+      .next(buildFields)
+      .next(this.buildOptionalField('assignment-group', '$.AssignmentGroup', 'assignment_group'))
+      .next(this.buildOptionalField('category', '$.Category', 'category'))
+      .next(this.buildOptionalField('correlation-id', '$.Id', 'correlation_id'))
+      .next(putEvent);
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(createIncidentChain));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
+    new Rule(this, 'rule', {
+      description: 'Triggers an incident to be created in ServiceNow in response to an event.',
+      enabled: true,
+      eventBus: this.eventBus,
+      eventPattern: {
+        detailType: [
+          this.name,
+        ],
+        resources: [
+          this.handler.stateMachineArn,
+        ],
+        source: [
+          'cdke.issues',
+        ],
+      },
+      targets: [
+        new EventsApiDestination(this.apiDestination, {
+          deadLetterQueue: this.deadLetterQueue,
+          event: RuleTargetInput.fromEventPath('$.detail.fields'),
+        }),
+      ],
+    });
+  }
+
+  /**
+   * Builds a set of states that adds a field to the incident being created
+   * only when a value for it is available in the state input.
+   *
+   * @param id A name used to identify the states that are created.
+   * @param inputPath The JSONPath where the value for the field can be found.
+   * @param field The name of the incident field to be set.
+   * @returns A chain that adds the field if it is present.
+   */
+  private buildOptionalField(id: string, inputPath: string, field: string): Chain {
+    const checkField = new Choice(this, `check-${id}`);
+
+    const buildField = new Pass(this, `build-${id}`, {
+      parameters: {
+        [`${field}.$`]: inputPath,
+      },
+      resultPath: '$.Optional.Field',
+    });
+
+    const mergeField = new Pass(this, `merge-${id}`, {
+      parameters: {
+        'Fields.$': SfnFn.jsonMerge('$.Output.Fields', '$.Optional.Field'),
+      },
+      resultPath: '$.Output',
+    });
+
+    return checkField
+      .when(Condition.isPresent(inputPath), buildField
+        .next(mergeField))
+      .afterwards({ includeOtherwise: true });
+  }
+
+  public buildSeverityMap(): Chain {
+    let registered = 0;
+    const registerSeverity = (choice: Choice, name: string, value: ServiceNowIncidentPriority): Choice => {
+      const step = new Pass(this, `map-${name.toLowerCase()}`, {
+        parameters: {
+          'Impact': value.impact,
+          'Severity.$': '$.Severity',
+          'Urgency': value.urgency,
+        },
+        resultPath: '$.Resolved',
+      });
+
+      const condition = ServiceNowIncident.buildSeverityCondition(name.toUpperCase());
+      registered += 1;
+      return choice.when(condition, step);
+    };
+
+    let checkSeverity = new Choice(this, 'check-severity');
+
+    if (this.severityMap.critical) {
+      checkSeverity = registerSeverity(checkSeverity, 'critical', this.severityMap.critical);
+    }
+
+    if (this.severityMap.high) {
+      checkSeverity = registerSeverity(checkSeverity, 'high', this.severityMap.high);
+    }
+
+    if (this.severityMap.medium) {
+      checkSeverity = registerSeverity(checkSeverity, 'medium', this.severityMap.medium);
+    }
+
+    if (this.severityMap.low) {
+      checkSeverity = registerSeverity(checkSeverity, 'low', this.severityMap.low);
+    }
+
+    if (this.severityMap.info) {
+      checkSeverity = registerSeverity(checkSeverity, 'info', this.severityMap.info);
+    }
+
+    const defaultAssignment = new Pass(this, 'map-default', {
+      parameters: definedFields({
+        Impact: this.severityMap.default?.impact,
+        Severity: 'DEFAULT',
+        Urgency: this.severityMap.default?.urgency,
+      }),
+      resultPath: '$.Resolved',
+    });
+
+    const checkOverride = new Choice(this, 'check-override');
+
+    // Overrides may only specify one of impact or urgency so they are merged
+    // over the mapped values rather than replacing them.
+    const overrideAssignment = new Pass(this, 'map-override', {
+      parameters: {
+        'Value.$': SfnFn.jsonMerge('$.Resolved', '$.Priority'),
+      },
+      resultPath: '$.Override',
+    });
+
+    const applyOverride = new Pass(this, 'apply-override', {
+      inputPath: '$.Override.Value',
+      resultPath: '$.Resolved',
+    });
+
+    const mapSeverity = registered > 0 ?
+      checkSeverity.otherwise(defaultAssignment).afterwards() :
+      Chain.start(defaultAssignment);
+
+    return mapSeverity
+      .next(checkOverride
+        .when(Condition.isPresent('$.Priority'), overrideAssignment
+          .next(applyOverride))
+        .afterwards({ includeOtherwise: true }));
+  }
+
+  public buildEventOverrides(options: ServiceNowIncidentOverrideOptions): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, {
+      AssignmentGroup: options.assignmentGroup,
+      Category: options.category,
+      Priority: definedFieldsOrUndefined({
+        Impact: options.impact,
+        Urgency: options.urgency,
+      }),
+    });
+  }
+}
@@ -0,0 +1,498 @@
+import { ArnFormat, Duration, Lazy } from 'aws-cdk-lib';
+import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType, Succeed } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn } from '../../stepfunctions';
+import { definedFields } from '../../utils/formatting';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * A mapping of the standard severities supported by issue manager to the
+ * colors used for the bar displayed alongside Slack message attachments.
+ *
+ * Colors should be given as hex color codes, for example `#e01e5a`.
+ */
+export interface SlackSeverityColorMap {
+  readonly critical?: string;
+  readonly default?: string;
+  readonly high?: string;
+  readonly info?: string;
+  readonly low?: string;
+  readonly medium?: string;
+}
+
+export interface SlackOverrideOptions {
+  readonly channel?: string;
+  readonly mentions?: string[];
+}
+
+/**
+ * Configuration controlling how Slack messages should be sent in response to
+ * events.
+ */
+export interface SlackProps extends IssuePluginBaseProps {
+  readonly channel: string;
+  readonly colorMap?: SlackSeverityColorMap;
+  readonly eventBus?: IEventBus;
+  readonly mentions?: string[];
+  readonly name?: string;
+  readonly timeout?: Duration;
+  readonly token: ISecret;
+}
+
+/**
+ * A standardized implementation that allows Slack messages to be sent in
+ * response to events detected in AWS.
+ *
+ * Messages are formatted using Slack Block Kit and are colored based on the
+ * standardized severity of the issue being reported.
+ *
+ * Resolved issues are ignored so that recoveries aren't posted as new
+ * problems.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ *
+ * @see [chat.postMessage](https://api.slack.com/methods/chat.postMessage)
+ */
+export class Slack extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_COLOR_MAP: SlackSeverityColorMap = {
+    critical: '#a30200',
+    default: '#868e96',
+    high: '#e01e5a',
+    info: '#2eb67d',
+    low: '#36c5f0',
+    medium: '#ecb22e',
+  };
+  public static readonly DEFAULT_NAME: string = 'Slack';
+  public static readonly MESSAGES_ENDPOINT: string = 'https://slack.com/api/chat.postMessage';
+
+  private static buildSeverityCondition(severity: string): Condition {
+    return Condition.and(
+      Condition.isPresent('$.Severity'),
+      Condition.stringEquals('$.Severity', severity),
+    );
+  }
+
+  /**
+   * Internal collection of users or groups who should be mentioned by default
+   * when sending a message to Slack.
+   */
+  private readonly _mentions: string[];
+
+  /**
+   * The default Slack channel where messages processed by the handler should
+   * be sent if no override is given.
+   *
+   * @group Inputs
+   */
+  public readonly channel: string;
+
+  /**
+   * A mapping of the standard severities supported by issue manager to the
+   * colors used when displaying the message in Slack.
+   *
+   * @group Inputs
+   */
+  public readonly colorMap: SlackSeverityColorMap;
+
+  /**
+   * The event bus to use to trigger writes to Slack.
+   *
+   * This integration formats a Slack API request and then sends it to Slack
+   * by means of an EventBridge Destination API and a specially crafted event
+   * pattern. This is the event bus where the rule to trigger the API will be
+   * added and the trigger event will be sent.
+   */
+  public readonly eventBus?: IEventBus;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The length of time that the State Machine that handles sending Slack
+   * messages is allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * The token for a Slack app that has permissions to post in the destination
+   * channels. The secret should be in JSON format and contain the key:
+   *
+   * token: The full value of the authorization header to send to Slack. For
+   * a bot token this should take the form `Bearer xoxb-...`.
+   *
+   * @group Inputs
+   */
+  public readonly token: ISecret;
+
+  /**
+   * Collection of users or groups who should be mentioned by default when
+   * sending a message to Slack.
+   *
+   * Mentions should be given using Slack's escaped format, for example
+   * `<@U0123ABCD>` for a user or `<!subteam^S0123ABCD>` for a user group.
+   */
+  public get mentions(): string[] {
+    return [...this._mentions];
+  }
+
+  /**
+   * Destination pointing to the Slack API where messages are to be posted.
+   */
+  public readonly apiDestination: ApiDestination;
+
+  /**
+   * API connection providing details of how to communicate with the Slack
+   * API.
+   */
+  public readonly connection: Connection;
+
+  /**
+   * The queue that receives Slack messages that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles posting a Slack message for a passed
+   * issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the Slack class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: SlackProps) {
+    super(scope, id, props);
+
+    this._mentions = [];
+
+    this.channel = props.channel;
+    this.colorMap = {
+      ...Slack.DEFAULT_COLOR_MAP,
+      ...definedFields(props.colorMap ?? {}),
+    };
+    this.eventBus = props.eventBus;
+    this.name = props.name ?? Slack.DEFAULT_NAME;
+    this.timeout = props.timeout;
+    this.token = props.token;
+
+    props.mentions?.forEach((x) => {
+      this.addMention(x);
+    });
+
+    this.connection = new Connection(this, 'connection', {
+      authorization: Authorization.apiKey(
+        'Authorization',
+        this.token.secretValueFromJson('token'),
+      ),
+      description: 'Allows events to be sent to Slack.',
+      headerParameters: {
+        'Content-Type': HttpParameter.fromString('application/json; charset=utf-8'),
+      },
+    });
+
+    this.apiDestination = new ApiDestination(this, 'api-destination', {
+      connection: this.connection,
+      description: 'Allows events to be sent to Slack.',
+      endpoint: Slack.MESSAGES_ENDPOINT,
+      httpMethod: HttpMethod.POST,
+    });
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: definedFields({
+        Channel: this.channel,
+        Mentions: Lazy.list({
+          produce: () => {
+            return this.mentions;
+          },
+        }),
+        Severity: 'UNKNOWN',
+      }),
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const checkSeverity = this.buildColorMap();
+
+    const buildRequest = new Pass(this, 'build-request', {
+      parameters: {
+        'attachments': [{
+          'blocks': [
+            {
+              text: {
+                'text.$': '$.Description',
+                'type': 'mrkdwn',
+              },
+              type: 'section',
+            },
+            {
+              elements: [{
+                'text.$': SfnFn.format('*Severity:* {}', [
+                  '$.Severity',
+                ]),
+                'type': 'mrkdwn',
+              }],
+              type: 'context',
+            },
+          ],
+          'color.$': '$.Resolved.Color',
+        }],
+        'channel.$': '$.Channel',
+        'text.$': SfnFn.format('*{}*', [
+          '$.Summary',
+        ]),
+      },
+      resultPath: '$.Output',
+    });
+
+    const checkMentions = new Choice(this, 'check-mentions');
+
+    const initializeMentionsBuilder = new Pass(this, 'initialize-mentions-builder', {
+      parameters: {
+        'Builder': '',
+        'Delimiter': '',
+        'Index': 0,
+        'Length.$': SfnFn.arrayLength('$.Mentions'),
+        'List.$': '$.Mentions',
+      },
+      resultPath: '$.MentionsBuilder',
+    });
+
+    const iterateMentions = new Choice(this, 'iterate-mentions');
+
+    const addMention = new Pass(this, 'add-mention', {
+      parameters: {
+        'Builder.$': SfnFn.format('{}{}{}', [
+          '$.MentionsBuilder.Builder',
+          '$.MentionsBuilder.Delimiter',
+          SfnFn.arrayGetItem('$.MentionsBuilder.List', '$.MentionsBuilder.Index'),
+        ]),
+        'Delimiter': ' ',
+        'Index.$': SfnFn.mathAdd('$.MentionsBuilder.Index', 1),
+        'Length.$': '$.MentionsBuilder.Length',
+        'List.$': '$.MentionsBuilder.List',
+      },
+      resultPath: '$.MentionsBuilder',
+    });
+
+    const addMentionsToRequest = new Pass(this, 'add-mentions-to-request', {
+      parameters: {
+        'Text.$': SfnFn.format('{}\n{}', [
+          '$.MentionsBuilder.Builder',
+          '$.Output.text',
+        ]),
+      },
+      resultPath: '$.Optional.Mentions',
+    });
+
+    const mergeMentions = new Pass(this, 'merge-mentions', {
+      parameters: {
+        'attachments.$': '$.Output.attachments',
+        'channel.$': '$.Output.channel',
+        'text.$': '$.Optional.Mentions.Text',
+      },
+      resultPath: '$.Output',
+    });
+
+    const handleMentions = checkMentions
+      .when(Condition.isPresent('$.Mentions[0]'), initializeMentionsBuilder
+        .next(iterateMentions
+          .when(Condition.numberLessThanJsonPath(
+            '$.MentionsBuilder.Index',
+            '$.MentionsBuilder.Length',
+          ), addMention
+            .next(iterateMentions))
+          .otherwise(addMentionsToRequest
+            .next(mergeMentions))
+          .afterwards()))
+      .afterwards({ includeOtherwise: true });
+
+    const putEvent = new CallAwsService(this, 'put-event', {
+      action: 'putEvents',
+      iamAction: 'events:PutEvents',
+      iamResources: [
+        this.eventBus?.eventBusArn ?? this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'event-bus',
+          resourceName: 'default',
+          service: 'events',
+        }),
+      ],
+      parameters: {
+        Entries: [{
+          'Detail': {
+            'payload.$': '$.Output',
+          },
+          'EventBusName': this.eventBus?.eventBusName ?? 'default',
+          'DetailType': this.name,
+          'Resources.$': SfnFn.array('$$.StateMachine.Id'),
+          'Source': 'cdke.issues',
+        }],
+      },
+      resultPath: '$.PutEvent',
+      service: 'eventbridge',
+    });
+
+    // Slack messages are only ever posted, so a resolved issue would
+    // otherwise be announced as though it were a new problem.
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const postMessageChain = Chain.start(checkSeverity)
+      .next(buildRequest)
+      .next(handleMentions)
+      .next(putEvent);
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(postMessageChain));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
+    new Rule(this, 'rule', {
+      description: 'Triggers a Slack message in response to an event.',
+      enabled: true,
+      eventBus: this.eventBus,
+      eventPattern: {
+        detailType: [
+          this.name,
+        ],
+        resources: [
+          this.handler.stateMachineArn,
+        ],
+        source: [
+          'cdke.issues',
+        ],
+      },
+      targets: [
+        new EventsApiDestination(this.apiDestination, {
+          deadLetterQueue: this.deadLetterQueue,
+          event: RuleTargetInput.fromEventPath('$.detail.payload'),
+        }),
+      ],
+    });
+  }
+
+  /**
+   * Adds a user or group who should be mentioned by default when sending a
+   * message to Slack.
+   *
+   * @param mention The user or group to mention using Slack's escaped format,
+   * for example `<@U0123ABCD>`.
+   */
+  public addMention(mention: string): void {
+    this._mentions.push(mention);
+  }
+
+  public buildColorMap(): Chain {
+    const registerSeverity = (choice: Choice, name: string, value: string): Choice => {
+      const step = new Pass(this, `map-${name.toLowerCase()}`, {
+        parameters: {
+          'Color': value,
+          'Severity.$': '$.Severity',
+        },
+        resultPath: '$.Resolved',
+      });
+
+      const condition = Slack.buildSeverityCondition(name.toUpperCase());
+      return choice.when(condition, step);
+    };
+
+    let checkSeverity = new Choice(this, 'check-severity');
+
+    if (this.colorMap.critical) {
+      checkSeverity = registerSeverity(checkSeverity, 'critical', this.colorMap.critical);
+    }
+
+    if (this.colorMap.high) {
+      checkSeverity = registerSeverity(checkSeverity, 'high', this.colorMap.high);
+    }
+
+    if (this.colorMap.medium) {
+      checkSeverity = registerSeverity(checkSeverity, 'medium', this.colorMap.medium);
+    }
+
+    if (this.colorMap.low) {
+      checkSeverity = registerSeverity(checkSeverity, 'low', this.colorMap.low);
+    }
+
+    if (this.colorMap.info) {
+      checkSeverity = registerSeverity(checkSeverity, 'info', this.colorMap.info);
+    }
+
+    const defaultAssignment = new Pass(this, 'map-default', {
+      parameters: {
+        Color: this.colorMap.default,
+        Severity: 'DEFAULT',
+      },
+      resultPath: '$.Resolved',
+    });
+
+    return checkSeverity
+      .otherwise(defaultAssignment)
+      .afterwards();
+  }
+
+  public buildEventOverrides(options: SlackOverrideOptions): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, {
+      Channel: options.channel,
+      Mentions: options.mentions,
+    });
+  }
+}
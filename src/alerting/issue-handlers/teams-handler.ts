@@ -0,0 +1,481 @@
+import { ArnFormat, Duration, Lazy, SecretValue } from 'aws-cdk-lib';
+import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, JsonPath, Pass, Result, StateMachine, StateMachineType, Succeed, TaskInput } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { HttpInvoke, SfnFn, StringReplace } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+export interface TeamsOverrideOptions {
+  /**
+   * The name of the webhook that should be used to post the message. The
+   * webhook should have been registered with the handler using
+   * `addWebhook`. Messages for webhooks that haven't been registered are
+   * posted to the default webhook.
+   */
+  readonly webhook?: string;
+
+  /**
+   * The URL of an incoming webhook that the message should be posted to
+   * directly, in place of any registered webhook.
+   *
+   * Intended for issues where the channel isn't known in advance, for
+   * example by setting the URL from a resource tag using an enrichment. As
+   * the URL authorizes posting to the channel, registered webhooks should be
+   * preferred where possible as their URLs are kept in Secrets Manager.
+   */
+  readonly webhookUrl?: string;
+}
+
+/**
+ * Configuration controlling how Microsoft Teams messages should be sent in
+ * response to events.
+ */
+export interface TeamsProps extends IssuePluginBaseProps {
+  readonly eventBus?: IEventBus;
+  readonly name?: string;
+  readonly timeout?: Duration;
+
+  /**
+   * The secret holding the URL of the incoming webhook where messages should
+   * be posted if no override is given. The URL is read from the `url` key of
+   * the secret.
+   */
+  readonly webhookUrl: ISecret;
+}
+
+/**
+ * A standardized implementation that allows Microsoft Teams messages to be
+ * sent in response to events detected in AWS.
+ *
+ * Messages are rendered as Adaptive Cards, with the fields added by the
+ * parser's description builder shown as facts. Additional webhooks can be
+ * registered with the handler and selected per trigger using event overrides
+ * so that different parsers can post to different channels. Webhook URLs are
+ * kept in Secrets Manager and resolved by CloudFormation so that they don't
+ * appear in the template.
+ *
+ * Resolved issues are ignored so that recoveries aren't posted as new
+ * problems.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ *
+ * @see [Create Incoming Webhooks](https://learn.microsoft.com/en-us/microsoftteams/platform/webhooks-and-connectors/how-to/add-incoming-webhook)
+ */
+export class Teams extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'Teams';
+  public static readonly DEFAULT_WEBHOOK: string = 'default';
+
+  /**
+   * Internal collection of the named webhooks that messages can be posted to.
+   */
+  private readonly _webhooks: {[name: string]: ApiDestination};
+
+  /**
+   * The event bus to use to trigger writes to Microsoft Teams.
+   *
+   * This integration formats an Adaptive Card message and then sends it to a
+   * Teams webhook by means of an EventBridge Destination API and a specially
+   * crafted event pattern. This is the event bus where the rules to trigger
+   * the API will be added and the trigger event will be sent.
+   */
+  public readonly eventBus?: IEventBus;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The length of time that the State Machine that handles sending Teams
+   * messages is allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * The names of the webhooks that have been registered with the handler.
+   */
+  public get webhooks(): string[] {
+    return Object.keys(this._webhooks);
+  }
+
+  /**
+   * API connection shared by all webhooks registered with the handler.
+   *
+   * Teams incoming webhooks are authorized by the URL itself. As EventBridge
+   * connections require an authorization method a placeholder API key header
+   * is configured.
+   */
+  public readonly connection: Connection;
+
+  /**
+   * The queue that receives Microsoft Teams messages that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles posting a Teams message for a passed
+   * issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the Teams class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: TeamsProps) {
+    super(scope, id, props);
+
+    this._webhooks = {};
+
+    this.eventBus = props.eventBus;
+    this.name = props.name ?? Teams.DEFAULT_NAME;
+    this.timeout = props.timeout;
+
+    this.connection = new Connection(this, 'connection', {
+      authorization: Authorization.apiKey(
+        'X-Webhook-Auth',
+        SecretValue.unsafePlainText('none'),
+      ),
+      description: 'Allows events to be sent to Microsoft Teams.',
+      headerParameters: {
+        'Content-Type': HttpParameter.fromString('application/json'),
+      },
+    });
+
+    // Shared by the API destinations of all webhooks so that a single queue
+    // needs to be monitored.
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    // Webhooks can be registered after the handler is created so the list
+    // of names is only resolved when the template is synthesized.
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: {
+        RegisteredWebhooks: Lazy.list({
+          produce: () => this.webhooks,
+        }),
+        Severity: 'UNKNOWN',
+        Status: 'OPEN',
+        Webhook: Teams.DEFAULT_WEBHOOK,
+      },
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    // Adaptive Card text blocks collapse single line breaks so each line of
+    // the description is converted into its own paragraph.
+    const formatDescription = new StringReplace(this, 'format-description', {
+      inputString: '$.Description',
+      outputKey: 'CardDescription',
+      replace: '\n\n',
+      search: '\n',
+    });
+
+    const checkUrl = new Choice(this, 'check-url');
+
+    const addConsoleAction = new Pass(this, 'add-console-action', {
+      parameters: {
+        List: [{
+          'title': 'View in AWS Console',
+          'type': 'Action.OpenUrl',
+          'url.$': '$.Url',
+        }],
+      },
+      resultPath: '$.Actions',
+    });
+
+    const addNoActions = new Pass(this, 'add-no-actions', {
+      parameters: {
+        List: [],
+      },
+      resultPath: '$.Actions',
+    });
+
+    const buildActions = checkUrl
+      .when(Condition.isPresent('$.Url'), addConsoleAction)
+      .otherwise(addNoActions)
+      .afterwards();
+
+    const checkFacts = new Choice(this, 'check-facts');
+
+    const issueFacts = {
+      Facts: [
+        {
+          'title': 'Severity',
+          'value.$': '$.Severity',
+        },
+        {
+          'title': 'Status',
+          'value.$': '$.Status',
+        },
+      ],
+    };
+
+    const addDescriptionFacts = new Pass(this, 'add-description-facts', {
+      parameters: {
+        Groups: [
+          issueFacts,
+          {
+            'Facts.$': '$.DescriptionFormats.Facts',
+          },
+        ],
+      },
+      resultPath: '$.Facts',
+    });
+
+    const addIssueFacts = new Pass(this, 'add-issue-facts', {
+      parameters: {
+        Groups: [
+          issueFacts,
+        ],
+      },
+      resultPath: '$.Facts',
+    });
+
+    const flattenFacts = new Pass(this, 'flatten-facts', {
+      parameters: {
+        'List.$': '$.Facts.Groups[*].Facts[*]',
+      },
+      resultPath: '$.Facts',
+    });
+
+    const buildFacts = checkFacts
+      .when(Condition.isPresent('$.DescriptionFormats.Facts'), addDescriptionFacts)
+      .otherwise(addIssueFacts)
+      .afterwards()
+      .next(flattenFacts);
+
+    const buildRequest = new Pass(this, 'build-request', {
+      parameters: {
+        attachments: [{
+          content: {
+            'actions.$': '$.Actions.List',
+            'body': [
+              {
+                'size': 'Large',
+                'text.$': '$.Summary',
+                'type': 'TextBlock',
+                'weight': 'Bolder',
+                'wrap': true,
+              },
+              {
+                'facts.$': '$.Facts.List',
+                'type': 'FactSet',
+              },
+              {
+                'text.$': '$.CardDescription',
+                'type': 'TextBlock',
+                'wrap': true,
+              },
+            ],
+            'msteams': {
+              width: 'Full',
+            },
+            'type': 'AdaptiveCard',
+            'version': '1.4',
+          },
+          contentType: 'application/vnd.microsoft.card.adaptive',
+        }],
+        type: 'message',
+      },
+      resultPath: '$.Output',
+    });
+
+    const putEvent = new CallAwsService(this, 'put-event', {
+      action: 'putEvents',
+      iamAction: 'events:PutEvents',
+      iamResources: [
+        this.eventBus?.eventBusArn ?? this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'event-bus',
+          resourceName: 'default',
+          service: 'events',
+        }),
+      ],
+      parameters: {
+        Entries: [{
+          'Detail': {
+            'payload.$': '$.Output',
+            'webhook.$': '$.Webhook',
+          },
+          'EventBusName': this.eventBus?.eventBusName ?? 'default',
+          'DetailType': this.name,
+          'Resources.$': SfnFn.array('$$.StateMachine.Id'),
+          'Source': 'cdke.issues',
+        }],
+      },
+      resultPath: '$.PutEvent',
+      service: 'eventbridge',
+    });
+
+    const checkWebhookUrl = new Choice(this, 'check-webhook-url');
+
+    // URLs given by an override can't be known when the template is
+    // synthesized so they are called directly rather than through an API
+    // destination.
+    const postToWebhookUrl = new HttpInvoke(this, 'post-to-webhook-url', {
+      apiEndpoint: '$.WebhookUrl',
+      connection: this.connection,
+      method: 'POST',
+      requestBody: TaskInput.fromJsonPathAt('$.Output'),
+      resultPath: JsonPath.DISCARD,
+    });
+
+    const checkWebhook = new Pass(this, 'check-webhook', {
+      parameters: {
+        'Registered.$': SfnFn.arrayContains('$.RegisteredWebhooks', '$.Webhook'),
+      },
+      resultPath: '$.WebhookCheck',
+    });
+
+    const selectWebhook = new Choice(this, 'select-webhook');
+
+    const useDefaultWebhook = new Pass(this, 'use-default-webhook', {
+      result: Result.fromString(Teams.DEFAULT_WEBHOOK),
+      resultPath: '$.Webhook',
+    });
+
+    const deliverMessage = checkWebhookUrl
+      .when(Condition.isPresent('$.WebhookUrl'), postToWebhookUrl)
+      .otherwise(checkWebhook
+        .next(selectWebhook
+          .when(Condition.booleanEquals('$.WebhookCheck.Registered', false), useDefaultWebhook)
+          .afterwards({ includeOtherwise: true }))
+        .next(putEvent));
+
+    // Cards are only ever posted, so a resolved issue would otherwise be
+    // announced as though it were a new problem.
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const postCardChain = Chain.start(formatDescription)
+      .next(buildActions)
+      .next(buildFacts)
+      .next(buildRequest)
+      .next(deliverMessage);
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(postCardChain));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.addWebhook(Teams.DEFAULT_WEBHOOK, props.webhookUrl);
+  }
+
+  /**
+   * Registers an incoming webhook that messages can be posted to.
+   *
+   * Issue triggers can select the webhook using the `webhook` event override.
+   * Messages requesting a webhook that has not been registered are posted to
+   * the default webhook.
+   *
+   * @param name The name used to reference the webhook in event overrides.
+   * @param url The secret holding the URL of the Teams incoming webhook under
+   * the `url` key.
+   * @returns The API destination that posts to the webhook.
+   */
+  public addWebhook(name: string, url: ISecret): ApiDestination {
+    if (name in this._webhooks) {
+      throw new Error([
+        `A webhook named '${name}' has already been registered with the Teams`,
+        `handler at '${this.node.path}'.`,
+      ].join(' '));
+    }
+
+    const apiDestination = new ApiDestination(this, `api-destination-${name}`, {
+      connection: this.connection,
+      description: `Allows events to be sent to the '${name}' Microsoft Teams webhook.`,
+      endpoint: url.secretValueFromJson('url').unsafeUnwrap(),
+      httpMethod: HttpMethod.POST,
+    });
+
+    new Rule(this, `rule-${name}`, {
+      description: 'Triggers a Microsoft Teams message in response to an event.',
+      enabled: true,
+      eventBus: this.eventBus,
+      eventPattern: {
+        detail: {
+          webhook: [
+            name,
+          ],
+        },
+        detailType: [
+          this.name,
+        ],
+        resources: [
+          this.handler.stateMachineArn,
+        ],
+        source: [
+          'cdke.issues',
+        ],
+      },
+      targets: [
+        new EventsApiDestination(apiDestination, {
+          deadLetterQueue: this.deadLetterQueue,
+          event: RuleTargetInput.fromEventPath('$.detail.payload'),
+        }),
+      ],
+    });
+
+    this._webhooks[name] = apiDestination;
+    return apiDestination;
+  }
+
+  public buildEventOverrides(options: TeamsOverrideOptions): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, {
+      Webhook: options.webhook,
+      WebhookUrl: options.webhookUrl,
+    });
+  }
+}
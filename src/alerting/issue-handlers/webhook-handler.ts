@@ -0,0 +1,393 @@
+import { ArnFormat, Duration } from 'aws-cdk-lib';
+import { ApiDestination, Authorization, Connection, HttpMethod, HttpParameter, IConnection, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { ApiDestination as EventsApiDestination } from 'aws-cdk-lib/aws-events-targets';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType, Succeed } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { SfnFn, StepFunctionValidation } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueHandler } from '../issue-manager';
+import { IssuePluginBase, IssuePluginBaseProps } from '../issue-plugin-base';
+
+
+/**
+ * Configuration controlling how webhook requests should be sent in response
+ * to events.
+ */
+export interface WebhookProps extends IssuePluginBaseProps {
+  /**
+   * The authorization to use when creating a connection for the webhook.
+   *
+   * Either this or `connection` must be provided.
+   */
+  readonly authorization?: Authorization;
+
+  /**
+   * An existing EventBridge connection to use when sending requests to the
+   * webhook.
+   *
+   * Either this or `authorization` must be provided.
+   */
+  readonly connection?: IConnection;
+
+  /**
+   * Values that should be used for any fields referenced by the template
+   * that were not provided by the issue parser or event overrides.
+   */
+  readonly defaults?: {[key: string]: any};
+
+  /**
+   * The URL of the endpoint where requests should be sent.
+   */
+  readonly endpoint: string;
+
+  readonly eventBus?: IEventBus;
+
+  /**
+   * Additional headers to send with each request. Only used when the handler
+   * creates its own connection.
+   */
+  readonly headers?: {[key: string]: string};
+
+  /**
+   * The HTTP method to use when sending requests to the webhook.
+   *
+   * @default HttpMethod.POST
+   */
+  readonly httpMethod?: HttpMethod;
+
+  readonly name?: string;
+
+  /**
+   * The JSON body to send to the webhook.
+   *
+   * Any string values in the template that are JSONPath expressions (or
+   * Step Functions intrinsic functions) are resolved against the issue being
+   * handled. Available fields include:
+   *
+   * - `$.Summary`: The title of the issue.
+   * - `$.Description`: The full description of the issue.
+   * - `$.Severity`: The standardized severity of the issue.
+   * - `$.AccountId`: The AWS account where the issue was raised.
+   * - `$.Region`: The AWS region where the issue was raised.
+   * - `$.MatchType`: The type of the parser that raised the issue.
+   *
+   * Parsers may provide additional fields such as `$.Id`, `$.Status`,
+   * `$.Url`, and `$.DescriptionFormats`, which holds the description as
+   * `Markdown`, Atlassian Document Format (`Adf`), and a Discord `Embed`.
+   * Fields that may not be present should be given a value using `defaults`.
+   */
+  readonly template: {[key: string]: any};
+
+  readonly timeout?: Duration;
+}
+
+/**
+ * A generic implementation that allows arbitrary HTTP endpoints to be called
+ * in response to events detected in AWS.
+ *
+ * The body of the request is built from a user supplied template which
+ * allows integration with services that do not have a dedicated issue
+ * handler.
+ *
+ * Only new issues are sent. Resolved issues are ignored as the request gives
+ * the receiver no way of matching them to the issue they resolve.
+ *
+ * Intended for use with the `IssueManager` state machine which allows
+ * arbitrary types of events to be processed into standard values and then
+ * output or one of more issue tracking services.
+ */
+export class Webhook extends IssuePluginBase implements IIssueHandler {
+  public static readonly DEFAULT_NAME: string = 'Webhook';
+
+  /**
+   * Converts a template into Step Functions parameters, marking any JSONPath
+   * expressions or intrinsic functions so they are resolved at runtime.
+   *
+   * @param template The template to be rendered.
+   * @returns Parameters for a Step Functions state.
+   */
+  private static renderTemplate(template: {[key: string]: any}): {[key: string]: any} {
+    return Object.entries(template).reduce((prev, [key, value]) => {
+      if (typeof value === 'string' && !key.endsWith('.$') && StepFunctionValidation.isStatesExpression(value)) {
+        prev[`${key}.$`] = value;
+      } else if (Array.isArray(value)) {
+        const expressions = value.some((x) => {
+          return typeof x === 'string' && StepFunctionValidation.isStatesExpression(x);
+        });
+
+        if (expressions && value.some((x) => typeof x === 'object')) {
+          throw new Error([
+            `Webhook template key '${key}' contains an array that mixes objects`,
+            'and JSONPath expressions which is not supported.',
+          ].join(' '));
+        }
+
+        if (expressions) {
+          prev[`${key}.$`] = SfnFn.array(...value);
+        } else {
+          prev[key] = value.map((x) => {
+            return (x !== null && typeof x === 'object') ? Webhook.renderTemplate(x) : x;
+          });
+        }
+      } else if (value !== null && typeof value === 'object') {
+        prev[key] = Webhook.renderTemplate(value);
+      } else {
+        prev[key] = value;
+      }
+
+      return prev;
+    }, {} as {[key: string]: any});
+  }
+
+  /**
+   * Values used for fields referenced by the template which were not provided
+   * by the issue being handled.
+   *
+   * @group Inputs
+   */
+  public readonly defaults: {[key: string]: any};
+
+  /**
+   * The URL of the endpoint where requests are sent.
+   *
+   * @group Inputs
+   */
+  public readonly endpoint: string;
+
+  /**
+   * The event bus to use to trigger calls to the webhook.
+   *
+   * This integration formats a request and then sends it to the webhook by
+   * means of an EventBridge Destination API and a specially crafted event
+   * pattern. This is the event bus where the rule to trigger the API will be
+   * added and the trigger event will be sent.
+   */
+  public readonly eventBus?: IEventBus;
+
+  /**
+   * The HTTP method used when sending requests to the webhook.
+   *
+   * @group Inputs
+   */
+  public readonly httpMethod: HttpMethod;
+
+  /**
+   * The human friendly name that can be used to identify the plugin.
+   *
+   * @group Inputs
+   */
+  public readonly name: string;
+
+  /**
+   * The template used to build the body of requests sent to the webhook.
+   *
+   * @group Inputs
+   */
+  public readonly template: {[key: string]: any};
+
+  /**
+   * The length of time that the State Machine that handles calling the
+   * webhook is allowed to run before timing out.
+   *
+   * @group Inputs
+   */
+  public readonly timeout?: Duration;
+
+  /**
+   * Destination pointing to the webhook endpoint.
+   */
+  public readonly apiDestination: ApiDestination;
+
+  /**
+   * API connection providing details of how to communicate with the webhook.
+   */
+  public readonly connection: IConnection;
+
+  /**
+   * The queue that receives webhook requests that couldn't be delivered.
+   *
+   * @group Resources
+   */
+  public readonly deadLetterQueue?: IQueue;
+
+  /**
+   * The State Machine that handles calling the webhook for a passed issue.
+   *
+   * @group Resources
+   */
+  public readonly handler: IStateMachine;
+
+
+  /**
+   * Creates a new instance of the Webhook class.
+   *
+   * @param scope A CDK Construct that will serve as this resource's parent in
+   * the construct tree.
+   * @param id A name to be associated with the stack and used in resource
+   * naming. Must be unique within the context of 'scope'.
+   * @param props Arguments related to the configuration of the resource.
+   */
+  public constructor(scope: IConstruct, id: string, props: WebhookProps) {
+    super(scope, id, props);
+
+    this.defaults = props.defaults ?? {};
+    this.endpoint = props.endpoint;
+    this.eventBus = props.eventBus;
+    this.httpMethod = props.httpMethod ?? HttpMethod.POST;
+    this.name = props.name ?? Webhook.DEFAULT_NAME;
+    this.template = props.template;
+    this.timeout = props.timeout;
+
+    if (props.connection && props.authorization) {
+      throw new Error([
+        'Only one of connection or authorization can be specified when',
+        'creating a webhook issue handler.',
+      ].join(' '));
+    } else if (props.connection) {
+      this.connection = props.connection;
+    } else if (props.authorization) {
+      this.connection = new Connection(this, 'connection', {
+        authorization: props.authorization,
+        description: 'Allows events to be sent to a webhook.',
+        headerParameters: Object.entries(props.headers ?? {}).reduce((prev, [key, value]) => {
+          prev[key] = HttpParameter.fromString(value);
+          return prev;
+        }, {
+          'Content-Type': HttpParameter.fromString('application/json'),
+        } as {[key: string]: HttpParameter}),
+      });
+    } else {
+      throw new Error([
+        'One of connection or authorization must be specified when creating',
+        'a webhook issue handler.',
+      ].join(' '));
+    }
+
+    this.apiDestination = new ApiDestination(this, 'api-destination', {
+      connection: this.connection,
+      description: 'Allows events to be sent to a webhook.',
+      endpoint: this.endpoint,
+      httpMethod: this.httpMethod,
+    });
+
+    const nestInput = new Pass(this, 'nest-input', {
+      parameters: {
+        'Input.$': '$',
+      },
+    });
+
+    const addDefaults = new Pass(this, 'add-defaults', {
+      parameters: {
+        ...this.defaults,
+      },
+      resultPath: '$.Defaults',
+    });
+
+    const mergeInputWithDefaults = new Pass(this, 'merge-input-with-defaults', {
+      parameters: {
+        'Merged.$': SfnFn.jsonMerge(
+          '$.Defaults',
+          '$.Input',
+        ),
+      },
+      outputPath: '$.Merged',
+    });
+
+    const buildRequest = new Pass(this, 'build-request', {
+      parameters: Webhook.renderTemplate(this.template),
+      resultPath: '$.Output',
+    });
+
+    const putEvent = new CallAwsService(this, 'put-event', {
+      action: 'putEvents',
+      iamAction: 'events:PutEvents',
+      iamResources: [
+        this.eventBus?.eventBusArn ?? this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'event-bus',
+          resourceName: 'default',
+          service: 'events',
+        }),
+      ],
+      parameters: {
+        Entries: [{
+          'Detail': {
+            'payload.$': '$.Output',
+          },
+          'EventBusName': this.eventBus?.eventBusName ?? 'default',
+          'DetailType': this.name,
+          'Resources.$': SfnFn.array('$$.StateMachine.Id'),
+          'Source': 'cdke.issues',
+        }],
+      },
+      resultPath: '$.PutEvent',
+      service: 'eventbridge',
+    });
+
+    // Requests carry nothing that would let a receiver match a resolved
+    // issue to the request that reported it, so resolutions are dropped.
+    const checkResolution = new Choice(this, 'check-resolution');
+
+    const ignoreResolution = new Succeed(this, 'ignore-resolution');
+
+    const sendRequestChain = Chain.start(buildRequest)
+      .next(putEvent);
+
+    const definition = nestInput
+      .next(addDefaults)
+      .next(mergeInputWithDefaults)
+      .next(checkResolution
+        .when(Condition.and(
+          Condition.isPresent('$.Status'),
+          Condition.stringEquals('$.Status', 'RESOLVED'),
+        ), ignoreResolution)
+        .otherwise(sendRequestChain));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+
+    this.deadLetterQueue = new Queue(this, 'dead-letter-queue');
+
+    new Rule(this, 'rule', {
+      description: 'Triggers a webhook to be called in response to an event.',
+      enabled: true,
+      eventBus: this.eventBus,
+      eventPattern: {
+        detailType: [
+          this.name,
+        ],
+        resources: [
+          this.handler.stateMachineArn,
+        ],
+        source: [
+          'cdke.issues',
+        ],
+      },
+      targets: [
+        new EventsApiDestination(this.apiDestination, {
+          deadLetterQueue: this.deadLetterQueue,
+          event: RuleTargetInput.fromEventPath('$.detail.payload'),
+        }),
+      ],
+    });
+  }
+
+  /**
+   * Creates overrides that replace fields referenced by the template when
+   * handling issues raised by a specific trigger.
+   *
+   * @param values The fields to override, keyed by the name they are
+   * referenced by in the template.
+   * @returns An override that can be passed to an issue trigger.
+   */
+  public buildEventOverrides(values: {[key: string]: any}): IssueHandlerOverride {
+    return new IssueHandlerOverride(this, values);
+  }
+}
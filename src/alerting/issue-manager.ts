@@ -1,12 +1,31 @@
 import { Annotations, Aspects, Duration, IResource, Resource, ResourceProps } from 'aws-cdk-lib';
-import { Choice, Condition, DefinitionBody, Fail, IChainable, IStateMachine, IntegrationPattern, Parallel, Pass, StateMachine, StateMachineType, Succeed, TaskInput } from 'aws-cdk-lib/aws-stepfunctions';
-import { StepFunctionsStartExecution } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { CfnEventBusPolicy, IEventBus } from 'aws-cdk-lib/aws-events';
+import { IQueue } from 'aws-cdk-lib/aws-sqs';
+import { Chain, Choice, Condition, DefinitionBody, Fail, IChainable, IStateMachine, IntegrationPattern, Parallel, Pass, StateMachine, StateMachineType, Succeed, TaskInput } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService, StepFunctionsStartExecution } from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import { IConstruct } from 'constructs';
+import { IssueDeduplication, IssueDeduplicationProps } from './issue-deduplication';
+import { IssueEnrichment } from './issue-enrichment';
+import { IssueFailureHandling, IssueFailureHandlingProps } from './issue-failure-handling';
+import { IssueHandlerOverride } from './issue-handler-override';
+import { IssueMute, IssueMuteAction, IssueMuteOptions } from './issue-mute';
+import { AlertManagerAlert } from './issue-parsers/alert-manager-alert';
+import { IssueTracking, IssueTrackingProps } from './issue-tracking';
 import { IssueTrigger } from './issue-trigger';
+import { Workspace } from '../aps';
 import { SfnFn } from '../stepfunctions';
 
 
 export interface IIssueHandler extends IResource {
+  /**
+   * The queue that receives requests the handler was unable to deliver to
+   * an external service.
+   *
+   * Used to raise alarms when failure handling is enabled on an
+   * `IssueManager`.
+   */
+  readonly deadLetterQueue?: IQueue;
+
   readonly handler: IStateMachine;
   readonly name: string;
 }
@@ -19,35 +38,196 @@ export interface IIssueParser extends IResource {
 }
 
 export interface IssueManagerProps extends ResourceProps {
+  /**
+   * Configuration for preventing repeated occurrences of the same issue from
+   * being passed to issue handlers.
+   *
+   * @default Every issue is passed to the issue handlers
+   */
+  readonly deduplication?: IssueDeduplicationProps;
+
+  /**
+   * Handler overrides whose values are taken from the tags of the resource
+   * an issue was raised for.
+   *
+   * @see IssueEnrichment
+   *
+   * @default Handler overrides are only taken from issue triggers
+   */
+  readonly enrichments?: IssueHandlerOverride[];
+
+  /**
+   * The event bus that the issue manager should listen to for events that
+   * trigger issues.
+   *
+   * Use together with `sourceAccounts` or `sourceOrganizationId` and an
+   * `IssueForwarder` in each member account to handle issues for multiple
+   * accounts from a single issue manager.
+   *
+   * @default The default event bus for the account
+   */
+  readonly eventBus?: IEventBus;
+
+  /**
+   * Configuration for retrying issue handlers that fail and for keeping
+   * issues that couldn't be handled so that they aren't lost.
+   *
+   * When enabled, a handler that still fails after being retried doesn't
+   * prevent the remaining handlers from processing the issue.
+   *
+   * @default A handler failure causes the issue manager execution to fail
+   */
+  readonly failureHandling?: IssueFailureHandlingProps;
+
   readonly handlers?: IIssueHandler[];
+
+  /**
+   * Periods of time during which issues should not be passed to specific
+   * issue handlers.
+   *
+   * @default Issues are passed to handlers at all times
+   */
+  readonly mutes?: IssueMuteOptions[];
+
   readonly name?: string;
   readonly parsers?: IIssueParser[];
+
+  /**
+   * Accounts that are allowed to forward events to the event bus used by the
+   * issue manager.
+   *
+   * @default No additional accounts are allowed to send events
+   */
+  readonly sourceAccounts?: string[];
+
+  /**
+   * The ID of an AWS Organization whose accounts are allowed to forward
+   * events to the event bus used by the issue manager.
+   *
+   * @default No organization is allowed to send events
+   */
+  readonly sourceOrganizationId?: string;
+
   readonly timeout?: Duration;
+
+  /**
+   * Configuration for keeping track of the tickets and messages created by
+   * issue handlers so that they can be updated when an issue is resolved.
+   *
+   * @default References to created tickets and messages are not stored
+   */
+  readonly tracking?: IssueTrackingProps;
+}
+
+/**
+ * Criteria used to select the issues that should be sent to a set of issue
+ * handlers.
+ *
+ * When multiple criteria are given an issue must match all of them to be
+ * routed. When multiple values are given for a single criteria an issue only
+ * needs to match one of them.
+ */
+export interface IssueRouteOptions {
+  /**
+   * The accounts that issues must have been raised in.
+   *
+   * @default Issues from any account are routed
+   */
+  readonly accountIds?: string[];
+
+  /**
+   * The issue handlers that matching issues should be sent to.
+   */
+  readonly handlers: IIssueHandler[];
+
+  /**
+   * The match types of the issue parsers that issues must have been raised
+   * by, for example `GuardDutyFinding`.
+   *
+   * @default Issues of any type are routed
+   */
+  readonly matchTypes?: string[];
+
+  /**
+   * The regions that issues must have been raised in.
+   *
+   * @default Issues from any region are routed
+   */
+  readonly regions?: string[];
+
+  /**
+   * The standardized severities that issues must have, for example
+   * `CRITICAL` or `LOW`.
+   *
+   * @default Issues of any severity are routed
+   */
+  readonly severities?: string[];
+
+  /**
+   * Tags that the resource the issue was raised for must have.
+   *
+   * Tags are looked up using the Resource Groups Tagging API for the
+   * resources listed in the event that raised the issue. An issue matches
+   * when each of the given tags is found on at least one of those resources.
+   *
+   * Tags can only be found for resources in the account and region of the
+   * issue manager. Resources in other accounts or regions, including those of
+   * issues forwarded from other accounts, and lookups that fail are treated
+   * as having no tags.
+   *
+   * @default Issues are routed regardless of resource tags
+   */
+  readonly tags?: {[key: string]: string};
 }
 
 export class IssueManager extends Resource {
   // Internal properties
+  private readonly _enrichments: IssueEnrichment[];
   private readonly _handlers: IIssueHandler[];
+  private readonly _mutes: IssueMute[];
   private readonly _parsers: IIssueParser[];
+  private readonly _routes: IssueRouteOptions[];
 
   private readonly determineIssueType: Choice;
   private readonly executeIssueHandlers: Parallel;
   private readonly handleIssue: IChainable;
 
   // Input properties
+  public readonly eventBus?: IEventBus;
   public readonly name?: string;
   public readonly timeout?: Duration;
 
+  // Resource properties
+  public readonly deduplication?: IssueDeduplication;
+  public readonly failureHandling?: IssueFailureHandling;
+  public readonly tracking?: IssueTracking;
+
 
   public constructor(scope: IConstruct, id: string, props: IssueManagerProps = {}) {
     super(scope, id, props);
 
+    this._enrichments = [];
     this._handlers = [];
+    this._mutes = [];
     this._parsers = [];
+    this._routes = [];
 
+    this.eventBus = props.eventBus;
     this.name = props.name;
     this.timeout = props.timeout;
 
+    if (props.deduplication) {
+      this.deduplication = new IssueDeduplication(this, 'deduplication', props.deduplication);
+    }
+
+    if (props.failureHandling) {
+      this.failureHandling = new IssueFailureHandling(this, 'failure-handling', props.failureHandling);
+    }
+
+    if (props.tracking) {
+      this.tracking = new IssueTracking(this, 'tracking', props.tracking);
+    }
+
     const addMetadata = new Pass(this, 'add-metadata', {
       parameters: {
         'AWS_STEP_FUNCTIONS_STARTED_BY_EXECUTION_ID.$': '$$.Execution.Id',
@@ -72,13 +252,32 @@ export class IssueManager extends Resource {
       .next(this.determineIssueType
         .otherwise(unknownIssueType));
 
+    // Details about the event that raised the issue which are made available
+    // to all handlers alongside the output of the issue parser.
+    const addContext = new Pass(this, 'add-context', {
+      parameters: {
+        'AccountId.$': '$.Event.account',
+        'MatchType.$': '$.Type',
+        'Region.$': '$.Event.region',
+      },
+      resultPath: '$.Context',
+    });
+
     this.handleIssue = checkAlert
       .when(Condition.and(
         Condition.isPresent('$.Issue.Output.Alert'),
         Condition.booleanEquals('$.Issue.Output.Alert', true),
-      ), this.executeIssueHandlers)
+      ), addContext)
       .otherwise(noAlert);
 
+    props.sourceAccounts?.forEach((x) => {
+      this.addSourceAccount(x);
+    });
+
+    if (props.sourceOrganizationId) {
+      this.addSourceOrganization(props.sourceOrganizationId);
+    }
+
     props.parsers?.forEach((x) => {
       this.addIssueParser(x);
     });
@@ -87,6 +286,14 @@ export class IssueManager extends Resource {
       this.addHandler(x);
     });
 
+    props.enrichments?.forEach((x) => {
+      this.addEnrichment(x);
+    });
+
+    props.mutes?.forEach((x) => {
+      this.addMute(x);
+    });
+
     Aspects.of(this).add({
       visit: (node: IConstruct) => {
         if (node === this) {
@@ -97,6 +304,17 @@ export class IssueManager extends Resource {
             ].join(' '));
           }
 
+          // Handlers, routes, mutes and suppressions can be registered at any point
+          // before synthesis so the stages that depend on them aren't added
+          // until the graph is rendered.
+          this._handlers.forEach((x) => {
+            this.executeIssueHandlers.branch(this.buildHandlerBranch(x));
+          });
+
+          const routeIssue = this.buildTagLookup()?.next(this.executeIssueHandlers) ?? this.executeIssueHandlers;
+          const handleIssue = this.deduplication?.bind(this, routeIssue) ?? routeIssue;
+          addContext.next(this.tracking?.bindKey(this).next(handleIssue) ?? handleIssue);
+
           const stateMachine = new StateMachine(this, 'state-machine', {
             definitionBody: DefinitionBody.fromChainable(identifyIssue),
             stateMachineName: this.name,
@@ -105,12 +323,65 @@ export class IssueManager extends Resource {
             tracingEnabled: true,
           });
 
+          this.failureHandling?.bindAlarms(stateMachine, this._handlers);
           this.addEventRules(stateMachine);
         }
       },
     });
   }
 
+  /**
+   * Raises issues for the alerts generated by an APS workspace so that they
+   * are handled alongside issues from other sources.
+   *
+   * Alerts are parsed using the `AlertManagerAlert` parser added to the
+   * issue manager. A parser is added using the event bus of the issue manager
+   * if one hasn't been added already.
+   *
+   * @param workspace A workspace that uses the default alert manager
+   * configuration.
+   * @returns The parser that handles alerts for the workspace.
+   */
+  public addAlertManagerWorkspace(workspace: Workspace): AlertManagerAlert {
+    const existing = this._parsers.find((x) => {
+      return x instanceof AlertManagerAlert;
+    }) as AlertManagerAlert | undefined;
+
+    const parser = existing ?? new AlertManagerAlert(this, 'alert-manager-alert', {
+      eventBus: this.eventBus,
+    });
+
+    if (!existing) {
+      this.addIssueParser(parser);
+    }
+
+    parser.addWorkspace(workspace);
+    return parser;
+  }
+
+  /**
+   * Adds handler overrides whose values are taken from the tags of the
+   * resource an issue was raised for.
+   *
+   * Tags are looked up using the Resource Groups Tagging API for the
+   * resources listed in the event that raised the issue. When a tag is found
+   * on more than one of those resources the first value found is used.
+   *
+   * Tags can only be found for resources in the account and region of the
+   * issue manager so enrichments aren't applied to resources in other
+   * accounts or regions, including those of issues forwarded from other
+   * accounts.
+   *
+   * @param override Overrides for an issue handler that reference resource
+   * tags using `IssueEnrichment.resourceTag`.
+   * @returns The enrichment that was added.
+   */
+  public addEnrichment(override: IssueHandlerOverride): IssueEnrichment {
+    const enrichment = new IssueEnrichment(override);
+    this._enrichments.push(enrichment);
+    return enrichment;
+  }
+
   /**
    * Adds a destination that handles issues that get passed to the issue
    * manager.
@@ -120,7 +391,123 @@ export class IssueManager extends Resource {
    */
   public addHandler(handler: IIssueHandler): void {
     this._handlers.push(handler);
+  }
+
+  /**
+   * Adds a parser that is used to transform incoming issues into a known
+   * format that can be passed to the destinations where they will be consumed
+   * by users.
+   *
+   * @param parser A parser that handles a specific type of event that should
+   * trigger an issue to be raised.
+   */
+  public addIssueParser(parser: IIssueParser): void {
+    this._parsers.push(parser);
+
+    const execution = new StepFunctionsStartExecution(this, `parse-${parser.matchType}`, {
+      input: TaskInput.fromJsonPathAt('$.Event'),
+      integrationPattern: IntegrationPattern.RUN_JOB,
+      resultPath: '$.Issue',
+      stateMachine: parser.handler,
+    });
+
+    this.determineIssueType
+      .when(Condition.stringEquals('$.Type', parser.matchType), execution
+        .next(this.handleIssue));
+  }
+
+  /**
+   * Allows an account to forward events to the event bus used by the issue
+   * manager.
+   *
+   * @param accountId The ID of the account that should be allowed to send
+   * events.
+   */
+  public addSourceAccount(accountId: string): void {
+    new CfnEventBusPolicy(this, `source-account-${accountId}`, {
+      action: 'events:PutEvents',
+      eventBusName: this.eventBus?.eventBusName ?? 'default',
+      principal: accountId,
+      statementId: `issue-manager-${this.node.addr.slice(0, 8)}-${accountId}`,
+    });
+  }
+
+  /**
+   * Allows all accounts in an AWS Organization to forward events to the event
+   * bus used by the issue manager.
+   *
+   * @param organizationId The ID of the organization whose accounts should be
+   * allowed to send events.
+   */
+  public addSourceOrganization(organizationId: string): void {
+    new CfnEventBusPolicy(this, `source-organization-${organizationId}`, {
+      action: 'events:PutEvents',
+      condition: {
+        key: 'aws:PrincipalOrgID',
+        type: 'StringEquals',
+        value: organizationId,
+      },
+      eventBusName: this.eventBus?.eventBusName ?? 'default',
+      principal: '*',
+      statementId: `issue-manager-${this.node.addr.slice(0, 8)}-${organizationId}`,
+    });
+  }
+
+  /**
+   * Stops issues from being passed to a set of issue handlers for a period
+   * of time.
+   *
+   * Muted issues are either dropped or held until the mute is no longer
+   * active depending on the action configured for the mute. Issues that are
+   * muted for one handler are still passed to any other handlers.
+   *
+   * @param options The handlers that should be muted and the period of time
+   * during which the mute should apply.
+   * @returns The mute that was added.
+   */
+  public addMute(options: IssueMuteOptions): IssueMute {
+    const mute = new IssueMute(this, `mute-${this._mutes.length}`, options);
+    this._mutes.push(mute);
+    return mute;
+  }
+
+  /**
+   * Restricts the issues that are passed to a set of issue handlers.
+   *
+   * Handlers that are included in one or more routes only receive issues
+   * that match at least one of those routes. Handlers that aren't included in
+   * any routes continue to receive every issue.
+   *
+   * @param options The criteria that issues must match and the handlers that
+   * matching issues should be passed to.
+   */
+  public addRoute(options: IssueRouteOptions): void {
+    if (options.handlers.length === 0) {
+      throw new Error([
+        'At least one issue handler is required when adding an issue route.',
+      ].join(' '));
+    }
+
+    const tags = Object.entries(options.tags ?? {});
+    if (tags.some(([key, value]) => key.includes("'") || value.includes("'"))) {
+      throw new Error([
+        'Tag keys and values used for routing issues cannot contain single',
+        'quotes.',
+      ].join(' '));
+    }
+
+    this._routes.push(options);
+  }
 
+  protected addEventRules(stateMachine: StateMachine): void {
+    this._parsers.forEach((parser) => {
+      parser.bind(this).forEach((trigger) => {
+        trigger.bind(stateMachine, this.eventBus);
+      });
+    });
+  }
+
+  private buildHandlerBranch(handler: IIssueHandler): IChainable {
     const defaultOverrides = new Pass(this, `default-overrides-${handler.name}`, {
       parameters: {
         Overrides: {},
@@ -142,44 +529,237 @@ export class IssueManager extends Resource {
 
     const execute = new StepFunctionsStartExecution(this, `execute-issue-handler-${handler.name}`, {
       input: TaskInput.fromJsonPathAt(SfnFn.jsonMerge(
-        '$.Handler.Overrides',
+        SfnFn.jsonMerge(
+          '$.Context',
+          '$.Handler.Overrides',
+        ),
         '$.Issue.Output',
       )),
       integrationPattern: IntegrationPattern.RUN_JOB,
+      resultPath: this.tracking ? '$.Execution' : undefined,
       stateMachine: handler.handler,
     });
 
-    this.executeIssueHandlers.branch(checkOverrides.next(execute));
+    this.failureHandling?.bindHandler(this, handler, execute);
+
+    const enrichOverrides = this._enrichments.filter((x) => {
+      return x.override.handler === handler;
+    }).reduce((chain, x, idx) => {
+      return chain.next(x.bind(this, `${handler.name}-${idx}`, this.tagPaths()));
+    }, checkOverrides);
+
+    const handleIssue = this.tracking ? enrichOverrides
+      .next(this.tracking.bindLookup(this, handler))
+      .next(execute)
+      .next(this.tracking.bindRecord(this, handler)) : enrichOverrides
+      .next(execute);
+
+    const deliverIssue = this.buildMuteCheck(handler, handleIssue);
+
+    const routes = this._routes.filter((x) => {
+      return x.handlers.includes(handler);
+    });
+
+    if (routes.length === 0) {
+      return deliverIssue;
+    }
+
+    const notRouted = new Succeed(this, `not-routed-${handler.name}`);
+
+    const checkRoutes = new Choice(this, `check-routes-${handler.name}`);
+
+    routes.forEach((x) => {
+      checkRoutes.when(this.buildRouteCondition(x), deliverIssue);
+    });
+
+    return checkRoutes
+      .otherwise(notRouted);
   }
 
   /**
-   * Adds a parser that is used to transform incoming issues into a known
-   * format that can be passed to the destinations where they will be consumed
-   * by users.
+   * Builds the states that drop or hold issues while a mute that applies to
+   * a handler is active.
    *
-   * @param parser A parser that handles a specific type of event that should
-   * trigger an issue to be raised.
+   * Mutes that drop issues are checked first so that an issue matching both
+   * kinds of mute isn't held only to be dropped later.
    */
-  public addIssueParser(parser: IIssueParser): void {
-    this._parsers.push(parser);
+  private buildMuteCheck(handler: IIssueHandler, handleIssue: IChainable): IChainable {
+    const mutes = this._mutes.filter((x) => {
+      return x.handlers.includes(handler);
+    }).sort((a, b) => {
+      return Number(a.action === IssueMuteAction.DEFER) - Number(b.action === IssueMuteAction.DEFER);
+    });
 
-    const execution = new StepFunctionsStartExecution(this, `parse-${parser.matchType}`, {
-      input: TaskInput.fromJsonPathAt('$.Event'),
-      integrationPattern: IntegrationPattern.RUN_JOB,
-      resultPath: '$.Issue',
-      stateMachine: parser.handler,
+    if (mutes.length === 0) {
+      return handleIssue;
+    }
+
+    const checkMutes = new Choice(this, `check-mutes-${handler.name}`);
+
+    const [firstEvaluation, ...evaluations] = mutes.map((x) => {
+      return x.bindEvaluation(this, handler, this.muteResultPath(x));
+    }).filter((x): x is IChainable => x !== undefined);
+
+    const evaluateMutes = firstEvaluation ? evaluations.reduce<Chain>((chain, x) => {
+      return chain.next(x);
+    }, Chain.start(firstEvaluation)).next(checkMutes) : checkMutes;
+
+    mutes.forEach((x) => {
+      const muted = x.action === IssueMuteAction.DEFER ? x.bindWait(this, handler)
+        .next(evaluateMutes) : new Succeed(this, `muted-${x.node.id}-${handler.name}`);
+
+      checkMutes.when(x.bindCondition(this.muteResultPath(x)), muted);
     });
 
-    this.determineIssueType
-      .when(Condition.stringEquals('$.Type', parser.matchType), execution
-        .next(this.handleIssue));
+    checkMutes.otherwise(handleIssue);
+
+    return evaluateMutes;
   }
 
-  protected addEventRules(stateMachine: StateMachine): void {
-    this._parsers.forEach((parser) => {
-      parser.bind(this).forEach((trigger) => {
-        trigger.bind(stateMachine);
+  private muteResultPath(mute: IssueMute): string {
+    return `$.Mutes.Mute${this._mutes.indexOf(mute)}`;
+  }
+
+  private buildRouteCondition(route: IssueRouteOptions): Condition {
+    const conditions: Condition[] = [];
+
+    const addValues = (path: string, values?: string[]): void => {
+      if (values?.length) {
+        conditions.push(Condition.isPresent(path));
+        conditions.push(Condition.or(...values.map((x) => {
+          return Condition.stringEquals(path, x);
+        })));
+      }
+    };
+
+    addValues('$.Context.AccountId', route.accountIds);
+    addValues('$.Context.MatchType', route.matchTypes);
+    addValues('$.Context.Region', route.regions);
+    addValues('$.Issue.Output.Severity', route.severities?.map((x) => {
+      return x.toUpperCase();
+    }));
+
+    Object.entries(route.tags ?? {}).forEach(([key, value]) => {
+      conditions.push(Condition.booleanEquals(this.tagMatchPath(key, value), true));
+    });
+
+    return conditions.length === 0 ? Condition.isPresent('$.Issue.Output') : Condition.and(...conditions);
+  }
+
+  /**
+   * Builds the states that look up the tags of the resources an issue was
+   * raised for when any routes or enrichments make use of tags.
+   *
+   * The values found for each tag are stored as a list under
+   * `$.ResourceTags`. Choice states can't search arrays so the values of
+   * tags used for routing are then checked against each routed value ahead
+   * of time.
+   *
+   * A failed lookup is treated the same as resources without any tags so
+   * that the issue is still handled.
+   */
+  private buildTagLookup(): Chain | undefined {
+    const keys = this.tagKeys();
+    if (keys.length === 0) {
+      return undefined;
+    }
+
+    const tags = this.routedTags();
+
+    const checkResources = new Choice(this, 'check-resources');
+
+    const getResourceTags = new CallAwsService(this, 'get-resource-tags', {
+      action: 'getResources',
+      iamAction: 'tag:GetResources',
+      iamResources: [
+        '*',
+      ],
+      parameters: {
+        'ResourceARNList.$': '$.Event.resources',
+      },
+      resultPath: '$.ResourceTags',
+      resultSelector: Object.fromEntries(keys.map((x, idx) => {
+        return [`Key${idx}.$`, `$.ResourceTagMappingList[*].Tags[?(@.Key == '${x}')].Value`];
+      })),
+      service: 'resourcegroupstaggingapi',
+    });
+
+    getResourceTags.addRetry({
+      backoffRate: 2,
+      errors: [
+        'ResourceGroupsTaggingAPI.ThrottledException',
+      ],
+      interval: Duration.seconds(1),
+      maxAttempts: 3,
+    });
+
+    const noTags = new Pass(this, 'no-resource-tags', {
+      parameters: Object.fromEntries(keys.map((_x, idx) => {
+        return [`Key${idx}`, []];
+      })),
+      resultPath: '$.ResourceTags',
+    });
+
+    getResourceTags.addCatch(noTags, {
+      resultPath: '$.ResourceTags',
+    });
+
+    const lookupTags = checkResources
+      .when(Condition.isPresent('$.Event.resources[0]'), getResourceTags)
+      .otherwise(noTags)
+      .afterwards();
+
+    if (tags.length === 0) {
+      return lookupTags;
+    }
+
+    const evaluateTags = new Pass(this, 'evaluate-resource-tags', {
+      parameters: Object.fromEntries(tags.map((x) => {
+        return [`${x.id}.$`, SfnFn.arrayContains(`$.ResourceTags.Key${keys.indexOf(x.key)}`, x.value)];
+      })),
+      resultPath: '$.Routing',
+    });
+
+    return lookupTags
+      .next(evaluateTags);
+  }
+
+  private routedTags(): {id: string; key: string; value: string}[] {
+    const pairs = new Set<string>();
+    this._routes.forEach((route) => {
+      Object.entries(route.tags ?? {}).forEach((x) => {
+        pairs.add(JSON.stringify(x));
       });
     });
+
+    return [...pairs].map((x, idx) => {
+      const [key, value] = JSON.parse(x);
+      return {
+        id: `Tag${idx}`,
+        key: key,
+        value: value,
+      };
+    });
+  }
+
+  private tagKeys(): string[] {
+    return [...new Set([
+      ...this.routedTags().map((x) => x.key),
+      ...this._enrichments.flatMap((x) => x.tagKeys),
+    ])];
+  }
+
+  private tagPaths(): {[key: string]: string} {
+    return Object.fromEntries(this.tagKeys().map((x, idx) => {
+      return [x, `$.ResourceTags.Key${idx}`];
+    }));
+  }
+
+  private tagMatchPath(key: string, value: string): string {
+    const match = this.routedTags().find((x) => {
+      return x.key === key && x.value === value;
+    });
+
+    return `$.Routing.${match!.id}`;
   }
 }
\ No newline at end of file
@@ -0,0 +1,477 @@
+import { Duration, RemovalPolicy, Resource, Stack } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ITable, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { CfnSchedule } from 'aws-cdk-lib/aws-scheduler';
+import { Condition, IChainable, Wait, WaitTime } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { IIssueHandler } from './issue-manager';
+import { TimeIntervalEntry, TimeRange, Weekday } from '../aps';
+
+
+/**
+ * The ways that issues raised while a mute is active can be handled.
+ */
+export enum IssueMuteAction {
+  /**
+   * Issues are held until the mute is no longer active and are then passed
+   * to the handler.
+   */
+  DEFER = 'defer',
+
+  /**
+   * Issues are not passed to the handler.
+   */
+  DROP = 'drop'
+}
+
+/**
+ * Configuration for a period of time during which issues should not be
+ * passed to a set of issue handlers.
+ *
+ * When multiple criteria are given an issue must match all of them to be
+ * muted. When multiple values are given for a single criteria an issue only
+ * needs to match one of them.
+ */
+export interface IssueMuteOptions {
+  /**
+   * The accounts that issues should be muted for.
+   *
+   * @default Issues are muted regardless of account
+   */
+  readonly accountIds?: string[];
+
+  /**
+   * How issues that are raised while the mute is active should be handled.
+   *
+   * Mutes that defer issues must have an `end` or `intervals` so that the
+   * mute eventually stops applying.
+   *
+   * @default IssueMuteAction.DROP
+   */
+  readonly action?: IssueMuteAction;
+
+  /**
+   * The point in time at which the mute should stop being applied.
+   *
+   * @default The mute doesn't end
+   */
+  readonly end?: Date;
+
+  /**
+   * Standardized severities that should continue to be passed to the
+   * handlers while the mute is active, for example `CRITICAL`.
+   *
+   * @default Issues of every severity are muted
+   */
+  readonly exceptSeverities?: string[];
+
+  /**
+   * The issue handlers that should be muted.
+   */
+  readonly handlers: IIssueHandler[];
+
+  /**
+   * Recurring periods of time during which the mute is active, for example
+   * quiet hours overnight.
+   *
+   * Intervals can be restricted by time of day, days of the week or month,
+   * months and years. Days of the week and days of the month can't be
+   * combined in a single interval and days of the month must be positive.
+   *
+   * A window is only recorded as open when the schedule marking its start
+   * runs. A window that is already open when the mute is deployed doesn't
+   * mute any issues until the next time it opens.
+   *
+   * @default The mute is active at all times between `start` and `end`
+   */
+  readonly intervals?: TimeIntervalEntry[];
+
+  /**
+   * How often to check whether the mute is still active for issues that
+   * have been deferred.
+   *
+   * @default Duration.minutes(5)
+   */
+  readonly pollInterval?: Duration;
+
+  /**
+   * The point in time at which the mute should start being applied.
+   *
+   * @default The mute is applied immediately
+   */
+  readonly start?: Date;
+}
+
+/**
+ * A period of time during which issues are not passed to a set of issue
+ * handlers.
+ *
+ * One-off windows, such as planned maintenance, are configured using `start`
+ * and `end`. Recurring windows are configured using time intervals. Step
+ * Functions can't determine the day of the week for a point in time so
+ * recurring windows are tracked using EventBridge Scheduler schedules that
+ * record when each window opens and closes in a DynamoDB table which is
+ * checked when an issue is raised.
+ */
+export class IssueMute extends Resource {
+  public static readonly DEFAULT_POLL_INTERVAL: Duration = Duration.minutes(5);
+
+  private static readonly CRON_WEEKDAYS: Weekday[] = [
+    Weekday.SUNDAY,
+    Weekday.MONDAY,
+    Weekday.TUESDAY,
+    Weekday.WEDNESDAY,
+    Weekday.THURSDAY,
+    Weekday.FRIDAY,
+    Weekday.SATURDAY,
+  ];
+
+  // Internal properties
+  private readonly _accountIds: string[];
+  private readonly _exceptSeverities: string[];
+  private readonly _handlers: IIssueHandler[];
+  private readonly _intervals: TimeIntervalEntry[];
+
+  // Input properties
+  public readonly action: IssueMuteAction;
+  public readonly end?: Date;
+  public readonly pollInterval: Duration;
+  public readonly start?: Date;
+
+  // Resource properties
+  public readonly table?: ITable;
+
+  public get accountIds(): string[] {
+    return [...this._accountIds];
+  }
+
+  public get exceptSeverities(): string[] {
+    return [...this._exceptSeverities];
+  }
+
+  public get handlers(): IIssueHandler[] {
+    return [...this._handlers];
+  }
+
+  public get intervals(): TimeIntervalEntry[] {
+    return [...this._intervals];
+  }
+
+
+  public constructor(scope: IConstruct, id: string, options: IssueMuteOptions) {
+    super(scope, id);
+
+    if (options.handlers.length === 0) {
+      throw new Error([
+        'At least one issue handler is required when adding an issue mute.',
+      ].join(' '));
+    }
+
+    if (!options.start && !options.end && !options.intervals?.length) {
+      throw new Error([
+        'Issue mutes must specify a start time, an end time or at least one',
+        'time interval.',
+      ].join(' '));
+    }
+
+    if (options.start && options.end && options.start >= options.end) {
+      throw new Error([
+        'The start of an issue mute must be before the end of the mute.',
+      ].join(' '));
+    }
+
+    // A deferred issue is held until the mute stops applying, which never
+    // happens for a mute that has no end and no recurring windows.
+    if (options.action === IssueMuteAction.DEFER && !options.end && !options.intervals?.length) {
+      throw new Error([
+        'Issue mutes that defer issues must specify an end time or at least',
+        'one time interval.',
+      ].join(' '));
+    }
+
+    this._accountIds = [...options.accountIds ?? []];
+    this._exceptSeverities = (options.exceptSeverities ?? []).map((x) => {
+      return x.toUpperCase();
+    });
+    this._handlers = [...options.handlers];
+    this._intervals = [...options.intervals ?? []];
+
+    this.action = options.action ?? IssueMuteAction.DROP;
+    this.end = options.end;
+    this.pollInterval = options.pollInterval ?? IssueMute.DEFAULT_POLL_INTERVAL;
+    this.start = options.start;
+
+    if (this._intervals.length) {
+      this.table = new Table(this, 'table', {
+        billingMode: BillingMode.PAY_PER_REQUEST,
+        partitionKey: {
+          name: 'Window',
+          type: AttributeType.STRING,
+        },
+        removalPolicy: RemovalPolicy.DESTROY,
+      });
+
+      this.addSchedules();
+    }
+  }
+
+  /**
+   * Builds the condition that determines whether an issue is muted.
+   *
+   * @param resultPath The path that the result of the states created by
+   * `bindEvaluation` was written to.
+   * @returns A condition that matches issues that are muted.
+   */
+  public bindCondition(resultPath: string): Condition {
+    const conditions: Condition[] = [];
+
+    if (this._accountIds.length) {
+      conditions.push(Condition.isPresent('$.Context.AccountId'));
+      conditions.push(Condition.or(...this._accountIds.map((x) => {
+        return Condition.stringEquals('$.Context.AccountId', x);
+      })));
+    }
+
+    if (this._exceptSeverities.length) {
+      conditions.push(Condition.not(Condition.and(
+        Condition.isPresent('$.Issue.Output.Severity'),
+        Condition.or(...this._exceptSeverities.map((x) => {
+          return Condition.stringEquals('$.Issue.Output.Severity', x);
+        })),
+      )));
+    }
+
+    // The time the choice state was entered is used rather than the start of
+    // the execution so that deferred issues see the current time when the
+    // mute is checked again.
+    if (this.start) {
+      conditions.push(Condition.timestampGreaterThanEquals('$$.State.EnteredTime', this.start.toISOString()));
+    }
+
+    if (this.end) {
+      conditions.push(Condition.timestampLessThan('$$.State.EnteredTime', this.end.toISOString()));
+    }
+
+    if (this.table) {
+      conditions.push(Condition.numberGreaterThan(`${resultPath}.Count`, 0));
+    }
+
+    return conditions.length === 1 ? conditions[0] : Condition.and(...conditions);
+  }
+
+  /**
+   * Builds the states that check whether any of the recurring windows for
+   * the mute are currently open.
+   *
+   * @param scope The construct that the states should be created in.
+   * @param handler The issue handler that the mute is being checked for.
+   * @param resultPath The path that the number of open windows should be
+   * written to.
+   * @returns The states that check the windows, or `undefined` if the mute
+   * has no recurring windows.
+   */
+  public bindEvaluation(scope: IConstruct, handler: IIssueHandler, resultPath: string): IChainable | undefined {
+    if (!this.table) {
+      return undefined;
+    }
+
+    // A window is open if it has started more recently than it last ended.
+    // Windows that start as soon as the previous window ends record the same
+    // time for both so those are treated as open.
+    return new CallAwsService(scope, `evaluate-${this.node.id}-${handler.name}`, {
+      action: 'scan',
+      iamAction: 'dynamodb:Scan',
+      iamResources: [
+        this.table.tableArn,
+      ],
+      parameters: {
+        ConsistentRead: true,
+        FilterExpression: 'attribute_exists(StartedAt) AND (attribute_not_exists(EndedAt) OR StartedAt >= EndedAt)',
+        Select: 'COUNT',
+        TableName: this.table.tableName,
+      },
+      resultPath: resultPath,
+      resultSelector: {
+        'Count.$': '$.Count',
+      },
+      service: 'dynamodb',
+    });
+  }
+
+  /**
+   * Builds the state that holds a deferred issue before the mute is checked
+   * again.
+   *
+   * @param scope The construct that the state should be created in.
+   * @param handler The issue handler that the issue is being deferred for.
+   * @returns The state that waits for the poll interval.
+   */
+  public bindWait(scope: IConstruct, handler: IIssueHandler): Wait {
+    return new Wait(scope, `wait-${this.node.id}-${handler.name}`, {
+      time: WaitTime.duration(this.pollInterval),
+    });
+  }
+
+  /**
+   * Creates a pair of schedules for each recurring window that record when
+   * the window opens and closes.
+   *
+   * Windows can't be longer than a day so the schedule that closes a window
+   * runs every day. Closing a window that isn't open has no effect.
+   */
+  private addSchedules(): void {
+    const role = new Role(this, 'schedule-role', {
+      assumedBy: new ServicePrincipal('scheduler.amazonaws.com'),
+      description: 'Allows EventBridge Scheduler to record when issue mutes are active.',
+    });
+
+    this.table!.grantWriteData(role);
+
+    this._intervals.forEach((interval, idx) => {
+      if (interval.timeZone?.toLowerCase() === 'local') {
+        throw new Error([
+          "The 'Local' time zone is not supported for issue mutes. Use a",
+          'location from the IANA time zone database instead.',
+        ].join(' '));
+      }
+
+      if (!interval.times.length && !this.hasDayRestrictions(interval)) {
+        throw new Error([
+          'Time intervals used for issue mutes must restrict the times or',
+          'days that the mute is active.',
+        ].join(' '));
+      }
+
+      const times: TimeRange[] = interval.times.length ? interval.times : [{
+        end: '24:00',
+        start: '00:00',
+      }];
+
+      times.forEach((time, timeIdx) => {
+        const window = `${idx}-${timeIdx}`;
+        const start = this.parseTime(time.start);
+        const end = this.parseTime(time.end);
+
+        this.addSchedule(`open-${window}`, role, interval, window, 'StartedAt', [
+          `${start.minute}`,
+          `${start.hour % 24}`,
+          ...this.buildDayFields(interval),
+        ]);
+
+        this.addSchedule(`close-${window}`, role, interval, window, 'EndedAt', [
+          `${end.minute}`,
+          `${end.hour % 24}`,
+          '*',
+          '*',
+          '?',
+          '*',
+        ]);
+      });
+    });
+  }
+
+  private addSchedule(id: string, role: Role, interval: TimeIntervalEntry, window: string, attribute: string, fields: string[]): void {
+    new CfnSchedule(this, id, {
+      description: `Records when window ${window} of an issue mute ${attribute === 'StartedAt' ? 'opens' : 'closes'}.`,
+      flexibleTimeWindow: {
+        mode: 'OFF',
+      },
+      scheduleExpression: `cron(${fields.join(' ')})`,
+      scheduleExpressionTimezone: interval.timeZone,
+      target: {
+        arn: 'arn:aws:scheduler:::aws-sdk:dynamodb:updateItem',
+        input: Stack.of(this).toJsonString({
+          ExpressionAttributeNames: {
+            '#time': attribute,
+          },
+          ExpressionAttributeValues: {
+            ':time': {
+              S: '<aws.scheduler.scheduled-time>',
+            },
+          },
+          Key: {
+            Window: {
+              S: window,
+            },
+          },
+          TableName: this.table!.tableName,
+          UpdateExpression: 'SET #time = :time',
+        }),
+        roleArn: role.roleArn,
+      },
+    });
+  }
+
+  /**
+   * Builds the day of month, month, day of week and year fields of a cron
+   * expression that matches the days a time interval applies to.
+   */
+  private buildDayFields(interval: TimeIntervalEntry): string[] {
+    if (interval.daysOfTheMonth.length && interval.weekdays.length) {
+      throw new Error([
+        'Time intervals used for issue mutes cannot restrict both the days of',
+        'the week and the days of the month.',
+      ].join(' '));
+    }
+
+    if (interval.daysOfTheMonth.some((x) => x.start < 1 || x.end < x.start)) {
+      throw new Error([
+        'Days of the month used for issue mutes must be positive ranges.',
+      ].join(' '));
+    }
+
+    const range = (start: number, end?: number): string => {
+      return end === undefined || end === start ? `${start}` : `${start}-${end}`;
+    };
+
+    // Weekday ranges can wrap around the end of the week so they are expanded
+    // to a list of days.
+    const weekdays = new Set<number>();
+    interval.weekdays.forEach((x) => {
+      const start = IssueMute.CRON_WEEKDAYS.indexOf(x.start);
+      const end = IssueMute.CRON_WEEKDAYS.indexOf(x.end ?? x.start);
+      for (let day = start; day !== (end + 1) % 7; day = (day + 1) % 7) {
+        weekdays.add(day);
+      }
+    });
+
+    const daysOfMonth = interval.daysOfTheMonth.map((x) => range(x.start, x.end));
+    const months = interval.months.map((x) => range(x.start, x.end));
+    const years = interval.years.map((x) => range(x.start, x.end));
+
+    return [
+      daysOfMonth.length ? daysOfMonth.join(',') : (weekdays.size ? '?' : '*'),
+      months.length ? months.join(',') : '*',
+      weekdays.size ? [...weekdays].sort((a, b) => a - b).map((x) => x + 1).join(',') : '?',
+      years.length ? years.join(',') : '*',
+    ];
+  }
+
+  private hasDayRestrictions(interval: TimeIntervalEntry): boolean {
+    return [
+      interval.daysOfTheMonth,
+      interval.months,
+      interval.weekdays,
+      interval.years,
+    ].some((x) => x.length > 0);
+  }
+
+  private parseTime(time: string): {hour: number; minute: number} {
+    const match = time.match(/^(\d{2}):(\d{2})$/);
+    const hour = Number(match?.[1]);
+    const minute = Number(match?.[2]);
+
+    if (!match || minute > 59 || hour > 24 || (hour === 24 && minute !== 0)) {
+      throw new Error([
+        `Invalid time '${time}' used in an issue mute. Times must be in the`,
+        "format 'HH:MM' using 24 hour time.",
+      ].join(' '));
+    }
+
+    return {
+      hour: hour,
+      minute: minute,
+    };
+  }
+}
@@ -0,0 +1,338 @@
+import { Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+
+
+/**
+ * The severity of an IAM Access Analyzer finding.
+ *
+ * Access Analyzer does not assign severities to findings so the severity is
+ * derived from whether the finding grants public access or only grants
+ * access to specific external principals.
+ */
+export class AccessAnalyzerSeverity {
+  public static readonly EXTERNAL: AccessAnalyzerSeverity = AccessAnalyzerSeverity.of('EXTERNAL', false, 1, 'HIGH');
+  public static readonly PUBLIC: AccessAnalyzerSeverity = AccessAnalyzerSeverity.of('PUBLIC', true, 2, 'CRITICAL');
+
+  public static of(name: string, isPublic: boolean, priority: number, standardized: string): AccessAnalyzerSeverity {
+    return new AccessAnalyzerSeverity(name, isPublic, priority, standardized);
+  }
+
+
+  public readonly isPublic: boolean;
+  public readonly name: string;
+  public readonly priority: number;
+  public readonly standardized: string;
+
+  private constructor(name: string, isPublic: boolean, priority: number, standardized: string) {
+    this.isPublic = isPublic;
+    this.name = name;
+    this.priority = priority;
+    this.standardized = standardized;
+  }
+
+  public buildCondition(path: string): Condition {
+    return Condition.and(
+      Condition.isPresent(path),
+      Condition.booleanEquals(path, this.isPublic),
+    );
+  }
+}
+
+export interface IAccessAnalyzerSeverityConfiguration {
+  readonly levels: AccessAnalyzerSeverity[];
+}
+
+export class AccessAnalyzerSeverityConfiguration {
+  public static all(): IAccessAnalyzerSeverityConfiguration {
+    return {
+      levels: [...AccessAnalyzerFinding.SEVERITIES],
+    };
+  }
+
+  public static custom(...levels: AccessAnalyzerSeverity[]): IAccessAnalyzerSeverityConfiguration {
+    return {
+      levels: levels,
+    };
+  }
+
+  public static threshold(level: AccessAnalyzerSeverity): IAccessAnalyzerSeverityConfiguration {
+    return {
+      levels: AccessAnalyzerFinding.SEVERITIES.filter((x) => {
+        return x.priority >= level.priority;
+      }),
+    };
+  }
+}
+
+export interface AccessAnalyzerFindingEventOptions {
+  /**
+   * Whether findings that have been archived or resolved should also be
+   * passed to the issue manager.
+   *
+   * These findings are reported with a status of `RESOLVED` so that issue
+   * handlers which support it can close out any notifications that were
+   * previously raised for the finding.
+   *
+   * @default false
+   */
+  readonly includeResolved?: boolean;
+
+  readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The types of resource that the trigger should match findings for, for
+   * example `AWS::S3::Bucket` or `AWS::IAM::Role`.
+   *
+   * @default All resource types
+   */
+  readonly resourceTypes?: string[];
+
+  readonly severity?: IAccessAnalyzerSeverityConfiguration;
+}
+
+export interface AccessAnalyzerFindingProps extends IssueParserPluginBaseProps {}
+
+/**
+ * Parses external access findings published by IAM Access Analyzer.
+ *
+ * @see [Monitoring AWS Identity and Access Management Access Analyzer with Amazon EventBridge](https://docs.aws.amazon.com/IAM/latest/UserGuide/access-analyzer-eventbridge.html)
+ */
+export class AccessAnalyzerFinding extends IssueParserPluginBase implements IIssueParser {
+  public static readonly MATCH_TYPE: string = 'AccessAnalyzerFinding';
+  public static readonly SEVERITIES: AccessAnalyzerSeverity[] = [
+    AccessAnalyzerSeverity.EXTERNAL,
+    AccessAnalyzerSeverity.PUBLIC,
+  ];
+
+  // Input properties
+  public readonly name?: string;
+  public readonly timeout?: Duration;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: AccessAnalyzerFindingProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? AccessAnalyzerFinding.MATCH_TYPE,
+    });
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Detail.$': '$.detail',
+      },
+    });
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const mapStatus = this.buildStatusMap();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': '$.Detail.id',
+        'Severity.$': '$.Severity.Standardized',
+        'Status.$': '$.Status.Value',
+        'Summary.$': SfnFn.format('Access Analyzer - {} access to {}', [
+          '$.Severity.Name',
+          '$.Detail.resource',
+        ]),
+      },
+    });
+
+    const definition = extractDetail
+      .next(mapSeverity)
+      .next(buildDescription.render())
+      .next(mapStatus)
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  private addAccessDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('access', {
+      title: 'Access Granted',
+    });
+
+    section.addReference('principal', {
+      label: 'External Principal',
+      value: SfnFn.jsonToString('$.Detail.principal'),
+    });
+
+    section.addReference('action', {
+      label: 'Actions',
+      value: SfnFn.jsonToString('$.Detail.action'),
+    });
+
+    section.addReference('is-public', {
+      label: 'Public',
+      value: '$.Detail.isPublic',
+    });
+  }
+
+  private addResourceDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('resource', {
+      title: 'Resource',
+    });
+
+    section.addReference('type', {
+      label: 'Type',
+      value: '$.Detail.resourceType',
+    });
+
+    section.addReference('arn', {
+      label: 'ARN',
+      value: '$.Detail.resource',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      value: '$.Detail.accountId',
+    });
+
+    section.addReference('region', {
+      label: 'Region',
+      value: '$.Detail.region',
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: [
+        'IAM Access Analyzer has identified a resource that can be accessed',
+        'from outside of your zone of trust.',
+      ].join(' '),
+    });
+
+    this.addResourceDetails(builder);
+    this.addAccessDetails(builder);
+
+    return builder;
+  }
+
+  protected buildSeverityMap(): Chain {
+    const isPublicPath = '$.Detail.isPublic';
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    [...AccessAnalyzerFinding.SEVERITIES].reverse().forEach((x) => {
+      const setSeverity = new Pass(this, `set-${x.name.toLowerCase()}`, {
+        parameters: {
+          Name: x.name,
+          Standardized: x.standardized.toUpperCase(),
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(x.buildCondition(isPublicPath), setSeverity);
+    });
+
+    const setUnknown = new Pass(this, 'set-unknown', {
+      parameters: {
+        Name: 'UNKNOWN',
+        Standardized: 'UNKNOWN',
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkSeverity
+      .otherwise(setUnknown)
+      .afterwards();
+  }
+
+  /**
+   * Determines whether the finding is still active.
+   *
+   * Archived and resolved findings are reported as `RESOLVED` so that issue
+   * handlers which support it can close out any notifications that were
+   * previously raised for the finding.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(Condition.and(
+        Condition.isPresent('$.Detail.status'),
+        Condition.or(
+          Condition.stringEquals('$.Detail.status', 'ARCHIVED'),
+          Condition.stringEquals('$.Detail.status', 'RESOLVED'),
+        ),
+      ), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
+  public registerIssueTrigger(id: string, options: AccessAnalyzerFindingEventOptions = {}): IssueTrigger {
+    const severity = options.severity ?? AccessAnalyzerSeverityConfiguration.all();
+
+    if (severity.levels.length === 0) {
+      throw new Error([
+        'At least one severity level is required when creating an Access',
+        'Analyzer finding rule.',
+      ].join(' '));
+    }
+
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: {
+          isPublic: severity.levels.map((x) => {
+            return x.isPublic;
+          }),
+          resourceType: options.resourceTypes,
+          status: options.includeResolved ? [
+            'ACTIVE',
+            'ARCHIVED',
+            'RESOLVED',
+          ] : [
+            'ACTIVE',
+          ],
+        },
+        detailType: [
+          'Access Analyzer Finding',
+        ],
+        source: [
+          'aws.access-analyzer',
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
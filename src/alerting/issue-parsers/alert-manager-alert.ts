@@ -0,0 +1,500 @@
+import { IEventBus } from 'aws-cdk-lib/aws-events';
+import { ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { ITopic, Topic } from 'aws-cdk-lib/aws-sns';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { Workspace } from '../../aps';
+import { SfnFn } from '../../stepfunctions';
+import { definedFieldsOrUndefined } from '../../utils/formatting';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+import { TopicEventBridge } from '../lib';
+
+
+/**
+ * Renders a set of Alertmanager labels or annotations as a JSON object.
+ */
+const renderPairs = (ref: string): string => {
+  // The space keeps the opening brace from being read as part of the action
+  // and is removed by the trim marker.
+  return [
+    '{ ',
+    `{{- range $i, $p := ${ref}.SortedPairs }}`,
+    '{{ if $i }},{{ end }}{{ printf "%q" $p.Name }}:{{ printf "%q" $p.Value }}',
+    '{{- end -}}',
+    '}',
+  ].join('');
+};
+
+export interface AlertManagerAlertRuleOptions {
+  /**
+   * The names of the alerts the trigger should match. Matched against the
+   * `alertname` label shared by all alerts in a notification.
+   *
+   * @default All alerts
+   */
+  readonly alertNames?: string[];
+
+  readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The names of the Alertmanager receivers that the trigger should match
+   * notifications for.
+   *
+   * @default All receivers
+   */
+  readonly receivers?: string[];
+}
+
+export interface AlertManagerAlertProps extends IssueParserPluginBaseProps {
+  /**
+   * The standard severity used when the severity label of the alerts in a
+   * notification is missing or doesn't match an entry in the severity map.
+   *
+   * @default AlertManagerAlert.DEFAULT_SEVERITY
+   */
+  readonly defaultSeverity?: string;
+
+  /**
+   * The event bus that Alertmanager notifications are published to. Should
+   * be the same event bus used by the `IssueManager` the parser is added to.
+   *
+   * @default The default event bus for the account
+   */
+  readonly eventBus?: IEventBus;
+
+  /**
+   * The name of the label used to set the severity of an alert.
+   *
+   * @default AlertManagerAlert.DEFAULT_SEVERITY_LABEL
+   */
+  readonly severityLabel?: string;
+
+  /**
+   * A mapping of values of the severity label onto the standard severities
+   * supported by issue manager (`CRITICAL`, `HIGH`, `MEDIUM`, `LOW` or
+   * `INFO`).
+   *
+   * @default AlertManagerAlert.DEFAULT_SEVERITY_MAP
+   */
+  readonly severityMap?: {[key: string]: string};
+}
+
+/**
+ * Parses notifications sent by Prometheus Alertmanager to an SNS topic.
+ *
+ * Notifications sent to each topic added to the parser are published to an
+ * event bus using a `TopicEventBridge` where they can trigger the
+ * `IssueManager`.
+ *
+ * Notifications must be sent using `AlertManagerAlert.MESSAGE_TEMPLATE` as
+ * the message of the SNS destination. This is handled automatically for
+ * workspaces added using `addWorkspace`.
+ *
+ * Each notification is raised as a single issue covering all of the alerts
+ * in the Alertmanager group it was sent for. The summary and description of
+ * the issue are taken from the `summary` and `description` annotations
+ * shared by the alerts.
+ *
+ * @see [Alertmanager SNS configuration](https://prometheus.io/docs/alerting/latest/configuration/#sns_config)
+ */
+export class AlertManagerAlert extends IssueParserPluginBase implements IIssueParser {
+  public static readonly DEFAULT_SEVERITY: string = 'MEDIUM';
+  public static readonly DEFAULT_SEVERITY_LABEL: string = 'severity';
+  public static readonly DEFAULT_SEVERITY_MAP: {[key: string]: string} = {
+    critical: 'CRITICAL',
+    error: 'HIGH',
+    high: 'HIGH',
+    info: 'INFO',
+    low: 'LOW',
+    medium: 'MEDIUM',
+    warning: 'MEDIUM',
+  };
+  public static readonly DETAIL_TYPE: string = 'Alertmanager Notification';
+  public static readonly EVENT_SOURCE: string = 'cdke.alertmanager';
+  public static readonly MATCH_TYPE: string = 'AlertManagerAlert';
+
+  /**
+   * An Alertmanager template that renders a notification as a JSON document
+   * that can be read by the parser.
+   */
+  public static readonly MESSAGE_TEMPLATE: string = [
+    '{',
+    '"version":"1",',
+    '"status":{{ printf "%q" .Status }},',
+    '"receiver":{{ printf "%q" .Receiver }},',
+    '"groupKey":{{ printf "%q" .GroupKey }},',
+    '"externalURL":{{ printf "%q" .ExternalURL }},',
+    `"commonLabels":${renderPairs('.CommonLabels')},`,
+    `"commonAnnotations":${renderPairs('.CommonAnnotations')},`,
+    '"alerts":[',
+    '{{- range $i, $a := .Alerts }}{{ if $i }},{{ end }}{',
+    '"status":{{ printf "%q" $a.Status }},',
+    '"fingerprint":{{ printf "%q" $a.Fingerprint }},',
+    '"startsAt":{{ printf "%q" ($a.StartsAt.Format "2006-01-02T15:04:05Z07:00") }},',
+    '"generatorURL":{{ printf "%q" $a.GeneratorURL }},',
+    `"labels":${renderPairs('$a.Labels')},`,
+    `"annotations":${renderPairs('$a.Annotations')}`,
+    '}{{ end -}}',
+    ']',
+    '}',
+  ].join('');
+
+  // Internal properties
+  private _topicCount: number;
+
+  // Input properties
+  public readonly defaultSeverity: string;
+  public readonly eventBus?: IEventBus;
+  public readonly severityLabel: string;
+  public readonly severityMap: {[key: string]: string};
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: AlertManagerAlertProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? AlertManagerAlert.MATCH_TYPE,
+    });
+
+    this._topicCount = 0;
+
+    this.defaultSeverity = props.defaultSeverity ?? AlertManagerAlert.DEFAULT_SEVERITY;
+    this.eventBus = props.eventBus;
+    this.severityLabel = props.severityLabel ?? AlertManagerAlert.DEFAULT_SEVERITY_LABEL;
+    this.severityMap = props.severityMap ?? AlertManagerAlert.DEFAULT_SEVERITY_MAP;
+
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(this.severityLabel)) {
+      throw new Error([
+        `The severity label '${this.severityLabel}' is not a valid Prometheus`,
+        'label name.',
+      ].join(' '));
+    }
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Detail.$': '$.detail',
+      },
+    });
+
+    const mapSummary = this.buildSummary();
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const mapStatus = this.buildStatusMap();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': SfnFn.format('alertmanager/{}', [
+          SfnFn.hash('$.Detail.groupKey', 'SHA-256'),
+        ]),
+        'Severity.$': '$.Severity.Standardized',
+        'Status.$': '$.Status.Value',
+        'Summary.$': '$.Notification.Summary',
+        'Url.$': '$.Detail.externalURL',
+      },
+    });
+
+    const definition = extractDetail
+      .next(mapSummary)
+      .next(mapSeverity)
+      .next(buildDescription.render())
+      .next(mapStatus)
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  /**
+   * Publishes Alertmanager notifications sent to an SNS topic to the event
+   * bus used by the parser.
+   *
+   * @param topic A topic that Alertmanager sends notifications to using
+   * `AlertManagerAlert.MESSAGE_TEMPLATE` as the message.
+   * @returns The bridge that publishes notifications sent to the topic.
+   */
+  public addTopic(topic: ITopic): TopicEventBridge {
+    return new TopicEventBridge(this, `topic-${this._topicCount++}`, {
+      detailType: AlertManagerAlert.DETAIL_TYPE,
+      eventBus: this.eventBus,
+      rawMessageDelivery: true,
+      source: AlertManagerAlert.EVENT_SOURCE,
+      topic: topic,
+    });
+  }
+
+  /**
+   * Raises issues for the alerts generated by an APS workspace.
+   *
+   * A topic is added to the default receiver of the alert manager
+   * configuration of the workspace that receives notifications in the format
+   * expected by the parser. Notifications are sent for resolved alerts so
+   * that issues can be resolved. Other destinations of the workspace, such as
+   * its `alertTopic`, are left unchanged.
+   *
+   * @param workspace A workspace that uses the default alert manager
+   * configuration.
+   * @returns The topic that notifications are sent to.
+   */
+  public addWorkspace(workspace: Workspace): ITopic {
+    const configuration = workspace.alertManagerConfiguration;
+
+    if (!configuration) {
+      throw new Error([
+        `The APS workspace '${workspace.node.path}' doesn't use the default`,
+        'alert manager configuration. Add a topic to a receiver of the',
+        'workspace using AlertManagerAlert.MESSAGE_TEMPLATE as the message',
+        'and pass it to addTopic instead.',
+      ].join(' '));
+    }
+
+    const topic = new Topic(this, `workspace-${this._topicCount}-topic`);
+    topic.grantPublish(new ServicePrincipal('aps.amazonaws.com'));
+
+    configuration.defaultReceiver.addSnsTopic(topic, {
+      message: AlertManagerAlert.MESSAGE_TEMPLATE,
+      sendResolved: true,
+    });
+
+    this.addTopic(topic);
+
+    return topic;
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: '$.Notification.Description',
+    });
+
+    const section = builder.addSection('notification', {
+      title: 'Notification',
+    });
+
+    section.addReference('status', {
+      label: 'Status',
+      value: '$.Detail.status',
+    });
+
+    section.addReference('receiver', {
+      label: 'Receiver',
+      value: '$.Detail.receiver',
+    });
+
+    section.addReference('severity', {
+      label: 'Severity',
+      required: false,
+      value: `$.Detail.commonLabels.${this.severityLabel}`,
+    });
+
+    const iterator = builder.addIterator('alerts', {
+      arrayRef: '$.Detail.alerts',
+      resultPath: '$.Alerts',
+      title: 'Alerts',
+    });
+
+    iterator.addReference('name', {
+      label: 'Alert',
+      required: false,
+      value: '$.Item.labels.alertname',
+    });
+
+    iterator.addReference('summary', {
+      label: 'Summary',
+      required: false,
+      value: '$.Item.annotations.summary',
+    });
+
+    iterator.addReference('status', {
+      label: 'Status',
+      value: '$.Item.status',
+    });
+
+    iterator.addReference('starts-at', {
+      label: 'Started',
+      value: '$.Item.startsAt',
+    });
+
+    iterator.addReference('generator-url', {
+      label: 'Source',
+      required: false,
+      value: '$.Item.generatorURL',
+    });
+
+    return builder;
+  }
+
+  /**
+   * Determines the severity of the issue from the severity label shared by
+   * the alerts in the notification.
+   */
+  protected buildSeverityMap(): Chain {
+    const labelPath = `$.Detail.commonLabels.${this.severityLabel}`;
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    Object.entries(this.severityMap).forEach(([label, severity], idx) => {
+      const setSeverity = new Pass(this, `set-severity-${idx}`, {
+        parameters: {
+          Source: 'LABEL',
+          Standardized: severity.toUpperCase(),
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(Condition.and(
+        Condition.isPresent(labelPath),
+        Condition.stringEquals(labelPath, label),
+      ), setSeverity);
+    });
+
+    const setDefault = new Pass(this, 'set-severity-default', {
+      parameters: {
+        Source: 'DEFAULT',
+        Standardized: this.defaultSeverity.toUpperCase(),
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkSeverity
+      .otherwise(setDefault)
+      .afterwards();
+  }
+
+  /**
+   * Determines whether the alerts in the notification still require
+   * attention.
+   *
+   * Notifications for groups whose alerts have all been resolved are
+   * reported as `RESOLVED` so that issue handlers which support it can close
+   * out any notifications that were previously raised for the group.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(Condition.stringEquals('$.Detail.status', 'resolved'), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
+  /**
+   * Determines the summary and description of the issue from the
+   * annotations shared by the alerts in the notification.
+   */
+  protected buildSummary(): Chain {
+    const annotations = '$.Detail.commonAnnotations';
+    const labels = '$.Detail.commonLabels';
+
+    const checkSummary = new Choice(this, 'check-summary');
+
+    const setFromAnnotation = new Pass(this, 'set-summary-from-annotation', {
+      parameters: {
+        'Summary.$': `${annotations}.summary`,
+      },
+      resultPath: '$.Notification',
+    });
+
+    const setFromAlertName = new Pass(this, 'set-summary-from-alert-name', {
+      parameters: {
+        'Summary.$': SfnFn.format('Prometheus Alert - {}', [
+          `${labels}.alertname`,
+        ]),
+      },
+      resultPath: '$.Notification',
+    });
+
+    const setDefaultSummary = new Pass(this, 'set-summary-default', {
+      parameters: {
+        'Summary.$': SfnFn.format('Prometheus Alert - {} alerts for {}', [
+          SfnFn.arrayLength('$.Detail.alerts'),
+          '$.Detail.receiver',
+        ]),
+      },
+      resultPath: '$.Notification',
+    });
+
+    const checkDescription = new Choice(this, 'check-description');
+
+    const setDescriptionFromAnnotation = new Pass(this, 'set-description-from-annotation', {
+      parameters: {
+        'Description.$': `${annotations}.description`,
+        'Summary.$': '$.Notification.Summary',
+      },
+      resultPath: '$.Notification',
+    });
+
+    const setDefaultDescription = new Pass(this, 'set-description-default', {
+      parameters: {
+        'Description': 'Prometheus Alertmanager sent a notification for the following alerts.',
+        'Summary.$': '$.Notification.Summary',
+      },
+      resultPath: '$.Notification',
+    });
+
+    return checkSummary
+      .when(Condition.isPresent(`${annotations}.summary`), setFromAnnotation)
+      .when(Condition.isPresent(`${labels}.alertname`), setFromAlertName)
+      .otherwise(setDefaultSummary)
+      .afterwards()
+      .next(checkDescription
+        .when(Condition.isPresent(`${annotations}.description`), setDescriptionFromAnnotation)
+        .otherwise(setDefaultDescription)
+        .afterwards());
+  }
+
+  public registerIssueTrigger(id: string, options: AlertManagerAlertRuleOptions = {}): IssueTrigger {
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: definedFieldsOrUndefined({
+          commonLabels: definedFieldsOrUndefined({
+            alertname: options.alertNames,
+          }),
+          receiver: options.receivers,
+        }),
+        detailType: [
+          AlertManagerAlert.DETAIL_TYPE,
+        ],
+        source: [
+          AlertManagerAlert.EVENT_SOURCE,
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
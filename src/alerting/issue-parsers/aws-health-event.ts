@@ -0,0 +1,372 @@
+import { Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+
+
+/**
+ * The category of an AWS Health event. The category of the event is used to
+ * determine the standardized severity of the issue that gets raised.
+ *
+ * @see [EventType](https://docs.aws.amazon.com/health/latest/APIReference/API_EventType.html)
+ */
+export class AwsHealthEventCategory {
+  public static readonly ACCOUNT_NOTIFICATION: AwsHealthEventCategory = AwsHealthEventCategory.of('LOW', 'accountNotification', 10);
+  public static readonly INVESTIGATION: AwsHealthEventCategory = AwsHealthEventCategory.of('MEDIUM', 'investigation', 20);
+  public static readonly SCHEDULED_CHANGE: AwsHealthEventCategory = AwsHealthEventCategory.of('MEDIUM', 'scheduledChange', 30);
+  public static readonly ISSUE: AwsHealthEventCategory = AwsHealthEventCategory.of('HIGH', 'issue', 40);
+
+  public static of(standardized: string, original: string, priority: number): AwsHealthEventCategory {
+    return new AwsHealthEventCategory(standardized, original, priority);
+  }
+
+
+  public static all(): AwsHealthEventCategory[] {
+    return [...AwsHealthEvent.CATEGORIES];
+  }
+
+  public static custom(...levels: AwsHealthEventCategory[]): AwsHealthEventCategory[] {
+    return [...levels];
+  }
+
+  public static threshold(level: AwsHealthEventCategory): AwsHealthEventCategory[] {
+    return AwsHealthEvent.CATEGORIES.filter((x) => {
+      return x.priority >= level.priority;
+    });
+  }
+
+
+  public readonly original: string;
+  public readonly priority: number;
+  public readonly standardized: string;
+
+  private constructor(standardized: string, original: string, priority: number) {
+    this.original = original;
+    this.priority = priority;
+    this.standardized = standardized;
+  }
+
+  public buildCondition(path: string): Condition {
+    return Condition.and(
+      Condition.isPresent(path),
+      Condition.stringEquals(path, this.original),
+    );
+  }
+}
+
+export interface AwsHealthEventRuleOptions {
+  /**
+   * The categories of event that the trigger should match.
+   *
+   * @default AwsHealthEventCategory.all()
+   */
+  readonly categories?: AwsHealthEventCategory[];
+
+  /**
+   * The specific event type codes that the trigger should match, for example
+   * `AWS_EC2_INSTANCE_RETIREMENT_SCHEDULED`.
+   *
+   * @default All event types
+   */
+  readonly eventTypeCodes?: string[];
+
+  readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The services that the trigger should match events for, for example `EC2`
+   * or `RDS`.
+   *
+   * @default All services
+   */
+  readonly services?: string[];
+}
+
+export interface AwsHealthEventProps extends IssueParserPluginBaseProps {}
+
+/**
+ * Parses events published by AWS Health covering service issues, scheduled
+ * maintenance and account notifications.
+ *
+ * @see [Monitoring AWS Health events with Amazon EventBridge](https://docs.aws.amazon.com/health/latest/ug/cloudwatch-events-health.html)
+ */
+export class AwsHealthEvent extends IssueParserPluginBase implements IIssueParser {
+  public static readonly MATCH_TYPE: string = 'AwsHealthEvent';
+  public static readonly CATEGORIES: AwsHealthEventCategory[] = [
+    AwsHealthEventCategory.ACCOUNT_NOTIFICATION,
+    AwsHealthEventCategory.INVESTIGATION,
+    AwsHealthEventCategory.SCHEDULED_CHANGE,
+    AwsHealthEventCategory.ISSUE,
+  ];
+
+  // Input properties
+  public readonly name?: string;
+  public readonly timeout?: Duration;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: AwsHealthEventProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? AwsHealthEvent.MATCH_TYPE,
+    });
+
+    const eventUrl = [
+      'https://health.aws.amazon.com',
+      'health',
+      'home#',
+      'account',
+      'event-log?eventID={}&eventTab=details',
+    ].join('/');
+
+    // Not every Health event lists affected entities so an empty list is
+    // added to allow them to be iterated unconditionally.
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Defaults': {
+          affectedEntities: [],
+        },
+        'Event.$': '$',
+      },
+    });
+
+    const mergeDefaults = new Pass(this, 'merge-defaults', {
+      parameters: {
+        'Account.$': '$.Event.account',
+        'Detail.$': SfnFn.jsonMerge('$.Defaults', '$.Event.detail'),
+      },
+    });
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const mapStatus = this.buildStatusMap();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': SfnFn.format('{}/{}', [
+          '$.Detail.eventArn',
+          '$.Account',
+        ]),
+        'Severity.$': '$.Severity.Standardized',
+        'Status.$': '$.Status.Value',
+        'Summary.$': SfnFn.format('AWS Health - {} - {}', [
+          '$.Detail.service',
+          '$.Detail.eventTypeCode',
+        ]),
+        'Url.$': SfnFn.format(eventUrl, [
+          '$.Detail.eventArn',
+        ]),
+      },
+    });
+
+    const definition = extractDetail
+      .next(mergeDefaults)
+      .next(mapSeverity)
+      .next(buildDescription.render())
+      .next(mapStatus)
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  private addAffectedEntities(builder: DescriptionBuilder): void {
+    const iterator = builder.addIterator('affected-entities', {
+      arrayRef: '$.Detail.affectedEntities',
+      resultPath: '$.AffectedEntities',
+      title: 'Affected Entities',
+    });
+
+    iterator.addReference('entity-value', {
+      label: 'Entity',
+      value: '$.Item.entityValue',
+    });
+
+    iterator.addReference('status', {
+      label: 'Status',
+      required: false,
+      value: '$.Item.status',
+    });
+
+    iterator.addReference('last-updated-time', {
+      label: 'Last Updated',
+      required: false,
+      value: '$.Item.lastUpdatedTime',
+    });
+  }
+
+  private addEventDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('event', {
+      title: 'Event Information',
+    });
+
+    section.addReference('service', {
+      label: 'Service',
+      value: '$.Detail.service',
+    });
+
+    section.addReference('event-type-code', {
+      label: 'Event Type',
+      value: '$.Detail.eventTypeCode',
+    });
+
+    section.addReference('event-type-category', {
+      label: 'Category',
+      value: '$.Detail.eventTypeCategory',
+    });
+
+    section.addReference('status-code', {
+      label: 'Status',
+      required: false,
+      value: '$.Detail.statusCode',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      value: '$.Account',
+    });
+
+    section.addReference('region', {
+      label: 'Region',
+      required: false,
+      value: '$.Detail.eventRegion',
+    });
+
+    section.addReference('start-time', {
+      label: 'Start Time',
+      required: false,
+      value: '$.Detail.startTime',
+    });
+
+    section.addReference('end-time', {
+      label: 'End Time',
+      required: false,
+      value: '$.Detail.endTime',
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: '$.Detail.eventDescription[0].latestDescription',
+    });
+
+    this.addEventDetails(builder);
+    this.addAffectedEntities(builder);
+
+    return builder;
+  }
+
+  protected buildSeverityMap(): Chain {
+    const categoryPath = '$.Detail.eventTypeCategory';
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    [...AwsHealthEvent.CATEGORIES].reverse().forEach((x) => {
+      const setSeverity = new Pass(this, `set-${x.original.toLowerCase()}`, {
+        parameters: {
+          'Original.$': categoryPath,
+          'Standardized': x.standardized.toUpperCase(),
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(x.buildCondition(categoryPath), setSeverity);
+    });
+
+    const setUnknown = new Pass(this, 'set-unknown', {
+      parameters: {
+        Standardized: 'UNKNOWN',
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkSeverity
+      .otherwise(setUnknown)
+      .afterwards();
+  }
+
+  /**
+   * Determines whether the event is still ongoing.
+   *
+   * Events that AWS Health has marked as `closed` are reported as `RESOLVED`
+   * so that issue handlers which support it can close out any notifications
+   * that were previously raised for the event.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(Condition.and(
+        Condition.isPresent('$.Detail.statusCode'),
+        Condition.stringEquals('$.Detail.statusCode', 'closed'),
+      ), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
+  public registerIssueTrigger(id: string, options: AwsHealthEventRuleOptions = {}): IssueTrigger {
+    const categories = options.categories ?? AwsHealthEventCategory.all();
+
+    if (categories.length === 0) {
+      throw new Error([
+        'At least one event category is required when creating an AWS Health',
+        'event rule.',
+      ].join(' '));
+    }
+
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: {
+          eventTypeCategory: categories.map((x) => {
+            return x.original;
+          }),
+          eventTypeCode: options.eventTypeCodes,
+          service: options.services,
+        },
+        detailType: [
+          'AWS Health Event',
+        ],
+        source: [
+          'aws.health',
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
@@ -0,0 +1,455 @@
+import { ArnFormat } from 'aws-cdk-lib';
+import { IEventBus } from 'aws-cdk-lib/aws-events';
+import { ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Map, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+import { TopicEventBridge } from '../lib';
+
+
+/**
+ * A mapping of how far spend has exceeded a budget onto the standard
+ * severities supported by issue manager.
+ */
+export interface BudgetNotificationSeverityMap {
+  /**
+   * The severity used for notifications about forecasted spend.
+   */
+  readonly forecasted?: string;
+
+  /**
+   * The severity used when actual spend is at least the budgeted amount but
+   * less than 50% over it.
+   */
+  readonly overBudget?: string;
+
+  /**
+   * The severity used when actual spend is at least 50% over the budgeted
+   * amount but less than double it.
+   */
+  readonly overBudgetByHalf?: string;
+
+  /**
+   * The severity used when actual spend is at least double the budgeted
+   * amount.
+   */
+  readonly overBudgetByDouble?: string;
+
+  /**
+   * The severity used when actual spend has reached an alert threshold that
+   * is below the budgeted amount.
+   */
+  readonly underBudget?: string;
+}
+
+export interface BudgetNotificationRuleOptions {
+  readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The ARNs of the topics whose notifications the trigger should match.
+   *
+   * @default Notifications from all topics
+   */
+  readonly topics?: ITopic[];
+}
+
+export interface BudgetNotificationProps extends IssueParserPluginBaseProps {
+  /**
+   * The event bus that budget notifications are published to. Should be the
+   * same event bus used by the `IssueManager` the parser is added to.
+   *
+   * @default The default event bus for the account
+   */
+  readonly eventBus?: IEventBus;
+
+  /**
+   * The severities that should be used for notifications based on how far
+   * spend has exceeded the budget.
+   *
+   * @default BudgetNotification.DEFAULT_SEVERITY_MAP
+   */
+  readonly severityMap?: BudgetNotificationSeverityMap;
+}
+
+/**
+ * Parses the notifications that AWS Budgets sends to an SNS topic when a
+ * budget reaches one of its alert thresholds.
+ *
+ * Notifications sent to each topic added to the parser are published to an
+ * event bus using a `TopicEventBridge` where they can trigger the
+ * `IssueManager`.
+ *
+ * Budget notifications are sent as plain text so the details of the budget
+ * are looked up using the Budgets API. The severity of the issue scales with
+ * how far spend has exceeded the budgeted amount, compared in whole units of
+ * the budget currency.
+ *
+ * Unlike Cost Anomaly Detection, AWS Budgets doesn't report which services
+ * contributed to the spend so the description is limited to the details of
+ * the budget. Only the first 100 budgets in the account are searched when
+ * looking up the budget a notification was sent for.
+ *
+ * @see [Creating an Amazon SNS topic for budget notifications](https://docs.aws.amazon.com/cost-management/latest/userguide/budgets-sns-policy.html)
+ */
+export class BudgetNotification extends IssueParserPluginBase implements IIssueParser {
+  public static readonly DEFAULT_SEVERITY_MAP: BudgetNotificationSeverityMap = {
+    forecasted: 'LOW',
+    overBudget: 'MEDIUM',
+    overBudgetByDouble: 'CRITICAL',
+    overBudgetByHalf: 'HIGH',
+    underBudget: 'LOW',
+  };
+  public static readonly DETAIL_TYPE: string = 'Budget Notification';
+  public static readonly EVENT_SOURCE: string = 'cdke.budgets';
+  public static readonly MATCH_TYPE: string = 'BudgetNotification';
+
+  // Internal properties
+  private _topicCount: number;
+
+  // Input properties
+  public readonly eventBus?: IEventBus;
+  public readonly severityMap: BudgetNotificationSeverityMap;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: BudgetNotificationProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? BudgetNotification.MATCH_TYPE,
+    });
+
+    this._topicCount = 0;
+
+    this.eventBus = props.eventBus;
+    this.severityMap = {
+      ...BudgetNotification.DEFAULT_SEVERITY_MAP,
+      ...props.severityMap,
+    };
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'AccountId.$': '$.account',
+        'Lines.$': SfnFn.stringSplit('$.detail.Message', '\n'),
+        'Message.$': '$.detail.Message',
+        'MessageId.$': '$.detail.MessageId',
+        'Subject.$': '$.detail.Subject',
+      },
+    });
+
+    const describeBudgets = new CallAwsService(this, 'describe-budgets', {
+      action: 'describeBudgets',
+      iamAction: 'budgets:ViewBudget',
+      iamResources: [
+        this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          region: '',
+          resource: 'budget',
+          resourceName: '*',
+          service: 'budgets',
+        }),
+      ],
+      parameters: {
+        'AccountId.$': '$.AccountId',
+        'MaxResults': 100,
+      },
+      resultSelector: {
+        'Items.$': '$.Budgets',
+      },
+      resultPath: '$.Budgets',
+      service: 'budgets',
+    });
+
+    // The notification doesn't include the budget in a structured form so
+    // the budget is found by matching its name against the lines of the
+    // message.
+    const matchBudget = new Map(this, 'match-budget', {
+      itemsPath: '$.Budgets.Items',
+      parameters: {
+        'Budget.$': '$$.Map.Item.Value',
+        'Matched.$': SfnFn.arrayContains('$.Lines', SfnFn.format('Budget Name: {}', [
+          '$$.Map.Item.Value.BudgetName',
+        ])),
+      },
+      resultSelector: {
+        'Items.$': '$[?(@.Matched == true)].Budget',
+      },
+      resultPath: '$.Budgets',
+    });
+
+    const checkBudget = new Choice(this, 'check-budget');
+
+    const extractBudget = new Pass(this, 'extract-budget', {
+      parameters: {
+        'Forecasted.$': SfnFn.arrayContains('$.Lines', 'Alert Type: FORECASTED'),
+        'Name.$': '$.Budgets.Items[0].BudgetName',
+        'TimeUnit.$': '$.Budgets.Items[0].TimeUnit',
+        'Type.$': '$.Budgets.Items[0].BudgetType',
+      },
+      resultPath: '$.Budget',
+    });
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': SfnFn.format('budgets/{}/{}', [
+          '$.AccountId',
+          '$.Budget.Name',
+        ]),
+        'Severity.$': '$.Severity.Standardized',
+        'Status': 'OPEN',
+        'Summary.$': '$.Subject',
+        'Url': 'https://console.aws.amazon.com/billing/home#/budgets',
+      },
+    });
+
+    // Notifications for budgets that can't be found are raised using the
+    // text of the notification as it was sent.
+    const formatMessageOutput = new Pass(this, 'format-message-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Message',
+        'Id.$': SfnFn.format('budgets/{}/{}', [
+          '$.AccountId',
+          '$.MessageId',
+        ]),
+        'Severity': this.severityMap.overBudget,
+        'Status': 'OPEN',
+        'Summary.$': '$.Subject',
+        'Url': 'https://console.aws.amazon.com/billing/home#/budgets',
+      },
+    });
+
+    const definition = extractDetail
+      .next(describeBudgets)
+      .next(matchBudget.iterator(new Pass(this, 'match-budget-item')))
+      .next(checkBudget
+        .when(Condition.isPresent('$.Budgets.Items[0]'), extractBudget
+          .next(mapSeverity)
+          .next(buildDescription.render())
+          .next(formatOutput))
+        .otherwise(formatMessageOutput));
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  /**
+   * Publishes the notifications AWS Budgets sends to an SNS topic to the
+   * event bus used by the parser.
+   *
+   * AWS Budgets is granted permission to publish to the topic if the topic
+   * was created in the same stack.
+   *
+   * @param topic A topic that is used for the notifications of one or more
+   * budgets.
+   * @returns The bridge that publishes notifications sent to the topic.
+   */
+  public addTopic(topic: ITopic): TopicEventBridge {
+    topic.grantPublish(new ServicePrincipal('budgets.amazonaws.com'));
+
+    return new TopicEventBridge(this, `topic-${this._topicCount++}`, {
+      detailType: BudgetNotification.DETAIL_TYPE,
+      eventBus: this.eventBus,
+      source: BudgetNotification.EVENT_SOURCE,
+      topic: topic,
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const budget = '$.Budgets.Items[0]';
+
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: SfnFn.format('The {} budget has reached one of its alert thresholds.', [
+        '$.Budget.Name',
+      ]),
+    });
+
+    const section = builder.addSection('budget', {
+      title: 'Budget',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      value: '$.Budget.Name',
+    });
+
+    section.addReference('type', {
+      label: 'Type',
+      value: '$.Budget.Type',
+    });
+
+    section.addReference('time-unit', {
+      label: 'Period',
+      value: '$.Budget.TimeUnit',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      value: '$.AccountId',
+    });
+
+    const spend = builder.addSection('spend', {
+      title: 'Spend',
+    });
+
+    spend.addReference('budgeted', {
+      label: 'Budgeted',
+      required: false,
+      value: `${budget}.BudgetLimit.Amount`,
+    });
+
+    spend.addReference('actual', {
+      label: 'Actual',
+      required: false,
+      value: `${budget}.CalculatedSpend.ActualSpend.Amount`,
+    });
+
+    // Forecasts aren't available for new budgets or for usage and
+    // reservation budgets.
+    spend.addReference('forecasted', {
+      label: 'Forecasted',
+      required: false,
+      value: `${budget}.CalculatedSpend.ForecastedSpend.Amount`,
+    });
+
+    spend.addReference('unit', {
+      label: 'Unit',
+      required: false,
+      value: `${budget}.BudgetLimit.Unit`,
+    });
+
+    return builder;
+  }
+
+  /**
+   * Determines the severity of the issue from how far actual spend has
+   * exceeded the budgeted amount.
+   *
+   * Step Functions only supports adding whole numbers so amounts are
+   * truncated to whole units and compared using multiples of the spend and
+   * the budgeted amount.
+   */
+  protected buildSeverityMap(): Chain {
+    const budget = '$.Budgets.Items[0]';
+
+    const wholeUnits = (path: string): string => {
+      return SfnFn.stringToJson(SfnFn.arrayGetItem(SfnFn.stringSplit(path, '.'), 0));
+    };
+
+    const checkForecast = new Choice(this, 'check-forecast');
+
+    const setForecasted = new Pass(this, 'set-forecasted', {
+      parameters: {
+        Standardized: this.severityMap.forecasted,
+      },
+      resultPath: '$.Severity',
+    });
+
+    const checkSpend = new Choice(this, 'check-spend');
+
+    const extractSpend = new Pass(this, 'extract-spend', {
+      parameters: {
+        'Actual.$': wholeUnits(`${budget}.CalculatedSpend.ActualSpend.Amount`),
+        'Limit.$': wholeUnits(`${budget}.BudgetLimit.Amount`),
+      },
+      resultPath: '$.Spend',
+    });
+
+    const scaleSpend = new Pass(this, 'scale-spend', {
+      parameters: {
+        'Actual.$': '$.Spend.Actual',
+        'DoubleActual.$': SfnFn.mathAdd('$.Spend.Actual', '$.Spend.Actual'),
+        'DoubleLimit.$': SfnFn.mathAdd('$.Spend.Limit', '$.Spend.Limit'),
+        'Limit.$': '$.Spend.Limit',
+        'TripleLimit.$': SfnFn.mathAdd(SfnFn.mathAdd('$.Spend.Limit', '$.Spend.Limit'), '$.Spend.Limit'),
+      },
+      resultPath: '$.Spend',
+    });
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    const setSeverity = (id: string, severity?: string): Pass => {
+      return new Pass(this, `set-${id}`, {
+        parameters: {
+          Standardized: severity,
+        },
+        resultPath: '$.Severity',
+      });
+    };
+
+    const severities = checkSeverity
+      .when(Condition.numberGreaterThanEqualsJsonPath('$.Spend.Actual', '$.Spend.DoubleLimit'),
+        setSeverity('over-budget-by-double', this.severityMap.overBudgetByDouble))
+      .when(Condition.numberGreaterThanEqualsJsonPath('$.Spend.DoubleActual', '$.Spend.TripleLimit'),
+        setSeverity('over-budget-by-half', this.severityMap.overBudgetByHalf))
+      .when(Condition.numberGreaterThanEqualsJsonPath('$.Spend.Actual', '$.Spend.Limit'),
+        setSeverity('over-budget', this.severityMap.overBudget))
+      .otherwise(setSeverity('under-budget', this.severityMap.underBudget))
+      .afterwards();
+
+    const setUnknown = new Pass(this, 'set-unknown', {
+      parameters: {
+        Standardized: this.severityMap.overBudget,
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkForecast
+      .when(Condition.booleanEquals('$.Budget.Forecasted', true), setForecasted)
+      .otherwise(checkSpend
+        .when(Condition.and(
+          Condition.isPresent(`${budget}.BudgetLimit.Amount`),
+          Condition.isPresent(`${budget}.CalculatedSpend.ActualSpend.Amount`),
+        ), extractSpend
+          .next(scaleSpend)
+          .next(severities))
+        .otherwise(setUnknown)
+        .afterwards())
+      .afterwards();
+  }
+
+  public registerIssueTrigger(id: string, options: BudgetNotificationRuleOptions = {}): IssueTrigger {
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: options.topics ? {
+          TopicArn: options.topics.map((x) => {
+            return x.topicArn;
+          }),
+        } : undefined,
+        detailType: [
+          BudgetNotification.DETAIL_TYPE,
+        ],
+        source: [
+          BudgetNotification.EVENT_SOURCE,
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
@@ -0,0 +1,592 @@
+import { Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IssueTrigger } from '../issue-trigger';
+
+
+export interface CloudTrailActivityRuleProps {
+  /**
+   * An explanation of why the activity matched by the rule is considered
+   * high risk. Included in the description of the issue.
+   *
+   * @default No explanation is included
+   */
+  readonly description?: string;
+
+  /**
+   * The names of the API calls recorded by CloudTrail that the rule matches.
+   */
+  readonly eventNames: string[];
+
+  /**
+   * The service that the API calls are made to as recorded in the
+   * `eventSource` field of the CloudTrail event. For example,
+   * `iam.amazonaws.com`.
+   */
+  readonly eventSource: string;
+
+  /**
+   * A short, human readable name for the rule.
+   */
+  readonly name: string;
+
+  /**
+   * Values that the request parameters of the API call must match, keyed by
+   * the name of the request parameter. A parameter matches if it is equal to
+   * any of the values given for it.
+   *
+   * @default The rule matches calls with any request parameters
+   */
+  readonly requestParameters?: {[key: string]: string[]};
+
+  /**
+   * Whether the rule should only match API calls made by the root user of
+   * the account.
+   *
+   * @default false
+   */
+  readonly rootOnly?: boolean;
+
+  /**
+   * The standardized severity of the issues raised for the activity matched
+   * by the rule.
+   */
+  readonly severity: string;
+}
+
+/**
+ * A set of CloudTrail management events that are considered high risk along
+ * with the severity of the issues raised when they are detected.
+ */
+export class CloudTrailActivityRule {
+  public static readonly ADMINISTRATOR_POLICY_ATTACHMENT: CloudTrailActivityRule = CloudTrailActivityRule.of({
+    description: [
+      'The AdministratorAccess managed policy was attached to an IAM',
+      'identity, granting it full access to the account.',
+    ].join(' '),
+    eventNames: [
+      'AttachGroupPolicy',
+      'AttachRolePolicy',
+      'AttachUserPolicy',
+    ],
+    eventSource: 'iam.amazonaws.com',
+    name: 'Administrator Policy Attached',
+    requestParameters: {
+      policyArn: [
+        'arn:aws:iam::aws:policy/AdministratorAccess',
+      ],
+    },
+    severity: 'HIGH',
+  });
+
+  public static readonly CLOUDTRAIL_DISABLED: CloudTrailActivityRule = CloudTrailActivityRule.of({
+    description: [
+      'A CloudTrail trail was stopped or deleted, preventing API activity in',
+      'the account from being audited.',
+    ].join(' '),
+    eventNames: [
+      'DeleteTrail',
+      'StopLogging',
+    ],
+    eventSource: 'cloudtrail.amazonaws.com',
+    name: 'CloudTrail Disabled',
+    severity: 'CRITICAL',
+  });
+
+  public static readonly GUARD_DUTY_DISABLED: CloudTrailActivityRule = CloudTrailActivityRule.of({
+    description: [
+      'A GuardDuty detector was deleted or disassociated from its',
+      'administrator account, preventing threats in the account from being',
+      'detected.',
+    ].join(' '),
+    eventNames: [
+      'DeleteDetector',
+      'DisassociateFromAdministratorAccount',
+      'DisassociateFromMasterAccount',
+    ],
+    eventSource: 'guardduty.amazonaws.com',
+    name: 'GuardDuty Disabled',
+    severity: 'CRITICAL',
+  });
+
+  public static readonly MFA_DEACTIVATION: CloudTrailActivityRule = CloudTrailActivityRule.of({
+    description: [
+      'An MFA device was deactivated or deleted, reducing the protection of',
+      'the credentials of an IAM identity.',
+    ].join(' '),
+    eventNames: [
+      'DeactivateMFADevice',
+      'DeleteVirtualMFADevice',
+    ],
+    eventSource: 'iam.amazonaws.com',
+    name: 'MFA Deactivated',
+    severity: 'HIGH',
+  });
+
+  public static readonly ROOT_ACCESS_KEY_CREATION: CloudTrailActivityRule = CloudTrailActivityRule.of({
+    description: [
+      'An access key was created for the root user. Root access keys grant',
+      'unrestricted access to the account and should not be used.',
+    ].join(' '),
+    eventNames: [
+      'CreateAccessKey',
+    ],
+    eventSource: 'iam.amazonaws.com',
+    name: 'Root Access Key Created',
+    rootOnly: true,
+    severity: 'CRITICAL',
+  });
+
+  public static readonly ROOT_CONSOLE_LOGIN: CloudTrailActivityRule = CloudTrailActivityRule.of({
+    description: [
+      'The root user signed in to the AWS Management Console. The root user',
+      'should only be used for the few tasks that require it.',
+    ].join(' '),
+    eventNames: [
+      'ConsoleLogin',
+    ],
+    eventSource: 'signin.amazonaws.com',
+    name: 'Root Console Login',
+    rootOnly: true,
+    severity: 'HIGH',
+  });
+
+  public static of(props: CloudTrailActivityRuleProps): CloudTrailActivityRule {
+    return new CloudTrailActivityRule(props);
+  }
+
+
+  public readonly description?: string;
+  public readonly eventNames: string[];
+  public readonly eventSource: string;
+  public readonly name: string;
+  public readonly requestParameters?: {[key: string]: string[]};
+  public readonly rootOnly: boolean;
+  public readonly severity: string;
+
+  /**
+   * The source of the EventBridge events generated for the API calls matched
+   * by the rule.
+   */
+  public readonly source: string;
+
+  private constructor(props: CloudTrailActivityRuleProps) {
+    if (props.eventNames.length === 0) {
+      throw new Error([
+        `The CloudTrail activity rule '${props.name}' must match at least one`,
+        'event name.',
+      ].join(' '));
+    }
+
+    if (!props.eventSource.endsWith('.amazonaws.com')) {
+      throw new Error([
+        `The event source '${props.eventSource}' of the CloudTrail activity`,
+        `rule '${props.name}' is not valid. Event sources should be in the`,
+        "form 'service.amazonaws.com'.",
+      ].join(' '));
+    }
+
+    this.description = props.description;
+    this.eventNames = props.eventNames;
+    this.eventSource = props.eventSource;
+    this.name = props.name;
+    this.requestParameters = props.requestParameters;
+    this.rootOnly = props.rootOnly ?? false;
+    this.severity = props.severity;
+    this.source = `aws.${props.eventSource.split('.')[0]}`;
+  }
+
+  /**
+   * Creates a copy of the rule that raises issues with a different severity.
+   *
+   * @param severity The standardized severity of the issues raised by the
+   * new rule.
+   * @returns The new rule.
+   */
+  public withSeverity(severity: string): CloudTrailActivityRule {
+    return CloudTrailActivityRule.of({
+      description: this.description,
+      eventNames: this.eventNames,
+      eventSource: this.eventSource,
+      name: this.name,
+      requestParameters: this.requestParameters,
+      rootOnly: this.rootOnly,
+      severity: severity,
+    });
+  }
+
+  /**
+   * Builds a Step Functions condition that matches the CloudTrail events
+   * matched by the rule.
+   *
+   * @param path The path to the detail of the CloudTrail event.
+   * @returns The condition.
+   */
+  public buildCondition(path: string): Condition {
+    const conditions = [
+      Condition.stringEquals(`${path}.eventSource`, this.eventSource),
+      Condition.or(...this.eventNames.map((x) => {
+        return Condition.stringEquals(`${path}.eventName`, x);
+      })),
+    ];
+
+    if (this.rootOnly) {
+      conditions.push(
+        Condition.isPresent(`${path}.userIdentity.type`),
+        Condition.stringEquals(`${path}.userIdentity.type`, 'Root'),
+      );
+    }
+
+    Object.entries(this.requestParameters ?? {}).forEach(([key, values]) => {
+      conditions.push(
+        Condition.isPresent(`${path}.requestParameters.${key}`),
+        Condition.or(...values.map((x) => {
+          return Condition.stringEquals(`${path}.requestParameters.${key}`, x);
+        })),
+      );
+    });
+
+    return Condition.and(...conditions);
+  }
+
+  /**
+   * Builds an EventBridge pattern for the detail of the CloudTrail events
+   * matched by the rule.
+   *
+   * @returns The pattern.
+   */
+  public buildDetailPattern(): {[key: string]: any} {
+    return {
+      eventName: this.eventNames,
+      eventSource: [
+        this.eventSource,
+      ],
+      ...(this.requestParameters ? { requestParameters: this.requestParameters } : {}),
+      ...(this.rootOnly ? { userIdentity: { type: ['Root'] } } : {}),
+    };
+  }
+}
+
+export interface CloudTrailActivityRuleOptions {
+  readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The rules whose activity the trigger should match. Each of the rules
+   * must also be configured on the parser.
+   *
+   * @default All of the rules configured on the parser
+   */
+  readonly rules?: CloudTrailActivityRule[];
+}
+
+export interface CloudTrailActivityProps extends IssueParserPluginBaseProps {
+  /**
+   * The rules defining the CloudTrail activity that should be raised as
+   * issues.
+   *
+   * Custom rules can be added to the bundled rules by including
+   * `CloudTrailActivity.DEFAULT_RULES` in the list.
+   *
+   * @default CloudTrailActivity.DEFAULT_RULES
+   */
+  readonly rules?: CloudTrailActivityRule[];
+}
+
+/**
+ * Parses high risk management events recorded by CloudTrail and delivered
+ * through EventBridge.
+ *
+ * This provides basic detective controls for accounts that don't have
+ * GuardDuty enabled. Events are only delivered to EventBridge for accounts
+ * that have a trail configured and events for global services such as IAM
+ * and sign in are only delivered in the `us-east-1` region.
+ *
+ * @see [Events from AWS services delivered via AWS CloudTrail](https://docs.aws.amazon.com/eventbridge/latest/userguide/eb-service-event.html#eb-service-event-cloudtrail)
+ */
+export class CloudTrailActivity extends IssueParserPluginBase {
+  public static readonly DEFAULT_RULES: CloudTrailActivityRule[] = [
+    CloudTrailActivityRule.ROOT_CONSOLE_LOGIN,
+    CloudTrailActivityRule.ROOT_ACCESS_KEY_CREATION,
+    CloudTrailActivityRule.MFA_DEACTIVATION,
+    CloudTrailActivityRule.CLOUDTRAIL_DISABLED,
+    CloudTrailActivityRule.GUARD_DUTY_DISABLED,
+    CloudTrailActivityRule.ADMINISTRATOR_POLICY_ATTACHMENT,
+  ];
+  public static readonly MATCH_TYPE: string = 'CloudTrailActivity';
+
+  // Input properties
+  public readonly name?: string;
+  public readonly rules: CloudTrailActivityRule[];
+  public readonly timeout?: Duration;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: CloudTrailActivityProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? CloudTrailActivity.MATCH_TYPE,
+    });
+
+    this.rules = props.rules ?? CloudTrailActivity.DEFAULT_RULES;
+
+    if (this.rules.length === 0) {
+      throw new Error([
+        'At least one rule must be configured for the CloudTrail activity',
+        'parser.',
+      ].join(' '));
+    }
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Detail.$': '$.detail',
+      },
+    });
+
+    const matchRule = this.buildRuleMap();
+
+    const buildDescription = this.buildDescription();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': '$.Detail.eventID',
+        'Severity.$': '$.Rule.Severity',
+        'Status': 'OPEN',
+        'Summary.$': SfnFn.format('CloudTrail - {} - {}', [
+          '$.Rule.Name',
+          '$.Detail.eventName',
+        ]),
+        'Url.$': SfnFn.format(this.buildEventUrl(), [
+          '$.Detail.awsRegion',
+          '$.Detail.awsRegion',
+          '$.Detail.eventID',
+        ]),
+      },
+    });
+
+    const definition = extractDetail
+      .next(matchRule)
+      .next(buildDescription.render())
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  private addActivityDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('activity', {
+      title: 'Activity',
+    });
+
+    section.addReference('event-name', {
+      label: 'Event',
+      value: '$.Detail.eventName',
+    });
+
+    section.addReference('event-source', {
+      label: 'Service',
+      value: '$.Detail.eventSource',
+    });
+
+    section.addReference('event-time', {
+      label: 'Time',
+      required: false,
+      value: '$.Detail.eventTime',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      required: false,
+      value: '$.Detail.recipientAccountId',
+    });
+
+    section.addReference('region', {
+      label: 'Region',
+      required: false,
+      value: '$.Detail.awsRegion',
+    });
+
+    section.addReference('source-ip', {
+      label: 'Source IP',
+      required: false,
+      value: '$.Detail.sourceIPAddress',
+    });
+
+    section.addReference('user-agent', {
+      label: 'User Agent',
+      required: false,
+      value: '$.Detail.userAgent',
+    });
+
+    section.addReference('error-code', {
+      label: 'Error',
+      required: false,
+      value: '$.Detail.errorCode',
+    });
+  }
+
+  private addIdentityDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('identity', {
+      referenceChecks: [
+        '$.Detail.userIdentity',
+      ],
+      title: 'Identity',
+    });
+
+    section.addReference('type', {
+      label: 'Type',
+      required: false,
+      value: '$.Detail.userIdentity.type',
+    });
+
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: '$.Detail.userIdentity.arn',
+    });
+
+    section.addReference('access-key', {
+      label: 'Access Key',
+      required: false,
+      value: '$.Detail.userIdentity.accessKeyId',
+    });
+
+    section.addReference('invoked-by', {
+      label: 'Invoked By',
+      required: false,
+      value: '$.Detail.userIdentity.invokedBy',
+    });
+  }
+
+  private addRuleDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('rule', {
+      title: 'Rule',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      value: '$.Rule.Name',
+    });
+
+    section.addReference('description', {
+      label: 'Description',
+      required: false,
+      value: '$.Rule.Description',
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: SfnFn.format('CloudTrail recorded high risk activity matching the rule \'{}\'.', [
+        '$.Rule.Name',
+      ]),
+    });
+
+    this.addRuleDetails(builder);
+    this.addActivityDetails(builder);
+    this.addIdentityDetails(builder);
+
+    return builder;
+  }
+
+  /**
+   * Builds a template for the URL of an event in the CloudTrail console
+   * where the `{}` placeholders are replaced with the region of the event
+   * (twice) followed by the ID of the event.
+   */
+  private buildEventUrl(): string {
+    return [
+      'https://{}.console.aws.amazon.com',
+      'cloudtrail',
+      'home?region={}#',
+      'events',
+      '{}',
+    ].join('/');
+  }
+
+  /**
+   * Determines which of the configured rules the event matched and sets the
+   * name, description and severity of the rule under `$.Rule`.
+   *
+   * Rules are checked in the order they were configured so the first
+   * matching rule takes precedence.
+   */
+  protected buildRuleMap(): Chain {
+    const matchRule = new Choice(this, 'match-rule');
+
+    this.rules.forEach((x, idx) => {
+      const setRule = new Pass(this, `set-rule-${idx}`, {
+        parameters: {
+          ...(x.description ? { Description: x.description } : {}),
+          Name: x.name,
+          Severity: x.severity,
+        },
+        resultPath: '$.Rule',
+      });
+
+      matchRule.when(x.buildCondition('$.Detail'), setRule);
+    });
+
+    const setUnknownRule = new Pass(this, 'set-unknown-rule', {
+      parameters: {
+        Name: 'Unknown',
+        Severity: 'UNKNOWN',
+      },
+      resultPath: '$.Rule',
+    });
+
+    return matchRule
+      .otherwise(setUnknownRule)
+      .afterwards();
+  }
+
+  public registerIssueTrigger(id: string, options: CloudTrailActivityRuleOptions = {}): IssueTrigger {
+    const rules = options.rules ?? this.rules;
+
+    rules.forEach((x) => {
+      if (!this.rules.includes(x)) {
+        throw new Error([
+          `The CloudTrail activity rule '${x.name}' used by trigger '${id}'`,
+          'has not been configured on the parser.',
+        ].join(' '));
+      }
+    });
+
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: {
+          $or: rules.map((x) => {
+            return x.buildDetailPattern();
+          }),
+        },
+        detailType: [
+          'AWS API Call via CloudTrail',
+          'AWS Console Sign In via CloudTrail',
+        ],
+        source: [...new Set(rules.map((x) => {
+          return x.source;
+        }))],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
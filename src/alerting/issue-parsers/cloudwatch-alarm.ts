@@ -0,0 +1,467 @@
+import { ArnFormat, Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+
+
+/**
+ * A state that a CloudWatch alarm can transition to.
+ */
+export class CloudWatchAlarmState {
+  public static readonly ALARM: CloudWatchAlarmState = CloudWatchAlarmState.of('ALARM');
+  public static readonly INSUFFICIENT_DATA: CloudWatchAlarmState = CloudWatchAlarmState.of('INSUFFICIENT_DATA');
+  public static readonly OK: CloudWatchAlarmState = CloudWatchAlarmState.of('OK');
+
+  public static of(value: string): CloudWatchAlarmState {
+    return new CloudWatchAlarmState(value);
+  }
+
+
+  public readonly value: string;
+
+  private constructor(value: string) {
+    this.value = value;
+  }
+
+  public buildCondition(path: string): Condition {
+    return Condition.and(
+      Condition.isPresent(path),
+      Condition.stringEquals(path, this.value),
+    );
+  }
+}
+
+/**
+ * A mapping of the states a CloudWatch alarm can transition to onto the
+ * standard severities supported by issue manager.
+ *
+ * Used when an alarm does not have a severity tag.
+ */
+export interface CloudWatchAlarmSeverityMap {
+  readonly alarm?: string;
+  readonly insufficientData?: string;
+  readonly ok?: string;
+}
+
+export interface CloudWatchAlarmRuleOptions {
+  /**
+   * The names of the alarms the trigger should match.
+   *
+   * @default All alarms
+   */
+  readonly alarmNames?: string[];
+
+  readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The alarm states the trigger should match transitions to.
+   *
+   * Transitions to `OK` are reported with a status of `RESOLVED`. These are
+   * only acted on by handlers that can close out an earlier notification,
+   * such as `PagerDuty` and `JiraTicket`, and are ignored by the others.
+   *
+   * @default [CloudWatchAlarmState.ALARM, CloudWatchAlarmState.OK]
+   */
+  readonly states?: CloudWatchAlarmState[];
+}
+
+export interface CloudWatchAlarmProps extends IssueParserPluginBaseProps {
+  /**
+   * The severities that should be used for each alarm state when an alarm
+   * does not have a valid severity tag.
+   *
+   * @default CloudWatchAlarm.DEFAULT_SEVERITY_MAP
+   */
+  readonly severityMap?: CloudWatchAlarmSeverityMap;
+
+  /**
+   * The key of the tag used to set the severity of an alarm. The value of the
+   * tag should be one of the standard severities supported by issue manager
+   * (`CRITICAL`, `HIGH`, `MEDIUM`, `LOW` or `INFO`).
+   *
+   * The tag is only used for transitions into the `ALARM` state.
+   *
+   * @default CloudWatchAlarm.DEFAULT_SEVERITY_TAG
+   */
+  readonly severityTag?: string;
+}
+
+/**
+ * Parses the events generated when a CloudWatch alarm changes state.
+ *
+ * @see [Alarm events and EventBridge](https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/cloudwatch-and-eventbridge.html)
+ */
+export class CloudWatchAlarm extends IssueParserPluginBase implements IIssueParser {
+  public static readonly DEFAULT_SEVERITY_MAP: CloudWatchAlarmSeverityMap = {
+    alarm: 'HIGH',
+    insufficientData: 'LOW',
+    ok: 'INFO',
+  };
+  public static readonly DEFAULT_SEVERITY_TAG: string = 'Severity';
+  public static readonly MATCH_TYPE: string = 'CloudWatchAlarm';
+  public static readonly SEVERITIES: string[] = [
+    'CRITICAL',
+    'HIGH',
+    'MEDIUM',
+    'LOW',
+    'INFO',
+  ];
+
+  // Input properties
+  public readonly name?: string;
+  public readonly severityMap: CloudWatchAlarmSeverityMap;
+  public readonly severityTag: string;
+  public readonly timeout?: Duration;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: CloudWatchAlarmProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? CloudWatchAlarm.MATCH_TYPE,
+    });
+
+    this.severityMap = {
+      ...CloudWatchAlarm.DEFAULT_SEVERITY_MAP,
+      ...props.severityMap,
+    };
+    this.severityTag = props.severityTag ?? CloudWatchAlarm.DEFAULT_SEVERITY_TAG;
+
+    const alarmUrl = [
+      'https://{}.console.aws.amazon.com',
+      'cloudwatch',
+      'home?region={}#alarmsV2:alarm',
+      '{}',
+    ].join('/');
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Alarm': {
+          'Account.$': '$.account',
+          'Arn.$': '$.resources[0]',
+          'Name.$': '$.detail.alarmName',
+          'PreviousState.$': '$.detail.previousState.value',
+          'Reason.$': '$.detail.state.reason',
+          'Region.$': '$.region',
+          'State.$': '$.detail.state.value',
+        },
+        'Detail.$': '$.detail',
+      },
+    });
+
+    const describeAlarm = new CallAwsService(this, 'describe-alarm', {
+      action: 'describeAlarms',
+      iamAction: 'cloudwatch:DescribeAlarms',
+      iamResources: [
+        '*',
+      ],
+      parameters: {
+        'AlarmNames.$': SfnFn.array('$.Alarm.Name'),
+        'AlarmTypes': [
+          'CompositeAlarm',
+          'MetricAlarm',
+        ],
+      },
+      resultSelector: {
+        'CompositeAlarms.$': '$.CompositeAlarms',
+        'MetricAlarms.$': '$.MetricAlarms',
+      },
+      resultPath: '$.Configuration',
+      service: 'cloudwatch',
+    });
+
+    const listTags = new CallAwsService(this, 'list-tags', {
+      action: 'listTagsForResource',
+      iamAction: 'cloudwatch:ListTagsForResource',
+      iamResources: [
+        this.stack.formatArn({
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+          resource: 'alarm',
+          resourceName: '*',
+          service: 'cloudwatch',
+        }),
+      ],
+      parameters: {
+        'ResourceARN.$': '$.Alarm.Arn',
+      },
+      resultSelector: {
+        'Values.$': `$.Tags[?(@.Key == '${this.severityTag}')].Value`,
+      },
+      resultPath: '$.SeverityTag',
+      service: 'cloudwatch',
+    });
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const mapStatus = this.buildStatusMap();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': '$.Alarm.Arn',
+        'Severity.$': '$.Severity.Standardized',
+        'Status.$': '$.Status.Value',
+        'Summary.$': SfnFn.format('CloudWatch Alarm - {} ({})', [
+          '$.Alarm.Name',
+          '$.Alarm.State',
+        ]),
+        'Url.$': SfnFn.format(alarmUrl, [
+          '$.Alarm.Region',
+          '$.Alarm.Region',
+          '$.Alarm.Name',
+        ]),
+      },
+    });
+
+    const definition = extractDetail
+      .next(describeAlarm)
+      .next(listTags)
+      .next(mapSeverity)
+      .next(buildDescription.render())
+      .next(mapStatus)
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  private addAlarmDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('alarm', {
+      title: 'Alarm Information',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      value: '$.Alarm.Name',
+    });
+
+    section.addReference('description', {
+      label: 'Description',
+      required: false,
+      value: '$.Detail.configuration.description',
+    });
+
+    section.addReference('state', {
+      label: 'State',
+      value: '$.Alarm.State',
+    });
+
+    section.addReference('previous-state', {
+      label: 'Previous State',
+      required: false,
+      value: '$.Alarm.PreviousState',
+    });
+
+    section.addReference('reason', {
+      label: 'Reason',
+      value: '$.Alarm.Reason',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      value: '$.Alarm.Account',
+    });
+
+    section.addReference('region', {
+      label: 'Region',
+      value: '$.Alarm.Region',
+    });
+  }
+
+  private addMetricDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('metric', {
+      referenceChecks: [
+        '$.Configuration.MetricAlarms[0]',
+      ],
+      title: 'Metric',
+    });
+
+    section.addReference('namespace', {
+      label: 'Namespace',
+      required: false,
+      value: '$.Configuration.MetricAlarms[0].Namespace',
+    });
+
+    section.addReference('metric-name', {
+      label: 'Metric',
+      required: false,
+      value: '$.Configuration.MetricAlarms[0].MetricName',
+    });
+
+    section.addReference('statistic', {
+      label: 'Statistic',
+      required: false,
+      value: '$.Configuration.MetricAlarms[0].Statistic',
+    });
+
+    section.addReference('comparison-operator', {
+      label: 'Comparison',
+      required: false,
+      value: '$.Configuration.MetricAlarms[0].ComparisonOperator',
+    });
+
+    section.addReference('threshold', {
+      label: 'Threshold',
+      required: false,
+      value: '$.Configuration.MetricAlarms[0].Threshold',
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: 'A CloudWatch alarm has changed state.',
+    });
+
+    this.addAlarmDetails(builder);
+    this.addMetricDetails(builder);
+
+    return builder;
+  }
+
+  /**
+   * Determines the severity of the issue.
+   *
+   * Transitions into the `ALARM` state use the severity tag of the alarm if
+   * it holds a standard severity. Otherwise the severity is taken from the
+   * configured severity map.
+   */
+  protected buildSeverityMap(): Chain {
+    const statePath = '$.Alarm.State';
+    const tagPath = '$.SeverityTag.Values[0]';
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    const setFromTag = new Pass(this, 'set-from-tag', {
+      parameters: {
+        'Source': 'TAG',
+        'Standardized.$': tagPath,
+      },
+      resultPath: '$.Severity',
+    });
+
+    const tagConditions = CloudWatchAlarm.SEVERITIES.map((x) => {
+      return Condition.stringEquals(tagPath, x);
+    });
+
+    checkSeverity.when(Condition.and(
+      CloudWatchAlarmState.ALARM.buildCondition(statePath),
+      Condition.isPresent(tagPath),
+      Condition.or(...tagConditions),
+    ), setFromTag);
+
+    const registerState = (state: CloudWatchAlarmState, severity?: string): void => {
+      const setSeverity = new Pass(this, `set-${state.value.toLowerCase().replace(/_/g, '-')}`, {
+        parameters: {
+          Source: 'STATE',
+          Standardized: severity ?? 'UNKNOWN',
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(state.buildCondition(statePath), setSeverity);
+    };
+
+    registerState(CloudWatchAlarmState.ALARM, this.severityMap.alarm);
+    registerState(CloudWatchAlarmState.INSUFFICIENT_DATA, this.severityMap.insufficientData);
+    registerState(CloudWatchAlarmState.OK, this.severityMap.ok);
+
+    const setUnknown = new Pass(this, 'set-unknown', {
+      parameters: {
+        Source: 'DEFAULT',
+        Standardized: 'UNKNOWN',
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkSeverity
+      .otherwise(setUnknown)
+      .afterwards();
+  }
+
+  /**
+   * Determines whether the alarm still requires attention.
+   *
+   * Alarms that have returned to the `OK` state are reported as `RESOLVED` so
+   * that issue handlers which support it can close out any notifications
+   * that were previously raised for the alarm.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(CloudWatchAlarmState.OK.buildCondition('$.Alarm.State'), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
+  public registerIssueTrigger(id: string, options: CloudWatchAlarmRuleOptions = {}): IssueTrigger {
+    const states = options.states ?? [
+      CloudWatchAlarmState.ALARM,
+      CloudWatchAlarmState.OK,
+    ];
+
+    if (states.length === 0) {
+      throw new Error([
+        'At least one alarm state is required when creating a CloudWatch',
+        'alarm rule.',
+      ].join(' '));
+    }
+
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: {
+          alarmName: options.alarmNames,
+          state: {
+            value: states.map((x) => {
+              return x.value;
+            }),
+          },
+        },
+        detailType: [
+          'CloudWatch Alarm State Change',
+        ],
+        source: [
+          'aws.cloudwatch',
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
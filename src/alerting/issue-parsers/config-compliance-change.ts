@@ -1,6 +1,6 @@
-import { ArnFormat, Duration } from 'aws-cdk-lib';
-import { Chain, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
-import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { Arn, ArnFormat, Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IChainable, IStateMachine, Pass, StateMachine, StateMachineType, TaskInput, TaskStateBase, Wait, WaitTime } from 'aws-cdk-lib/aws-stepfunctions';
+import { CallAwsService, StepFunctionsStartExecution } from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import { IConstruct } from 'constructs';
 import { DescriptionBuilder } from './description-builder';
 import { InspectorSeverity } from './inspector-finding';
@@ -17,13 +17,66 @@ export interface ConfigComplianceChangeRuleOptions {
   readonly severity?: InspectorSeverity[];
 }
 
-export interface ConfigComplianceChangeProps extends IssueParserPluginBaseProps {}
+/**
+ * Configuration for automatically remediating the resources found to be
+ * non-compliant with a set of Config rules.
+ */
+export interface ConfigComplianceRemediation {
+  /**
+   * The names of the Config rules whose non-compliant resources should be
+   * remediated.
+   */
+  readonly ruleNames: string[];
+
+  /**
+   * A Standard Step Functions workflow that remediates the resource.
+   *
+   * The workflow is started with the detail of the compliance change event
+   * as `Detail` and the configuration of the resource as `Resource`. The
+   * resource is considered remediated if the execution succeeds.
+   *
+   * @default The remediation configured for the rule in AWS Config is
+   * started
+   */
+  readonly workflow?: IStateMachine;
+}
+
+export interface ConfigComplianceChangeProps extends IssueParserPluginBaseProps {
+  /**
+   * The rules whose non-compliant resources should be remediated before the
+   * issue is raised.
+   *
+   * The outcome of the remediation is included in the `Remediation` field of
+   * the issue so that it is reported through the same issue handlers that
+   * announce the compliance change. Its `Result` is one of `NONE`,
+   * `AUTO_REMEDIATED` or `NEEDS_HUMAN`. The `Status` of the issue is not
+   * affected by the remediation.
+   *
+   * @default Resources are not remediated
+   */
+  readonly remediations?: ConfigComplianceRemediation[];
+
+  /**
+   * The amount of time to wait for a remediation to complete before the
+   * issue is raised as needing human review.
+   *
+   * Parsers run as Express workflows so the timeout must leave enough time
+   * for the rest of the parser to complete within the timeout of the parser.
+   *
+   * @default ConfigComplianceChange.DEFAULT_REMEDIATION_TIMEOUT
+   */
+  readonly remediationTimeout?: Duration;
+}
 
 export class ConfigComplianceChange extends IssueParserPluginBase implements IIssueParser {
+  public static readonly DEFAULT_REMEDIATION_TIMEOUT: Duration = Duration.minutes(2);
   public static readonly MATCH_TYPE: string = 'ConfigComplianceChange';
+  public static readonly REMEDIATION_POLL_INTERVAL: Duration = Duration.seconds(15);
 
   // Input properties
   public readonly name?: string;
+  public readonly remediations: ConfigComplianceRemediation[];
+  public readonly remediationTimeout: Duration;
   public readonly timeout?: Duration;
 
   // Resource props
@@ -42,6 +95,25 @@ export class ConfigComplianceChange extends IssueParserPluginBase implements IIs
       matchType: props.matchType ?? ConfigComplianceChange.MATCH_TYPE,
     });
 
+    this.remediations = props.remediations ?? [];
+    this.remediationTimeout = props.remediationTimeout ?? ConfigComplianceChange.DEFAULT_REMEDIATION_TIMEOUT;
+
+    if (this.remediationTimeout.toSeconds() < ConfigComplianceChange.REMEDIATION_POLL_INTERVAL.toSeconds()) {
+      throw new Error([
+        'The remediation timeout for Config compliance changes must be at',
+        `least ${ConfigComplianceChange.REMEDIATION_POLL_INTERVAL.toSeconds()} seconds.`,
+      ].join(' '));
+    }
+
+    this.remediations.forEach((x) => {
+      if (x.ruleNames.length === 0) {
+        throw new Error([
+          'At least one rule name is required when adding a remediation for',
+          'Config compliance changes.',
+        ].join(' '));
+      }
+    });
+
     const extractDetail = new Pass(this, 'extract-detail', {
       parameters: {
         'Detail.$': '$.detail',
@@ -93,16 +165,21 @@ export class ConfigComplianceChange extends IssueParserPluginBase implements IIs
       parameters: {
         'Alert': true,
         'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Remediation.$': '$.Remediation',
+        'Status': 'OPEN',
         'Summary.$': SfnFn.format('AWS Config - {} - {}', [
           '$.Detail.resourceType',
           '$.Detail.resourceId',
         ]),
+        'Url.$': '$.ResourceUrl.Formatted',
       },
     });
 
     const definition = extractDetail
       .next(getRule)
       .next(getResource)
+      .next(this.buildRemediation())
       .next(buildResourceUrl)
       .next(buildDescription.render())
       .next(formatOutput);
@@ -132,10 +209,258 @@ export class ConfigComplianceChange extends IssueParserPluginBase implements IIs
 
     this.buildRule(descriptionBuilder);
     this.buildResource(descriptionBuilder);
+    this.buildRemediationDetails(descriptionBuilder);
 
     return descriptionBuilder;
   }
 
+  /**
+   * Builds the states that remediate the non-compliant resource for rules
+   * that have a remediation configured and record the outcome under
+   * `$.Remediation`.
+   *
+   * Both kinds of remediation run asynchronously so their status is polled
+   * until they complete or the remediation timeout is reached.
+   */
+  protected buildRemediation(): Chain {
+    const noRemediation = new Pass(this, 'no-remediation', {
+      parameters: {
+        Result: 'NONE',
+      },
+      resultPath: '$.Remediation',
+    });
+
+    if (this.remediations.length === 0) {
+      return Chain.start(noRemediation);
+    }
+
+    const matchRule = new Choice(this, 'match-remediation-rule');
+
+    this.remediations.forEach((x, idx) => {
+      matchRule.when(Condition.or(...x.ruleNames.map((name) => {
+        return Condition.stringEquals('$.Detail.configRuleName', name);
+      })), x.workflow ? this.buildWorkflowRemediation(`${idx}`, x.workflow) : this.buildConfigRemediation(`${idx}`));
+    });
+
+    const recordOutcome = new Choice(this, 'record-remediation-outcome');
+
+    const setRemediated = new Pass(this, 'set-auto-remediated', {
+      parameters: {
+        'Action.$': '$.RemediationResult.Action',
+        'Details.$': '$.RemediationResult.Details',
+        'Outcome': 'Auto-remediated',
+        'Result': 'AUTO_REMEDIATED',
+      },
+      resultPath: '$.Remediation',
+    });
+
+    const setNeedsHuman = new Pass(this, 'set-needs-human', {
+      parameters: {
+        'Action.$': '$.RemediationResult.Action',
+        'Details.$': '$.RemediationResult.Details',
+        'Outcome': 'Needs human review',
+        'Result': 'NEEDS_HUMAN',
+      },
+      resultPath: '$.Remediation',
+    });
+
+    return matchRule
+      .otherwise(noRemediation)
+      .afterwards({ includeErrorHandlers: true })
+      .next(recordOutcome
+        .when(Condition.and(
+          Condition.isPresent('$.RemediationResult.Succeeded'),
+          Condition.booleanEquals('$.RemediationResult.Succeeded', true),
+        ), setRemediated)
+        .when(Condition.isPresent('$.RemediationResult'), setNeedsHuman)
+        .afterwards({ includeOtherwise: true }));
+  }
+
+  private buildConfigRemediation(id: string): IChainable {
+    const action = 'AWS Config remediation';
+
+    const startRemediation = new CallAwsService(this, `start-remediation-${id}`, {
+      action: 'startRemediationExecution',
+      iamResources: [
+        this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'config-rule',
+          resourceName: '*',
+          service: 'config',
+        }),
+      ],
+      parameters: {
+        'ConfigRuleName.$': '$.Detail.configRuleName',
+        'ResourceKeys': [{
+          'ResourceId.$': '$.Detail.resourceId',
+          'ResourceType.$': '$.Detail.resourceType',
+        }],
+      },
+      resultPath: '$.RemediationExecution',
+      service: 'config',
+    });
+
+    const checkStarted = new Choice(this, `check-remediation-started-${id}`);
+
+    const failedToStart = new Pass(this, `remediation-not-started-${id}`, {
+      parameters: {
+        Action: action,
+        Details: 'AWS Config was unable to start the remediation configured for the rule.',
+        Succeeded: false,
+      },
+      resultPath: '$.RemediationResult',
+    });
+
+    const describeRemediation = new CallAwsService(this, `describe-remediation-${id}`, {
+      action: 'describeRemediationExecutionStatus',
+      iamResources: [
+        this.stack.formatArn({
+          arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+          resource: 'config-rule',
+          resourceName: '*',
+          service: 'config',
+        }),
+      ],
+      parameters: {
+        'ConfigRuleName.$': '$.Detail.configRuleName',
+        'ResourceKeys': [{
+          'ResourceId.$': '$.Detail.resourceId',
+          'ResourceType.$': '$.Detail.resourceType',
+        }],
+      },
+      resultPath: '$.RemediationStatus',
+      resultSelector: {
+        'States.$': '$.RemediationExecutionStatuses[*].State',
+      },
+      service: 'config',
+    });
+
+    const statePath = '$.RemediationStatus.States[0]';
+
+    return startRemediation
+      .next(checkStarted
+        .when(Condition.isPresent('$.RemediationExecution.FailedItems[0]'), failedToStart)
+        .otherwise(this.buildRemediationPoll(id, action, describeRemediation, {
+          failed: Condition.and(
+            Condition.isPresent(statePath),
+            Condition.or(
+              Condition.stringEquals(statePath, 'FAILED'),
+              Condition.stringEquals(statePath, 'UNKNOWN'),
+            ),
+          ),
+          succeeded: Condition.and(
+            Condition.isPresent(statePath),
+            Condition.stringEquals(statePath, 'SUCCEEDED'),
+          ),
+        }))
+        .afterwards({ includeErrorHandlers: true }));
+  }
+
+  /**
+   * Builds the states that wait for a remediation to complete by repeatedly
+   * describing it.
+   */
+  private buildRemediationPoll(id: string, action: string, describe: TaskStateBase, conditions: {failed: Condition; succeeded: Condition}): Chain {
+    const maxAttempts = Math.ceil(this.remediationTimeout.toSeconds() / ConfigComplianceChange.REMEDIATION_POLL_INTERVAL.toSeconds());
+
+    const initializePoll = new Pass(this, `initialize-remediation-poll-${id}`, {
+      parameters: {
+        Attempts: 0,
+      },
+      resultPath: '$.RemediationPoll',
+    });
+
+    const wait = new Wait(this, `wait-for-remediation-${id}`, {
+      time: WaitTime.duration(ConfigComplianceChange.REMEDIATION_POLL_INTERVAL),
+    });
+
+    const countAttempt = new Pass(this, `count-remediation-poll-${id}`, {
+      parameters: {
+        'Attempts.$': SfnFn.mathAdd('$.RemediationPoll.Attempts', 1),
+      },
+      resultPath: '$.RemediationPoll',
+    });
+
+    const checkStatus = new Choice(this, `check-remediation-status-${id}`);
+
+    const succeeded = new Pass(this, `remediation-succeeded-${id}`, {
+      parameters: {
+        Action: action,
+        Details: 'The remediation completed successfully.',
+        Succeeded: true,
+      },
+      resultPath: '$.RemediationResult',
+    });
+
+    const failed = new Pass(this, `remediation-failed-${id}`, {
+      parameters: {
+        Action: action,
+        Details: 'The remediation did not complete successfully.',
+        Succeeded: false,
+      },
+      resultPath: '$.RemediationResult',
+    });
+
+    const timedOut = new Pass(this, `remediation-timed-out-${id}`, {
+      parameters: {
+        Action: action,
+        Details: `The remediation did not complete within ${this.remediationTimeout.toSeconds()} seconds.`,
+        Succeeded: false,
+      },
+      resultPath: '$.RemediationResult',
+    });
+
+    const errored = new Pass(this, `remediation-error-${id}`, {
+      parameters: {
+        'Action': action,
+        'Details.$': SfnFn.format('The remediation could not be run due to a {} error.', [
+          '$.RemediationError.Error',
+        ]),
+        'Succeeded': false,
+      },
+      resultPath: '$.RemediationResult',
+    });
+
+    describe.addCatch(errored, {
+      resultPath: '$.RemediationError',
+    });
+
+    return initializePoll
+      .next(wait)
+      .next(describe)
+      .next(countAttempt)
+      .next(checkStatus
+        .when(conditions.succeeded, succeeded)
+        .when(conditions.failed, failed)
+        .when(Condition.numberLessThan('$.RemediationPoll.Attempts', maxAttempts), wait)
+        .otherwise(timedOut)
+        .afterwards());
+  }
+
+  private buildRemediationDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('remediation', {
+      referenceChecks: [
+        '$.Remediation.Outcome',
+      ],
+      title: 'Remediation',
+    });
+
+    section.addReference('outcome', {
+      label: 'Outcome',
+      value: '$.Remediation.Outcome',
+    });
+
+    section.addReference('action', {
+      label: 'Action',
+      value: '$.Remediation.Action',
+    });
+
+    section.addReference('details', {
+      label: 'Details',
+      value: '$.Remediation.Details',
+    });
+  }
+
   private buildResource(builder: DescriptionBuilder): void {
     const section = builder.addSection('resource', {
       title: 'Resource',
@@ -213,6 +538,64 @@ export class ConfigComplianceChange extends IssueParserPluginBase implements IIs
       .next(buildUrl);
   }
 
+  private buildWorkflowRemediation(id: string, workflow: IStateMachine): IChainable {
+    const action = 'Step Functions workflow';
+
+    const startWorkflow = new StepFunctionsStartExecution(this, `start-remediation-workflow-${id}`, {
+      input: TaskInput.fromObject({
+        'Detail.$': '$.Detail',
+        'Resource.$': '$.Resource.Info',
+      }),
+      resultPath: '$.RemediationExecution',
+      resultSelector: {
+        'ExecutionArn.$': '$.ExecutionArn',
+      },
+      stateMachine: workflow,
+    });
+
+    const describeWorkflow = new CallAwsService(this, `describe-remediation-workflow-${id}`, {
+      action: 'describeExecution',
+      iamAction: 'states:DescribeExecution',
+      iamResources: [
+        this.stack.formatArn({
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+          resource: 'execution',
+          resourceName: `${Arn.split(workflow.stateMachineArn, ArnFormat.COLON_RESOURCE_NAME).resourceName}:*`,
+          service: 'states',
+        }),
+      ],
+      parameters: {
+        'ExecutionArn.$': '$.RemediationExecution.ExecutionArn',
+      },
+      resultPath: '$.RemediationStatus',
+      resultSelector: {
+        'ExecutionStatus.$': '$.Status',
+      },
+      service: 'sfn',
+    });
+
+    const errored = new Pass(this, `remediation-workflow-error-${id}`, {
+      parameters: {
+        'Action': action,
+        'Details.$': SfnFn.format('The remediation workflow could not be started due to a {} error.', [
+          '$.RemediationError.Error',
+        ]),
+        'Succeeded': false,
+      },
+      resultPath: '$.RemediationResult',
+    });
+
+    startWorkflow.addCatch(errored, {
+      resultPath: '$.RemediationError',
+    });
+
+    return startWorkflow
+      .next(this.buildRemediationPoll(id, action, describeWorkflow, {
+        failed: Condition.not(Condition.stringEquals('$.RemediationStatus.ExecutionStatus', 'RUNNING')),
+        succeeded: Condition.stringEquals('$.RemediationStatus.ExecutionStatus', 'SUCCEEDED'),
+      }));
+  }
+
   private buildRule(builder: DescriptionBuilder): void {
     const url = [
       `https://${this.stack.region}.console.aws.amazon.com`,
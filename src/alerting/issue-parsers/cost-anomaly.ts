@@ -0,0 +1,327 @@
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { definedFieldsOrUndefined } from '../../utils/formatting';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+
+
+/**
+ * The minimum total impact, in US dollars, that an anomaly must have to be
+ * raised with each of the standard severities supported by issue manager.
+ *
+ * Anomalies with an impact below all of the thresholds are raised with a
+ * severity of `INFO`.
+ */
+export interface CostAnomalyImpactThresholds {
+  readonly critical?: number;
+  readonly high?: number;
+  readonly low?: number;
+  readonly medium?: number;
+}
+
+export interface CostAnomalyRuleOptions {
+  /**
+   * The minimum total impact, in US dollars, of the anomalies the trigger
+   * should match.
+   *
+   * @default Anomalies of any impact
+   */
+  readonly minimumImpact?: number;
+
+  /**
+   * The ARNs of the cost monitors whose anomalies the trigger should match.
+   *
+   * @default Anomalies from all monitors
+   */
+  readonly monitorArns?: string[];
+
+  readonly overrides?: IssueHandlerOverride[];
+}
+
+export interface CostAnomalyProps extends IssueParserPluginBaseProps {
+  /**
+   * The impact thresholds used to determine the severity of anomalies.
+   *
+   * @default CostAnomaly.DEFAULT_IMPACT_THRESHOLDS
+   */
+  readonly impactThresholds?: CostAnomalyImpactThresholds;
+}
+
+/**
+ * Parses the events generated when AWS Cost Anomaly Detection detects an
+ * anomaly.
+ *
+ * The severity of the issue is determined by the total dollar impact of the
+ * anomaly and the description lists the root causes that contributed most to
+ * the anomaly.
+ *
+ * @see [Using EventBridge with Cost Anomaly Detection](https://docs.aws.amazon.com/cost-management/latest/userguide/cad-eventbridge.html)
+ */
+export class CostAnomaly extends IssueParserPluginBase implements IIssueParser {
+  public static readonly DEFAULT_IMPACT_THRESHOLDS: CostAnomalyImpactThresholds = {
+    critical: 5000,
+    high: 1000,
+    low: 10,
+    medium: 100,
+  };
+  public static readonly MATCH_TYPE: string = 'CostAnomaly';
+
+  // Input properties
+  public readonly impactThresholds: CostAnomalyImpactThresholds;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: CostAnomalyProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? CostAnomaly.MATCH_TYPE,
+    });
+
+    this.impactThresholds = {
+      ...CostAnomaly.DEFAULT_IMPACT_THRESHOLDS,
+      ...props.impactThresholds,
+    };
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Detail.$': '$.detail',
+      },
+    });
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const checkUrl = new Choice(this, 'check-url');
+
+    const setDetailsUrl = new Pass(this, 'set-details-url', {
+      parameters: {
+        'Value.$': '$.Detail.anomalyDetailsLink',
+      },
+      resultPath: '$.Url',
+    });
+
+    const setDefaultUrl = new Pass(this, 'set-default-url', {
+      parameters: {
+        Value: 'https://console.aws.amazon.com/cost-management/home#/anomaly-detection/overview',
+      },
+      resultPath: '$.Url',
+    });
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': '$.Detail.anomalyId',
+        'Severity.$': '$.Severity.Standardized',
+        'Status': 'OPEN',
+        'Summary.$': SfnFn.format('Cost Anomaly - ${} of unexpected spend', [
+          '$.Detail.impact.totalImpact',
+        ]),
+        'Url.$': '$.Url.Value',
+      },
+    });
+
+    const definition = extractDetail
+      .next(mapSeverity)
+      .next(buildDescription.render())
+      .next(checkUrl
+        .when(Condition.isPresent('$.Detail.anomalyDetailsLink'), setDetailsUrl)
+        .otherwise(setDefaultUrl)
+        .afterwards())
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  private addAnomalyDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('anomaly', {
+      title: 'Anomaly',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      required: false,
+      value: '$.Detail.accountId',
+    });
+
+    section.addReference('monitor', {
+      label: 'Monitor',
+      required: false,
+      value: '$.Detail.monitorArn',
+    });
+
+    section.addReference('start-date', {
+      label: 'Started',
+      required: false,
+      value: '$.Detail.anomalyStartDate',
+    });
+
+    section.addReference('end-date', {
+      label: 'Ended',
+      required: false,
+      value: '$.Detail.anomalyEndDate',
+    });
+
+    section.addReference('actual-spend', {
+      label: 'Actual Spend',
+      required: false,
+      value: '$.Detail.impact.totalActualSpend',
+    });
+
+    section.addReference('expected-spend', {
+      label: 'Expected Spend',
+      required: false,
+      value: '$.Detail.impact.totalExpectedSpend',
+    });
+
+    section.addReference('impact-percentage', {
+      label: 'Impact (%)',
+      required: false,
+      value: '$.Detail.impact.totalImpactPercentage',
+    });
+  }
+
+  private addRootCauseDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('root-causes', {
+      referenceChecks: [
+        '$.Detail.rootCauses[0]',
+      ],
+      title: 'Top Contributors',
+    });
+
+    const iterator = section.addIterator('root-cause', {
+      arrayRef: '$.Detail.rootCauses',
+      resultPath: '$.RootCauses',
+    });
+
+    iterator.addReference('service', {
+      label: 'Service',
+      required: false,
+      value: '$.Item.service',
+    });
+
+    iterator.addReference('region', {
+      label: 'Region',
+      required: false,
+      value: '$.Item.region',
+    });
+
+    iterator.addReference('usage-type', {
+      label: 'Usage Type',
+      required: false,
+      value: '$.Item.usageType',
+    });
+
+    iterator.addReference('linked-account', {
+      label: 'Linked Account',
+      required: false,
+      value: '$.Item.linkedAccount',
+    });
+
+    iterator.addReference('linked-account-name', {
+      label: 'Linked Account Name',
+      required: false,
+      value: '$.Item.linkedAccountName',
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: SfnFn.format('AWS Cost Anomaly Detection detected ${} of unexpected spend.', [
+        '$.Detail.impact.totalImpact',
+      ]),
+    });
+
+    this.addAnomalyDetails(builder);
+    this.addRootCauseDetails(builder);
+
+    return builder;
+  }
+
+  /**
+   * Determines the severity of the issue from the total impact of the
+   * anomaly.
+   */
+  protected buildSeverityMap(): Chain {
+    const impactPath = '$.Detail.impact.totalImpact';
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    const registerThreshold = (severity: string, threshold?: number): void => {
+      if (threshold === undefined) {
+        return;
+      }
+
+      const setSeverity = new Pass(this, `set-${severity.toLowerCase()}`, {
+        parameters: {
+          Standardized: severity,
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(Condition.and(
+        Condition.isPresent(impactPath),
+        Condition.isNumeric(impactPath),
+        Condition.numberGreaterThanEquals(impactPath, threshold),
+      ), setSeverity);
+    };
+
+    registerThreshold('CRITICAL', this.impactThresholds.critical);
+    registerThreshold('HIGH', this.impactThresholds.high);
+    registerThreshold('MEDIUM', this.impactThresholds.medium);
+    registerThreshold('LOW', this.impactThresholds.low);
+
+    const setInfo = new Pass(this, 'set-info', {
+      parameters: {
+        Standardized: 'INFO',
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkSeverity
+      .otherwise(setInfo)
+      .afterwards();
+  }
+
+  public registerIssueTrigger(id: string, options: CostAnomalyRuleOptions = {}): IssueTrigger {
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: definedFieldsOrUndefined({
+          impact: options.minimumImpact === undefined ? undefined : {
+            totalImpact: [{
+              numeric: ['>=', options.minimumImpact],
+            }],
+          },
+          monitorArn: options.monitorArns,
+        }),
+        detailType: [
+          'Anomaly Detected',
+        ],
+        source: [
+          'aws.ce',
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
@@ -21,6 +21,10 @@ export class AppendDelimiter {
 }
 
 export interface DescriptionBuilderProps {
+  /**
+   * The text the description should start with. May be a JSONPath expression
+   * or intrinsic function to start with a value taken from the event.
+   */
   readonly initialDescription?: string;
 }
 
@@ -39,6 +43,14 @@ export interface DescriptionBuilderSectionProps {
 }
 
 export interface AddReferenceProps {
+  /**
+   * Whether the value should be formatted as code in description formats
+   * that support it, for example IDs and ARNs.
+   *
+   * @default false
+   */
+  readonly code?: boolean;
+
   readonly delimiter?: AppendDelimiter;
   readonly label?: string;
   readonly value: string;
@@ -58,6 +70,43 @@ export interface WriteProps {
   readonly suffix?: string;
 }
 
+/**
+ * Controls how a value written to a description builder is represented in
+ * the structured description formats.
+ */
+interface ContentOptions {
+  /**
+   * The block recording the value in the structured description. The value
+   * is added to the block as `Value`.
+   *
+   * @default The value isn't recorded as a block
+   */
+  readonly block?: {[key: string]: any};
+
+  /**
+   * Template for the value of the block where `{}` is replaced with the
+   * value.
+   *
+   * @default '{}'
+   */
+  readonly blockTemplate?: string;
+
+  readonly markdownPrefix: string;
+  readonly markdownSuffix?: string;
+
+  /**
+   * The value to write to the Markdown description if it differs from the
+   * plain text value.
+   *
+   * @default The plain text value
+   */
+  readonly markdownValue?: string;
+}
+
+function blockIndex(index: number): string {
+  return `${index}`.padStart(3, '0');
+}
+
 export interface IDelayedChainable {
   render(): IChainable;
 }
@@ -82,6 +131,7 @@ export interface IDescriptionBuilderComponent extends IDelayedChainable {
 }
 
 abstract class DescriptionBuilderBase extends Construct implements IDescriptionBuilderComponent, IDelayedChainable {
+  private readonly _blockPrefix: string;
   private readonly _chain: IDelayedChainable[];
 
   public get classifier(): string {
@@ -100,6 +150,12 @@ abstract class DescriptionBuilderBase extends Construct implements IDescriptionB
   public constructor(scope: IConstruct, id: string) {
     super(scope, id);
 
+    // Blocks are stored in an object keyed by their position in the builder
+    // so that they are always listed in the order they were written.
+    this._blockPrefix = scope instanceof DescriptionBuilderBase ?
+      `${scope._blockPrefix}${blockIndex(scope._chain.length)}` :
+      'B';
+
     this._chain = [];
   }
 
@@ -110,12 +166,32 @@ abstract class DescriptionBuilderBase extends Construct implements IDescriptionB
   }
 
   public addReference(id: string, props: AddReferenceProps): IChainable {
-    return this.write(id, {
+    const code = props.code ? '`' : '';
+
+    return this._writeContent(id, {
       ...props,
       prefix: props.label ? `${props.label}: ` : '',
+    }, {
+      block: props.label ? {
+        Code: props.code ?? false,
+        Label: props.label,
+        Type: 'field',
+      } : {
+        Type: 'text',
+      },
+      markdownPrefix: props.label ? `\n- **${props.label}:** ${code}` : `\n- ${code}`,
+      markdownSuffix: code,
     });
   }
 
+  /**
+   * Returns the path that the next block written by the builder should be
+   * stored at.
+   */
+  protected blockPath(): string {
+    return `$.Description.Blocks.${this._blockPrefix}${blockIndex(this._chain.length)}`;
+  }
+
   protected buildId(prefix: string, id?: string): string {
     const components = [
       prefix,
@@ -144,8 +220,10 @@ abstract class DescriptionBuilderBase extends Construct implements IDescriptionB
   public setDelimiter(id: string, props: SetDelimiterProps): IChainable {
     const state = new Pass(this, this.buildId('config', id), {
       parameters: {
+        'Blocks.$': '$.Description.Blocks',
         'Builder.$': '$.Description.Builder',
         'Delimiter': props.delimiter.delimiter,
+        'Markdown.$': '$.Description.Markdown',
       },
       resultPath: '$.Description',
     });
@@ -154,6 +232,41 @@ abstract class DescriptionBuilderBase extends Construct implements IDescriptionB
   }
 
   public write(id: string, props: WriteProps): IChainable {
+    const prefix = props.prefix ?? '';
+    const suffix = props.suffix ?? '';
+
+    return this._writeContent(id, props, {
+      block: {
+        Type: 'text',
+      },
+      blockTemplate: `${prefix}{}${suffix}`,
+      markdownPrefix: `\n\n${prefix}`,
+      markdownSuffix: suffix,
+    });
+  }
+
+  /**
+   * Writes a title that introduces the values that follow it.
+   *
+   * Rendered as a heading in description formats that support them.
+   */
+  protected writeHeading(id: string, props: WriteProps): IChainable {
+    return this._writeContent(id, props, {
+      block: {
+        Type: 'heading',
+      },
+      markdownPrefix: '\n\n### ',
+      markdownSuffix: '\n',
+    });
+  }
+
+  /**
+   * Writes a value to the plain text and Markdown descriptions and records
+   * it as a block in the structured description.
+   *
+   * @internal
+   */
+  protected _writeContent(id: string, props: WriteProps, options: ContentOptions): IChainable {
     const value = props.value;
     const expr = StepFunctionValidation.isStatesExpression(value);
     const delimiter = props.delimiter?.delimiter ?? '{}';
@@ -173,20 +286,47 @@ abstract class DescriptionBuilderBase extends Construct implements IDescriptionB
     if (!props.delimiter) {args.push('$.Description.Delimiter');}
     if (expr) {args.push(value);}
 
+    const markdownValue = options.markdownValue ?? value;
+    const markdownExpr = StepFunctionValidation.isStatesExpression(markdownValue);
+    const markdownTemplate = [
+      '{}',
+      options.markdownPrefix,
+      markdownExpr ? '{}' : markdownValue,
+      options.markdownSuffix ?? '',
+    ].join('');
+    const markdownArgs = ['$.Description.Markdown'];
+    if (markdownExpr) {markdownArgs.push(markdownValue);}
+
     const addField = new Pass(this, this.buildId('add', id), {
       parameters: {
+        'Blocks.$': '$.Description.Blocks',
         'Builder.$': SfnFn.format(template, args),
+        'Markdown.$': SfnFn.format(markdownTemplate, markdownArgs),
         ...defaultDelimiter,
       },
       resultPath: '$.Description',
     });
 
+    const blockTemplate = options.blockTemplate ?? '{}';
+
+    const add = options.block ? Chain.start(addField).next(new Pass(this, this.buildId('block', id), {
+      parameters: {
+        ...options.block,
+        ...(expr ? {
+          'Value.$': SfnFn.format(blockTemplate, [value]),
+        } : {
+          Value: blockTemplate.replace('{}', value),
+        }),
+      },
+      resultPath: this.blockPath(),
+    })) : addField;
+
     if (required) {
-      return this.registerChainable(addField);
+      return this.registerChainable(add);
     } else {
       const choice = new Choice(this, this.buildId('check', id));
       const chain = choice
-        .when(Condition.isPresent(value), addField)
+        .when(Condition.isPresent(value), add)
         .afterwards({ includeOtherwise: true });
 
       return this.registerChainable(chain);
@@ -251,11 +391,14 @@ export class DescriptionBuilderIterator extends DescriptionBuilderBase {
       parameters: {
         'Item.$': '$$.Map.Item.Value',
         'Description': {
+          Blocks: {},
           Builder: '',
           Delimiter: '',
+          Markdown: '',
         },
       },
       resultSelector: {
+        'Markdown.$': "$[?(@.Description.Builder != '')].Description.Markdown",
         'Result.$': "$[?(@.Description.Builder != '')].Description.Builder",
       },
       resultPath: this.resultPath,
@@ -278,7 +421,7 @@ export class DescriptionBuilderIterator extends DescriptionBuilderBase {
       delimiter: this.sectionDelimiter,
     }));
 
-    const addTitle = !this.title ? undefined : Chain.start(this.write(this.buildId('add', 'title'), {
+    const addTitle = !this.title ? undefined : Chain.start(this.writeHeading(this.buildId('add', 'title'), {
       defaultDelimiter: AppendDelimiter.NEWLINE,
       suffix: ':',
       value: this.title,
@@ -286,12 +429,18 @@ export class DescriptionBuilderIterator extends DescriptionBuilderBase {
 
     const joinIterator = new Choice(this, 'join-iterator');
 
-    const write = Chain.start(this.write('join-iteration', {
+    const write = Chain.start(this._writeContent('join-iteration', {
       defaultDelimiter: AppendDelimiter.PARAGRAPH,
       value: SfnFn.arrayGetItem(
         `${this.resultPath}.Result`,
         '$.Iterator.Index',
       ),
+    }, {
+      markdownPrefix: '\n',
+      markdownValue: SfnFn.arrayGetItem(
+        `${this.resultPath}.Markdown`,
+        '$.Iterator.Index',
+      ),
     }));
 
     const step = new Pass(this, 'join-step', {
@@ -310,7 +459,18 @@ export class DescriptionBuilderIterator extends DescriptionBuilderBase {
         .next(step))
       .afterwards({ includeOtherwise: true });
 
-    const writeResults = !addTitle ? iterate : addTitle.next(iterate);
+    // Each record is listed as a single item in the structured description.
+    const addList = new Pass(this, 'join-list', {
+      parameters: {
+        'Items.$': `${this.resultPath}.Result`,
+        'Type': 'list',
+      },
+      resultPath: this.blockPath(),
+    });
+
+    const writeResults = !addTitle ? iterate.next(addList) : addTitle
+      .next(iterate)
+      .next(addList);
 
     return map
       .iterator(chain)
@@ -321,11 +481,14 @@ export class DescriptionBuilderIterator extends DescriptionBuilderBase {
         .afterwards({ includeOtherwise: true }));
   }
 
-  public write(id: string, props: WriteProps): IChainable {
-    return super.write(id, {
+  /**
+   * @internal
+   */
+  protected _writeContent(id: string, props: WriteProps, options: ContentOptions): IChainable {
+    return super._writeContent(id, {
       ...props,
       defaultDelimiter: props.defaultDelimiter ?? this.fieldDelimiter,
-    });
+    }, options);
   }
 }
 
@@ -347,7 +510,7 @@ export class DescriptionBuilderSection extends DescriptionBuilderBase {
     this.title = props.title;
 
     if (this.title) {
-      this.write(this.buildId('add', 'title'), {
+      this.writeHeading(this.buildId('add', 'title'), {
         delimiter: AppendDelimiter.PARAGRAPH,
         defaultDelimiter: AppendDelimiter.NEWLINE,
         suffix: ':',
@@ -387,6 +550,24 @@ export class DescriptionBuilderSection extends DescriptionBuilderBase {
   }
 }
 
+/**
+ * Builds the description of an issue using a series of Step Functions states.
+ *
+ * The description is built as plain text at `$.Description.Builder` and as
+ * Markdown at `$.Description.Markdown`. Once rendered, the structured formats
+ * that handlers can choose from are available at `$.Description.Formats`:
+ *
+ * - `Markdown`: The description formatted using Markdown headings, bullet
+ *   lists and code spans.
+ * - `Adf`: The description as an Atlassian Document Format document, as used
+ *   by Jira Cloud.
+ * - `Embed`: A Discord embed with the initial description and a field for
+ *   each reference. Discord's size limits are not applied here. The `Discord`
+ *   handler truncates long values and drops fields that don't fit before
+ *   sending the embed.
+ * - `Facts`: A list with a `title` and `value` for each field, as used by
+ *   Adaptive Card fact sets.
+ */
 export class DescriptionBuilder extends DescriptionBuilderBase {
   public readonly initialDescription: string;
 
@@ -408,14 +589,241 @@ export class DescriptionBuilder extends DescriptionBuilderBase {
   }
 
   protected initialize(): IChainable {
+    const initialValue = (key: string): {[key: string]: any} => {
+      return StepFunctionValidation.isStatesExpression(this.initialDescription) ? {
+        [`${key}.$`]: this.initialDescription,
+      } : {
+        [key]: this.initialDescription,
+      };
+    };
+
     const initialize = new Pass(this, 'initialize-description-builder', {
       parameters: {
-        Builder: this.initialDescription,
+        Blocks: {
+          [this.blockPath().split('.').pop()!]: {
+            ...initialValue('Value'),
+            Type: 'intro',
+          },
+        },
+        ...initialValue('Builder'),
         Delimiter: '\n',
+        ...initialValue('Markdown'),
       },
       resultPath: '$.Description',
     });
 
     return this.registerChainable(initialize);
   }
+
+  public render(): IChainable {
+    return Chain.start(super.render())
+      .next(this.renderFormats());
+  }
+
+  /**
+   * Builds the states that convert the blocks recorded while building the
+   * description into the structured description formats.
+   */
+  private renderFormats(): Chain {
+    const collectBlocks = new Pass(this, 'collect-blocks', {
+      parameters: {
+        'Blocks.$': '$.Description.Blocks.*',
+      },
+      resultPath: '$.Formatting',
+    });
+
+    const renderBlocks = new Map(this, 'render-blocks', {
+      itemsPath: '$.Formatting.Blocks',
+      parameters: {
+        'Block.$': '$$.Map.Item.Value',
+      },
+      resultPath: '$.Formatting',
+      resultSelector: {
+        'Adf.$': '$[*].Adf[*]',
+        'Facts.$': '$[*].Facts[*]',
+        'Fields.$': '$[*].Fields[*]',
+      },
+    });
+
+    const checkBlock = new Choice(this, 'check-block');
+
+    const text = (path: string, marks?: string): {[key: string]: any} => {
+      return {
+        ...(marks ? {
+          marks: [{
+            type: marks,
+          }],
+        } : {}),
+        'text.$': path,
+        'type': 'text',
+      };
+    };
+
+    const paragraph = (...content: {[key: string]: any}[]): {[key: string]: any} => {
+      return {
+        content: content,
+        type: 'paragraph',
+      };
+    };
+
+    const renderEmpty = new Pass(this, 'render-empty', {
+      parameters: {
+        Adf: [],
+        Facts: [],
+        Fields: [],
+      },
+    });
+
+    const renderIntro = new Pass(this, 'render-intro', {
+      parameters: {
+        Adf: [paragraph(text('$.Block.Value'))],
+        Facts: [],
+        Fields: [],
+      },
+    });
+
+    const renderText = new Pass(this, 'render-text', {
+      parameters: {
+        Adf: [paragraph(text('$.Block.Value'))],
+        Facts: [],
+        Fields: [{
+          'inline': false,
+          'name': '\u200b',
+          'value.$': '$.Block.Value',
+        }],
+      },
+    });
+
+    const renderHeading = new Pass(this, 'render-heading', {
+      parameters: {
+        Adf: [{
+          attrs: {
+            level: 3,
+          },
+          content: [text('$.Block.Value')],
+          type: 'heading',
+        }],
+        Facts: [],
+        Fields: [{
+          'inline': false,
+          'name.$': '$.Block.Value',
+          'value': '\u200b',
+        }],
+      },
+    });
+
+    const renderField = (id: string, code: boolean): Pass => {
+      return new Pass(this, id, {
+        parameters: {
+          Adf: [paragraph({
+            ...text(SfnFn.format('{}: ', ['$.Block.Label']), 'strong'),
+          }, text('$.Block.Value', code ? 'code' : undefined))],
+          Facts: [{
+            'title.$': '$.Block.Label',
+            'value.$': '$.Block.Value',
+          }],
+          Fields: [{
+            'inline': !code,
+            'name.$': '$.Block.Label',
+            'value.$': code ? SfnFn.format('`{}`', ['$.Block.Value']) : '$.Block.Value',
+          }],
+        },
+      });
+    };
+
+    const renderListItems = new Map(this, 'render-list-items', {
+      itemsPath: '$.Block.Items',
+      parameters: {
+        'Item.$': '$$.Map.Item.Value',
+      },
+      resultPath: '$.List',
+      resultSelector: {
+        'Fields.$': '$[*].Field',
+        'Nodes.$': '$[*].Node',
+      },
+    });
+
+    const renderListItem = new Pass(this, 'render-list-item', {
+      parameters: {
+        Field: {
+          'inline': false,
+          'name': '\u200b',
+          'value.$': '$.Item',
+        },
+        Node: {
+          content: [paragraph(text('$.Item'))],
+          type: 'listItem',
+        },
+      },
+    });
+
+    const renderList = new Pass(this, 'render-list', {
+      parameters: {
+        'Adf': [{
+          'content.$': '$.List.Nodes',
+          'type': 'bulletList',
+        }],
+        'Facts': [],
+        'Fields.$': '$.List.Fields',
+      },
+    });
+
+    const blockType = (type: string): Condition => {
+      return Condition.stringEquals('$.Block.Type', type);
+    };
+
+    renderBlocks.iterator(checkBlock
+      .when(Condition.and(
+        Condition.isPresent('$.Block.Value'),
+        Condition.isString('$.Block.Value'),
+        Condition.stringEquals('$.Block.Value', ''),
+      ), renderEmpty)
+      .when(blockType('intro'), renderIntro)
+      .when(blockType('text'), renderText)
+      .when(blockType('heading'), renderHeading)
+      .when(Condition.and(
+        blockType('field'),
+        Condition.booleanEquals('$.Block.Code', true),
+      ), renderField('render-code-field', true))
+      .when(blockType('field'), renderField('render-field', false))
+      .when(Condition.and(
+        blockType('list'),
+        Condition.isPresent('$.Block.Items[0]'),
+      ), renderListItems.iterator(renderListItem)
+        .next(renderList))
+      .otherwise(renderEmpty));
+
+    const expr = StepFunctionValidation.isStatesExpression(this.initialDescription);
+
+    const formatDescription = new Pass(this, 'format-description', {
+      parameters: {
+        'Blocks.$': '$.Description.Blocks',
+        'Builder.$': '$.Description.Builder',
+        'Delimiter.$': '$.Description.Delimiter',
+        'Formats': {
+          'Adf': {
+            'content.$': '$.Formatting.Adf',
+            'type': 'doc',
+            'version': 1,
+          },
+          'Embed': {
+            ...(expr ? {
+              'description.$': this.initialDescription,
+            } : this.initialDescription ? {
+              description: this.initialDescription,
+            } : {}),
+            'fields.$': '$.Formatting.Fields',
+          },
+          'Facts.$': '$.Formatting.Facts',
+          'Markdown.$': '$.Description.Markdown',
+        },
+        'Markdown.$': '$.Description.Markdown',
+      },
+      resultPath: '$.Description',
+    });
+
+    return collectBlocks
+      .next(renderBlocks)
+      .next(formatDescription);
+  }
 }
\ No newline at end of file
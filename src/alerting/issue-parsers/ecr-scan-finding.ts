@@ -60,6 +60,16 @@ export class EcrImageScanSeverityConfiguration {
 
 export interface EcrScanFindingEventOptions {
   readonly overrides?: IssueHandlerOverride[];
+
+  /**
+   * The names of the ECR repositories the trigger should match scan results
+   * for. Combined with handler overrides this allows findings to be routed
+   * to the teams that own the images in each repository.
+   *
+   * @default All repositories
+   */
+  readonly repositories?: string[];
+
   readonly severity?: IEcrImageScanSeverityConfiguration;
 }
 
@@ -362,6 +372,7 @@ export class EcrScanFinding extends IssuePluginBase implements IIssueParser {
               }
             },
           }),
+          'repository-name': options.repositories,
         },
         detailType: [
           'ECR Image Scan',
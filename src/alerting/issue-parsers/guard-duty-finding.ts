@@ -1,6 +1,7 @@
 import { Duration } from 'aws-cdk-lib';
 import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
 import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
 import { IssueParserPluginBase } from './issue-parser-plugin-base';
 import { SfnFn } from '../../stepfunctions';
 import { IssueHandlerOverride } from '../issue-handler-override';
@@ -106,17 +107,7 @@ export class GuardDutyFinding extends IssueParserPluginBase {
   public constructor(scope: IConstruct, id: string, props: GuardDutyFindingProps = {}) {
     super(scope, id, props);
 
-    const findingUrl = [
-      `https://${this.stack.region}.console.aws.amazon.com`,
-      'guardduty',
-      `home?region=${this.stack.region}#`,
-      'findings?macros=current&fId={}',
-    ].join('/');
-
-    const baseDescription = [
-      'AWS Guard Duty detected a potential {} level security event. Details',
-      `of the event can be reviewed at the following link:\n${findingUrl}`,
-    ].join(' ');
+    const findingUrl = this.buildFindingUrl();
 
     const extractDetail = new Pass(this, 'extract-detail', {
       parameters: {
@@ -126,48 +117,32 @@ export class GuardDutyFinding extends IssueParserPluginBase {
 
     const mapSeverity = this.buildSeverityMap();
 
-    const initializeDescriptionBuilder = new Pass(this, 'initialize-description-builder', {
-      parameters: {
-        'Builder.$': SfnFn.format(baseDescription, [
-          '$.Severity.Text',
-          '$.Detail.id',
-        ]),
-      },
-      resultPath: '$.Description',
-    });
+    const buildDescription = this.buildDescription();
 
-    const processInstance = this.addInstanceDetails();
-    const processLambda = this.addLambdaDetails();
-    const processRdsDbInstance = this.addRdsDbInstanceDetails();
-    const processEcsCluster = this.addEcsClusterDetails();
-    const processEksCluster = this.addEksClusterDetails();
-    const processKubernetes = this.addKubernetesDetails();
-    const processContainer = this.addContainerDetails();
-    const processS3Bucket = this.addS3BucketDetails();
-    const processAccessKey = this.addAccessKeyDetails();
+    const mapStatus = this.buildStatusMap();
 
     const formatOutput = new Pass(this, 'format-output', {
       parameters: {
+        'Alert': true,
         'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'FindingType.$': '$.Detail.type',
+        'Id.$': '$.Detail.id',
         'Severity.$': '$.Severity.Standardized',
+        'Status.$': '$.Status.Value',
         'Summary.$': SfnFn.format('Guard Duty - {}', [
           '$.Detail.title',
         ]),
+        'Url.$': SfnFn.format(findingUrl, [
+          '$.Detail.id',
+        ]),
       },
     });
 
     const definition = extractDetail
       .next(mapSeverity)
-      .next(initializeDescriptionBuilder)
-      .next(processInstance)
-      .next(processLambda)
-      .next(processRdsDbInstance)
-      .next(processEcsCluster)
-      .next(processEksCluster)
-      .next(processKubernetes)
-      .next(processContainer)
-      .next(processS3Bucket)
-      .next(processAccessKey)
+      .next(buildDescription.render())
+      .next(mapStatus)
       .next(formatOutput);
 
     this.handler = new StateMachine(this, 'state-machine', {
@@ -180,161 +155,331 @@ export class GuardDutyFinding extends IssueParserPluginBase {
     });
   }
 
-  private addAccessKeyDetails(): Chain {
-    const sectionId = 'access-key';
-    const sectionHeader = 'Access Key';
+  private addAccessKeyDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.accessKeyDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-id`, 'ID', `${sectionPath}.accessKeyId`))
-        .next(this.addSectionField(`${sectionId}-principal`, 'Principal', `${sectionPath}.principalId`))
-        .next(this.addSectionField(`${sectionId}-username`, 'Username', `${sectionPath}.userName`))
-        .next(this.addSectionField(`${sectionId}-usertype`, 'User type', `${sectionPath}.userType`)));
+    const section = builder.addSection('access-key', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'Access Key details',
+    });
+
+    section.addReference('id', {
+      label: 'ID',
+      required: false,
+      value: `${sectionPath}.accessKeyId`,
+    });
+
+    section.addReference('principal', {
+      label: 'Principal',
+      required: false,
+      value: `${sectionPath}.principalId`,
+    });
+
+    section.addReference('username', {
+      label: 'Username',
+      required: false,
+      value: `${sectionPath}.userName`,
+    });
+
+    section.addReference('usertype', {
+      label: 'User type',
+      required: false,
+      value: `${sectionPath}.userType`,
+    });
   }
 
-  private addContainerDetails(): Chain {
-    const sectionId = 'container';
-    const sectionHeader = 'Container';
+
+  private addContainerDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.containerDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-name`, 'Name', `${sectionPath}.name`))
-        .next(this.addSectionField(`${sectionId}-id`, 'ID', `${sectionPath}.id`))
-        .next(this.addSectionField(`${sectionId}-image`, 'Image', `${sectionPath}.image`))
-        .next(this.addSectionField(`${sectionId}-runtime`, 'Runtime', `${sectionPath}.containerRuntime`))
-        .next(this.addSectionField(`${sectionId}-privileged`, 'Privileged', `${sectionPath}.privileged`)));
+    const section = builder.addSection('container', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'Container details',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      required: false,
+      value: `${sectionPath}.name`,
+    });
+
+    section.addReference('id', {
+      label: 'ID',
+      required: false,
+      value: `${sectionPath}.id`,
+    });
+
+    section.addReference('image', {
+      label: 'Image',
+      required: false,
+      value: `${sectionPath}.image`,
+    });
+
+    section.addReference('runtime', {
+      label: 'Runtime',
+      required: false,
+      value: `${sectionPath}.containerRuntime`,
+    });
+
+    section.addReference('privileged', {
+      label: 'Privileged',
+      required: false,
+      value: `${sectionPath}.privileged`,
+    });
   }
 
+
   protected addDefaultTrigger(): IssueTrigger {
     return this.registerIssueTrigger('default');
   }
 
-  private addEcsClusterDetails(): Chain {
-    const sectionId = 'ecs-cluster';
-    const sectionHeader = 'ECS Cluster';
+  private addEcsClusterDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.ecsClusterDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-name`, 'Name', `${sectionPath}.name`))
-        .next(this.addSectionField(`${sectionId}-arn`, 'ARN', `${sectionPath}.arn`))
-        .next(this.addSectionField(`${sectionId}-task-arn`, 'Task ARN', `${sectionPath}.taskDetails.arn`))
-        .next(this.addSectionField(`${sectionId}-taskdef-arn`, 'Task Definition ARN', `${sectionPath}.taskDetails.definitionArn`))
-        .next(this.addSectionField(`${sectionId}-taskdef-version`, 'Task Definition Version', `${sectionPath}.taskDetails.version`))
-        .next(this.addSectionField(`${sectionId}-started-by`, 'Task Started By', `${sectionPath}.taskDetails.startedBy`))
-        .next(this.addSectionField(`${sectionId}-task-group`, 'Task Group', `${sectionPath}.taskDetails.group`)));
+    const section = builder.addSection('ecs-cluster', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'ECS Cluster details',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      required: false,
+      value: `${sectionPath}.name`,
+    });
+
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: `${sectionPath}.arn`,
+    });
+
+    section.addReference('task-arn', {
+      label: 'Task ARN',
+      required: false,
+      value: `${sectionPath}.taskDetails.arn`,
+    });
+
+    section.addReference('taskdef-arn', {
+      label: 'Task Definition ARN',
+      required: false,
+      value: `${sectionPath}.taskDetails.definitionArn`,
+    });
+
+    section.addReference('taskdef-version', {
+      label: 'Task Definition Version',
+      required: false,
+      value: `${sectionPath}.taskDetails.version`,
+    });
+
+    section.addReference('started-by', {
+      label: 'Task Started By',
+      required: false,
+      value: `${sectionPath}.taskDetails.startedBy`,
+    });
+
+    section.addReference('task-group', {
+      label: 'Task Group',
+      required: false,
+      value: `${sectionPath}.taskDetails.group`,
+    });
   }
 
-  private addEksClusterDetails(): Chain {
-    const sectionId = 'eks-cluster';
-    const sectionHeader = 'EKS Cluster';
+
+  private addEksClusterDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.eksClusterDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-name`, 'Name', `${sectionPath}.name`))
-        .next(this.addSectionField(`${sectionId}-arn`, 'ARN', `${sectionPath}.arn`)));
+    const section = builder.addSection('eks-cluster', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'EKS Cluster details',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      required: false,
+      value: `${sectionPath}.name`,
+    });
+
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: `${sectionPath}.arn`,
+    });
   }
 
-  private addInstanceDetails(): Chain {
-    const sectionId = 'instance';
-    const sectionHeader = 'Instance';
+
+  private addInstanceDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.instanceDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-id`, 'ID', `${sectionPath}.instanceId`)));
+    const section = builder.addSection('instance', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'Instance details',
+    });
+
+    section.addReference('id', {
+      label: 'ID',
+      required: false,
+      value: `${sectionPath}.instanceId`,
+    });
   }
 
-  private addKubernetesDetails(): Chain {
-    const sectionId = 'kubernetes';
-    const sectionHeader = 'Kubernetes';
+
+  private addKubernetesDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.kubernetesDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-username`, 'Username', `${sectionPath}.kubernetesUserDetails.username`))
-        .next(this.addSectionField(`${sectionId}-userid`, 'User ID', `${sectionPath}.kubernetesUserDetails.uid`))
-        .next(this.addSectionField(`${sectionId}-namespace`, 'Namespace', `${sectionPath}.kubernetesWorkloadDetails.namespace`))
-        .next(this.addSectionField(`${sectionId}-workload-name`, 'Workload name', `${sectionPath}.kubernetesWorkloadDetails.name`))
-        .next(this.addSectionField(`${sectionId}-workload-type`, 'Workload type', `${sectionPath}.kubernetesWorkloadDetails.type`))
-        .next(this.addSectionField(`${sectionId}-workload-id`, 'Workload ID', `${sectionPath}.kubernetesWorkloadDetails.uid`)));
+    const section = builder.addSection('kubernetes', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'Kubernetes details',
+    });
+
+    section.addReference('username', {
+      label: 'Username',
+      required: false,
+      value: `${sectionPath}.kubernetesUserDetails.username`,
+    });
+
+    section.addReference('userid', {
+      label: 'User ID',
+      required: false,
+      value: `${sectionPath}.kubernetesUserDetails.uid`,
+    });
+
+    section.addReference('namespace', {
+      label: 'Namespace',
+      required: false,
+      value: `${sectionPath}.kubernetesWorkloadDetails.namespace`,
+    });
+
+    section.addReference('workload-name', {
+      label: 'Workload name',
+      required: false,
+      value: `${sectionPath}.kubernetesWorkloadDetails.name`,
+    });
+
+    section.addReference('workload-type', {
+      label: 'Workload type',
+      required: false,
+      value: `${sectionPath}.kubernetesWorkloadDetails.type`,
+    });
+
+    section.addReference('workload-id', {
+      label: 'Workload ID',
+      required: false,
+      value: `${sectionPath}.kubernetesWorkloadDetails.uid`,
+    });
   }
 
-  private addLambdaDetails(): Chain {
-    const sectionId = 'lambda';
-    const sectionHeader = 'Lambda';
+
+  private addLambdaDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.lambdaDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-name`, 'Name', `${sectionPath}.functionName`))
-        .next(this.addSectionField(`${sectionId}-arn`, 'ARN', `${sectionPath}.functionArn`))
-        .next(this.addSectionField(`${sectionId}-version`, 'Version', `${sectionPath}.functionVersion`))
-        .next(this.addSectionField(`${sectionId}-role`, 'Role', `${sectionPath}.role`)));
+    const section = builder.addSection('lambda', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'Lambda details',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      required: false,
+      value: `${sectionPath}.functionName`,
+    });
+
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: `${sectionPath}.functionArn`,
+    });
+
+    section.addReference('version', {
+      label: 'Version',
+      required: false,
+      value: `${sectionPath}.functionVersion`,
+    });
+
+    section.addReference('role', {
+      label: 'Role',
+      required: false,
+      value: `${sectionPath}.role`,
+    });
   }
 
-  private addRdsDbInstanceDetails(): Chain {
-    const sectionId = 'rds-db-instance';
-    const sectionHeader = 'RDS DB Instance';
+
+  private addRdsDbInstanceDetails(builder: DescriptionBuilder): void {
     const sectionPath = '$.Detail.resource.rdsDbInstanceDetails';
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-instance-id`, 'Instance ID', `${sectionPath}.dbInstanceIdentifier`))
-        .next(this.addSectionField(`${sectionId}-cluster-id`, 'Cluster ID', `${sectionPath}.dbClusterIdentifier`))
-        .next(this.addSectionField(`${sectionId}-arn`, 'ARN', `${sectionPath}.dbInstanceArn`))
-        .next(this.addSectionField(`${sectionId}-engine`, 'Engine', `${sectionPath}.engine`))
-        .next(this.addSectionField(`${sectionId}-engine-version`, 'Engine Version', `${sectionPath}.engineVersion`)));
-  }
+    const section = builder.addSection('rds-db-instance', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'RDS DB Instance details',
+    });
 
-  private addS3BucketDetails(): Chain {
-    const sectionId = 's3-bucket';
-    const sectionHeader = 'S3 Bucket';
-    const sectionPath = '$.Detail.resource.s3BucketDetails';
+    section.addReference('instance-id', {
+      label: 'Instance ID',
+      required: false,
+      value: `${sectionPath}.dbInstanceIdentifier`,
+    });
 
-    return this.addSectionCheck(sectionId, sectionPath,
-      this.addSectionHeader(sectionId, sectionHeader)
-        .next(this.addSectionField(`${sectionId}-name`, 'Name', `${sectionPath}.name`))
-        .next(this.addSectionField(`${sectionId}-arn`, 'ARN', `${sectionPath}.arn`)),
-    );
-  }
+    section.addReference('cluster-id', {
+      label: 'Cluster ID',
+      required: false,
+      value: `${sectionPath}.dbClusterIdentifier`,
+    });
 
-  private addSectionCheck(id: string, path: string, chain: Chain): Chain {
-    return new Choice(this, `section-check-${id}`)
-      .when(Condition.isPresent(path), chain)
-      .afterwards({ includeOtherwise: true });
-  }
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: `${sectionPath}.dbInstanceArn`,
+    });
 
-  private addSectionHeader(id: string, section: string): Pass {
-    return new Pass(this, `add-${id}-header`, {
-      parameters: {
-        'Builder.$': SfnFn.format(`{}\n\n${section} details:`, [
-          '$.Description.Builder',
-        ]),
-      },
-      resultPath: '$.Description',
+    section.addReference('engine', {
+      label: 'Engine',
+      required: false,
+      value: `${sectionPath}.engine`,
+    });
+
+    section.addReference('engine-version', {
+      label: 'Engine Version',
+      required: false,
+      value: `${sectionPath}.engineVersion`,
     });
   }
 
-  public addSectionField(id: string, key: string, path: string): Chain {
-    const check = new Choice(this, `field-check-${id}`);
 
-    const add = new Pass(this, `field-add-${id}`, {
-      parameters: {
-        'Builder.$': SfnFn.format(`{}\n${key}: {}`, [
-          '$.Description.Builder',
-          path,
-        ]),
-      },
-      resultPath: '$.Description',
+  private addS3BucketDetails(builder: DescriptionBuilder): void {
+    const sectionPath = '$.Detail.resource.s3BucketDetails';
+
+    const section = builder.addSection('s3-bucket', {
+      referenceChecks: [
+        sectionPath,
+      ],
+      title: 'S3 Bucket details',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      required: false,
+      value: `${sectionPath}.name`,
     });
 
-    return check
-      .when(Condition.isPresent(path), add)
-      .afterwards({ includeOtherwise: true });
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: `${sectionPath}.arn`,
+    });
   }
 
   public bind(_scope: IConstruct): IssueTrigger[] {
@@ -345,6 +490,47 @@ export class GuardDutyFinding extends IssueParserPluginBase {
     return this.triggers;
   }
 
+  protected buildDescription(): DescriptionBuilder {
+    const findingUrl = this.buildFindingUrl();
+
+    const baseDescription = [
+      'AWS Guard Duty detected a potential {} level security event. Details',
+      `of the event can be reviewed at the following link:\n${findingUrl}`,
+    ].join(' ');
+
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: SfnFn.format(baseDescription, [
+        '$.Severity.Text',
+        '$.Detail.id',
+      ]),
+    });
+
+    this.addInstanceDetails(builder);
+    this.addLambdaDetails(builder);
+    this.addRdsDbInstanceDetails(builder);
+    this.addEcsClusterDetails(builder);
+    this.addEksClusterDetails(builder);
+    this.addKubernetesDetails(builder);
+    this.addContainerDetails(builder);
+    this.addS3BucketDetails(builder);
+    this.addAccessKeyDetails(builder);
+
+    return builder;
+  }
+
+  /**
+   * Builds a template for the URL of a finding in the GuardDuty console
+   * where `{}` is replaced with the ID of the finding.
+   */
+  private buildFindingUrl(): string {
+    return [
+      `https://${this.stack.region}.console.aws.amazon.com`,
+      'guardduty',
+      `home?region=${this.stack.region}#`,
+      'findings?macros=current&fId={}',
+    ].join('/');
+  }
+
   protected buildSeverityMap(): Chain {
     const severityPath = '$.Detail.severity';
 
@@ -375,6 +561,40 @@ export class GuardDutyFinding extends IssueParserPluginBase {
       .afterwards();
   }
 
+  /**
+   * Determines whether the finding is still active or whether it has been
+   * archived.
+   *
+   * Archived findings are reported with a status of `RESOLVED` so that issue
+   * handlers which support it can close out any notifications that were
+   * previously raised for the finding.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(Condition.and(
+        Condition.isPresent('$.Detail.service.archived'),
+        Condition.booleanEquals('$.Detail.service.archived', true),
+      ), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
   public registerIssueTrigger(id: string, options: GuardDutyFindingRuleOptions = {}): IssueTrigger {
     const severityLevels = options.severity ?? GuardDutySeverity.threshold(GuardDutySeverity.CRITICAL);
 
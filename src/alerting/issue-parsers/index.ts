@@ -1,9 +1,18 @@
+export * from './alert-manager-alert';
+export * from './access-analyzer-finding';
+export * from './aws-health-event';
+export * from './budget-notification';
+export * from './cloudtrail-activity';
+export * from './cloudwatch-alarm';
 export * from './config-compliance-change';
+export * from './cost-anomaly';
 export * from './description-builder';
 export * from './ecr-scan-finding';
 export * from './guard-duty-finding';
 export * from './inspector-finding';
 export * from './issue-parser';
 export * from './issue-parser-plugin-base';
+export * from './macie-finding';
 export * from './opensearch-event';
-export * from './security-hub-finding';
\ No newline at end of file
+export * from './security-hub-finding';
+export * from './trusted-advisor-check';
\ No newline at end of file
@@ -105,6 +105,8 @@ export class InspectorFinding extends IssueParserPluginBase implements IIssuePar
       parameters: {
         'Alert': true,
         'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'FindingType.$': '$.Detail.type',
         'Summary.$': SfnFn.format('Inspector - {} - {}', [
           '$.Detail.type',
           '$.Detail.title',
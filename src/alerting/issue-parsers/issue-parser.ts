@@ -1,17 +1,54 @@
 import { IConstruct } from 'constructs';
+import { AccessAnalyzerFinding, AccessAnalyzerFindingProps } from './access-analyzer-finding';
+import { AlertManagerAlert, AlertManagerAlertProps } from './alert-manager-alert';
+import { AwsHealthEvent, AwsHealthEventProps } from './aws-health-event';
+import { BudgetNotification, BudgetNotificationProps } from './budget-notification';
+import { CloudTrailActivity, CloudTrailActivityProps } from './cloudtrail-activity';
+import { CloudWatchAlarm, CloudWatchAlarmProps } from './cloudwatch-alarm';
 import { ConfigComplianceChange, ConfigComplianceChangeProps } from './config-compliance-change';
+import { CostAnomaly, CostAnomalyProps } from './cost-anomaly';
 import { EcrScanFinding, EcrScanFindingProps } from './ecr-scan-finding';
 import { GuardDutyFinding, GuardDutyFindingProps } from './guard-duty-finding';
 import { InspectorFinding, InspectorFindingProps } from './inspector-finding';
+import { MacieFinding, MacieFindingProps } from './macie-finding';
 import { OpenSearchEvent, OpenSearchEventProps } from './opensearch-event';
 import { SecurityHubFinding, SecurityHubFindingProps } from './security-hub-finding';
+import { TrustedAdvisorCheck, TrustedAdvisorCheckProps } from './trusted-advisor-check';
 
 
 export class IssueParser {
+  public static accessAnalyzerFinding(scope: IConstruct, id: string, props: AccessAnalyzerFindingProps = {}): AccessAnalyzerFinding {
+    return new AccessAnalyzerFinding(scope, id, props);
+  }
+
+  public static alertManagerAlert(scope: IConstruct, id: string, props: AlertManagerAlertProps = {}): AlertManagerAlert {
+    return new AlertManagerAlert(scope, id, props);
+  }
+
+  public static awsHealthEvent(scope: IConstruct, id: string, props: AwsHealthEventProps = {}): AwsHealthEvent {
+    return new AwsHealthEvent(scope, id, props);
+  }
+
+  public static budgetNotification(scope: IConstruct, id: string, props: BudgetNotificationProps = {}): BudgetNotification {
+    return new BudgetNotification(scope, id, props);
+  }
+
+  public static cloudTrailActivity(scope: IConstruct, id: string, props: CloudTrailActivityProps = {}): CloudTrailActivity {
+    return new CloudTrailActivity(scope, id, props);
+  }
+
+  public static cloudWatchAlarm(scope: IConstruct, id: string, props: CloudWatchAlarmProps = {}): CloudWatchAlarm {
+    return new CloudWatchAlarm(scope, id, props);
+  }
+
   public static configComplianceChange(scope: IConstruct, id: string, props: ConfigComplianceChangeProps = {}): ConfigComplianceChange {
     return new ConfigComplianceChange(scope, id, props);
   }
 
+  public static costAnomaly(scope: IConstruct, id: string, props: CostAnomalyProps = {}): CostAnomaly {
+    return new CostAnomaly(scope, id, props);
+  }
+
   public static ecrScanFinding(scope: IConstruct, id: string, props: EcrScanFindingProps = {}): EcrScanFinding {
     return new EcrScanFinding(scope, id, props);
   }
@@ -24,6 +61,10 @@ export class IssueParser {
     return new InspectorFinding(scope, id, props);
   }
 
+  public static macieFinding(scope: IConstruct, id: string, props: MacieFindingProps = {}): MacieFinding {
+    return new MacieFinding(scope, id, props);
+  }
+
   public static openSearchEvent(scope: IConstruct, id: string, props: OpenSearchEventProps = {}): OpenSearchEvent {
     return new OpenSearchEvent(scope, id, props);
   }
@@ -31,4 +72,8 @@ export class IssueParser {
   public static securityHubFinding(scope: IConstruct, id: string, props: SecurityHubFindingProps = {}): SecurityHubFinding {
     return new SecurityHubFinding(scope, id, props);
   }
+
+  public static trustedAdvisorCheck(scope: IConstruct, id: string, props: TrustedAdvisorCheckProps = {}): TrustedAdvisorCheck {
+    return new TrustedAdvisorCheck(scope, id, props);
+  }
 }
@@ -0,0 +1,354 @@
+import { Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
+
+
+export class MacieSeverity {
+  public static readonly LOW: MacieSeverity = MacieSeverity.of('Low', 1, 'LOW');
+  public static readonly MEDIUM: MacieSeverity = MacieSeverity.of('Medium', 2, 'MEDIUM');
+  public static readonly HIGH: MacieSeverity = MacieSeverity.of('High', 3, 'HIGH');
+
+  public static of(name: string, score: number, standardized: string): MacieSeverity {
+    return new MacieSeverity(name, score, standardized);
+  }
+
+
+  public readonly name: string;
+  public readonly score: number;
+  public readonly standardized: string;
+
+  private constructor(name: string, score: number, standardized: string) {
+    this.name = name;
+    this.score = score;
+    this.standardized = standardized;
+  }
+
+  public buildCondition(path: string): Condition {
+    return Condition.and(
+      Condition.isPresent(path),
+      Condition.stringEquals(path, this.name),
+    );
+  }
+}
+
+export interface IMacieSeverityConfiguration {
+  readonly levels: MacieSeverity[];
+}
+
+export class MacieSeverityConfiguration {
+  public static all(): IMacieSeverityConfiguration {
+    return {
+      levels: [...MacieFinding.SEVERITIES],
+    };
+  }
+
+  public static custom(...levels: MacieSeverity[]): IMacieSeverityConfiguration {
+    return {
+      levels: levels,
+    };
+  }
+
+  public static threshold(level: MacieSeverity): IMacieSeverityConfiguration {
+    return {
+      levels: MacieFinding.SEVERITIES.filter((x) => {
+        return x.score >= level.score;
+      }),
+    };
+  }
+}
+
+export interface MacieFindingEventOptions {
+  readonly overrides?: IssueHandlerOverride[];
+  readonly severity?: IMacieSeverityConfiguration;
+}
+
+export interface MacieFindingProps extends IssueParserPluginBaseProps {}
+
+/**
+ * Parses sensitive data and policy findings published by Amazon Macie.
+ *
+ * @see [Amazon EventBridge event schema for Macie findings](https://docs.aws.amazon.com/macie/latest/user/findings-publish-event-schemas.html)
+ */
+export class MacieFinding extends IssueParserPluginBase implements IIssueParser {
+  public static readonly MATCH_TYPE: string = 'MacieFinding';
+  public static readonly SEVERITIES: MacieSeverity[] = [
+    MacieSeverity.LOW,
+    MacieSeverity.MEDIUM,
+    MacieSeverity.HIGH,
+  ];
+
+  // Input properties
+  public readonly name?: string;
+  public readonly timeout?: Duration;
+
+  // Resource props
+  public readonly handler: IStateMachine;
+
+
+  public constructor(scope: IConstruct, id: string, props: MacieFindingProps = {}) {
+    super(scope, id, {
+      ...props,
+      matchType: props.matchType ?? MacieFinding.MATCH_TYPE,
+    });
+
+    const findingUrl = [
+      'https://{}.console.aws.amazon.com',
+      'macie',
+      'home?region={}#findings?search=id%3D{}',
+    ].join('/');
+
+    const extractDetail = new Pass(this, 'extract-detail', {
+      parameters: {
+        'Detail.$': '$.detail',
+      },
+    });
+
+    const mapSeverity = this.buildSeverityMap();
+
+    const buildDescription = this.buildDescription();
+
+    const formatOutput = new Pass(this, 'format-output', {
+      parameters: {
+        'Alert': true,
+        'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'FindingType.$': '$.Detail.type',
+        'Id.$': '$.Detail.id',
+        'Severity.$': '$.Severity.Standardized',
+        'Status': 'OPEN',
+        'Summary.$': SfnFn.format('Macie - {}', [
+          '$.Detail.title',
+        ]),
+        'Url.$': SfnFn.format(findingUrl, [
+          '$.Detail.region',
+          '$.Detail.region',
+          '$.Detail.id',
+        ]),
+      },
+    });
+
+    const definition = extractDetail
+      .next(mapSeverity)
+      .next(buildDescription.render())
+      .next(formatOutput);
+
+    this.handler = new StateMachine(this, 'state-machine', {
+      definitionBody: DefinitionBody.fromChainable(definition),
+      logs: this.buildLogging(),
+      stateMachineName: this.name,
+      stateMachineType: StateMachineType.EXPRESS,
+      timeout: this.timeout,
+      tracingEnabled: true,
+    });
+  }
+
+  protected addDefaultTrigger(): IssueTrigger {
+    return this.registerIssueTrigger('default');
+  }
+
+  private addBucketDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('s3-bucket', {
+      referenceChecks: [
+        '$.Detail.resourcesAffected.s3Bucket',
+      ],
+      title: 'S3 Bucket',
+    });
+
+    section.addReference('name', {
+      label: 'Name',
+      required: false,
+      value: '$.Detail.resourcesAffected.s3Bucket.name',
+    });
+
+    section.addReference('arn', {
+      label: 'ARN',
+      required: false,
+      value: '$.Detail.resourcesAffected.s3Bucket.arn',
+    });
+
+    section.addReference('effective-permission', {
+      label: 'Public Access',
+      required: false,
+      value: '$.Detail.resourcesAffected.s3Bucket.publicAccess.effectivePermission',
+    });
+
+    section.addReference('owner', {
+      label: 'Owner',
+      required: false,
+      value: '$.Detail.resourcesAffected.s3Bucket.owner.displayName',
+    });
+  }
+
+  private addFindingDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('finding', {
+      title: 'Finding Information',
+    });
+
+    section.addReference('type', {
+      label: 'Type',
+      value: '$.Detail.type',
+    });
+
+    section.addReference('category', {
+      label: 'Category',
+      required: false,
+      value: '$.Detail.category',
+    });
+
+    section.addReference('account', {
+      label: 'Account',
+      value: '$.Detail.accountId',
+    });
+
+    section.addReference('region', {
+      label: 'Region',
+      value: '$.Detail.region',
+    });
+  }
+
+  private addObjectDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('s3-object', {
+      referenceChecks: [
+        '$.Detail.resourcesAffected.s3Object',
+      ],
+      title: 'S3 Object',
+    });
+
+    section.addReference('path', {
+      label: 'Path',
+      required: false,
+      value: '$.Detail.resourcesAffected.s3Object.path',
+    });
+
+    section.addReference('public-access', {
+      label: 'Public',
+      required: false,
+      value: '$.Detail.resourcesAffected.s3Object.publicAccess',
+    });
+  }
+
+  private addSensitiveData(builder: DescriptionBuilder): void {
+    const iterator = builder.addIterator('sensitive-data', {
+      arrayRef: '$.SensitiveData.Items',
+      resultPath: '$.SensitiveData.Result',
+      title: 'Sensitive Data',
+    });
+
+    iterator.addReference('category', {
+      label: 'Category',
+      value: '$.Item.category',
+    });
+
+    iterator.addReference('total-count', {
+      label: 'Occurrences',
+      required: false,
+      value: '$.Item.totalCount',
+    });
+  }
+
+  protected buildDescription(): DescriptionBuilder {
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: '$.Detail.description',
+    });
+
+    this.addFindingDetails(builder);
+    this.addBucketDetails(builder);
+    this.addObjectDetails(builder);
+    this.addSensitiveData(builder);
+
+    return builder;
+  }
+
+  /**
+   * Maps the severity of the finding onto the standardized severities and
+   * extracts the sensitive data detected in the finding.
+   *
+   * Policy findings don't include classification details so an empty list of
+   * sensitive data is used for them.
+   */
+  protected buildSeverityMap(): Chain {
+    const severityPath = '$.Detail.severity.description';
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    [...MacieFinding.SEVERITIES].reverse().forEach((x) => {
+      const setSeverity = new Pass(this, `set-${x.name.toLowerCase()}`, {
+        parameters: {
+          'Original.$': severityPath,
+          'Standardized': x.standardized.toUpperCase(),
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(x.buildCondition(severityPath), setSeverity);
+    });
+
+    const setUnknown = new Pass(this, 'set-unknown', {
+      parameters: {
+        Standardized: 'UNKNOWN',
+      },
+      resultPath: '$.Severity',
+    });
+
+    const checkSensitiveData = new Choice(this, 'check-sensitive-data');
+
+    const setSensitiveData = new Pass(this, 'set-sensitive-data', {
+      parameters: {
+        'Items.$': '$.Detail.classificationDetails.result.sensitiveData',
+      },
+      resultPath: '$.SensitiveData',
+    });
+
+    const setNoSensitiveData = new Pass(this, 'set-no-sensitive-data', {
+      parameters: {
+        Items: [],
+      },
+      resultPath: '$.SensitiveData',
+    });
+
+    return checkSeverity
+      .otherwise(setUnknown)
+      .afterwards()
+      .next(checkSensitiveData
+        .when(Condition.isPresent('$.Detail.classificationDetails.result.sensitiveData'), setSensitiveData)
+        .otherwise(setNoSensitiveData)
+        .afterwards());
+  }
+
+  public registerIssueTrigger(id: string, options: MacieFindingEventOptions = {}): IssueTrigger {
+    const severity = options.severity ?? MacieSeverityConfiguration.threshold(MacieSeverity.HIGH);
+
+    if (severity.levels.length === 0) {
+      throw new Error([
+        'At least one severity level is required when creating a Macie',
+        'finding rule.',
+      ].join(' '));
+    }
+
+    return new IssueTrigger(this, `trigger-${id}`, {
+      eventPattern: {
+        detail: {
+          severity: {
+            description: severity.levels.map((x) => {
+              return x.name;
+            }),
+          },
+        },
+        detailType: [
+          'Macie Finding',
+        ],
+        source: [
+          'aws.macie',
+        ],
+      },
+      overrides: options.overrides,
+      parser: this,
+    });
+  }
+}
@@ -222,10 +222,11 @@ export class OpenSearchEvent extends IssueParserPluginBase implements IIssuePars
       parameters: {
         'Alert': true,
         'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
         'Summary.$': SfnFn.format('OpenSearch - {} ({}) - {}', [
           '$.Detail.event',
           '$.Detail.status',
-          '$.Domain.name',
+          '$.Domain.Name',
         ]),
       },
     });
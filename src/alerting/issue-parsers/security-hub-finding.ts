@@ -2,6 +2,7 @@ import { ArnFormat, Duration } from 'aws-cdk-lib';
 import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
 import { CallAwsService } from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
 import { SfnFn } from '../../stepfunctions';
 import { IssueHandlerOverride } from '../issue-handler-override';
 import { IIssueParser } from '../issue-manager';
@@ -61,6 +62,17 @@ export class SecurityHubSeverityConfiguration {
 }
 
 export interface SecurityHubFindingEventOptions {
+  /**
+   * Whether findings that have been resolved should also be passed to the
+   * issue manager.
+   *
+   * Resolved findings are reported with a status of `RESOLVED` so that issue
+   * handlers which support it can close out any notifications that were
+   * previously raised for the finding.
+   *
+   * @default false
+   */
+  readonly includeResolved?: boolean;
   readonly overrides?: IssueHandlerOverride[];
   readonly severity?: ISecurityHubSeverityConfiguration;
 }
@@ -115,6 +127,8 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
 
     const mapSeverity = this.buildSeverityMap();
 
+    const mapStatus = this.buildStatusMap();
+
     const setFindingNotified = new CallAwsService(this, 'set-finding-notified', {
       action: 'batchUpdateFindings',
       iamResources: [this.stack.formatArn({
@@ -136,19 +150,29 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
       service: 'securityhub',
     });
 
+    const checkNotify = new Choice(this, 'check-notify');
+
     const formatOutput = new Pass(this, 'format-output', {
       parameters: {
         'Alert': true,
         'Description.$': '$.Description.Builder',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'FindingType.$': '$.Finding.Types[0]',
+        'Id.$': '$.Finding.Id',
         'Severity.$': '$.Resolved.Severity',
+        'Status.$': '$.Status.Value',
         'Summary.$': '$.Finding.Title',
+        'Url.$': '$.FindingUrl.Formatted',
       },
     });
 
     const definition = extractFinding
       .next(buildDescription)
       .next(mapSeverity)
-      .next(setFindingNotified)
+      .next(mapStatus)
+      .next(checkNotify
+        .when(Condition.stringEquals('$.Status.Value', 'OPEN'), setFindingNotified)
+        .afterwards({ includeOtherwise: true }))
       .next(formatOutput);
 
     this.handler = new StateMachine(this, 'state-machine', {
@@ -170,155 +194,60 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
   }
 
   protected buildDescription(): Chain {
-    const initializeDescriptionBuilder = new Pass(this, 'initialize-description-builder', {
-      parameters: {
-        'Builder.$': '$.Finding.Description',
-      },
-      resultPath: '$.Description',
-    });
-
-    const addAwsAccount = new Pass(this, 'add-aws-account', {
-      parameters: {
-        'Builder.$': SfnFn.format('{}\n\nAWS account:\n{}', [
-          '$.Description.Builder',
-          '$.Finding.AwsAccountId',
-        ]),
-      },
-      resultPath: '$.Description',
-    });
-
     const addUrl = this.buildUrl();
 
-    const addRemediation = this.buildRemediation();
-
-    const addResources = this.buildResources();
-
-    return initializeDescriptionBuilder
-      .next(addAwsAccount)
-      .next(addUrl)
-      .next(addRemediation)
-      .next(addResources);
-  }
-
-  protected buildRemediation(): Chain {
-    const checkRemediation = new Choice(this, 'check-remediation');
-
-    const addHeader = new Pass(this, 'add-remediation-header', {
-      parameters: {
-        'Builder.$': SfnFn.format('{}\n\nRemediation:', [
-          '$.Description.Builder',
-        ]),
-      },
-      resultPath: '$.Description',
+    const builder = new DescriptionBuilder(this, {
+      initialDescription: '$.Finding.Description',
     });
 
-    const checkText = new Choice(this, 'check-remediation-text');
-
-    const addText = new Pass(this, 'add-remediation-text', {
-      parameters: {
-        'Builder.$': SfnFn.format('{}\n{}', [
-          '$.Description.Builder',
-          '$.Finding.Remediation.Recommendation.Text',
-        ]),
-      },
-      resultPath: '$.Description',
+    builder.addReference('aws-account', {
+      code: true,
+      label: 'AWS account',
+      value: '$.Finding.AwsAccountId',
     });
 
-    const checkUrl = new Choice(this, 'check-remediation-url');
-
-    const addUrl = new Pass(this, 'add-remediation-url', {
-      parameters: {
-        'Builder.$': SfnFn.format('{}\n{}', [
-          '$.Description.Builder',
-          '$.Finding.Remediation.Recommendation.Url',
-        ]),
-      },
-      resultPath: '$.Description',
+    builder.addReference('finding-url', {
+      label: 'Finding details',
+      value: '$.FindingUrl.Formatted',
     });
 
-    return checkRemediation
-      .when(Condition.or(
-        Condition.isPresent('$.Finding.Remediation.Recommendation.Text'),
-        Condition.isPresent('$.Finding.Remediation.Recommendation.Url'),
-      ), addHeader
-        .next(checkText
-          .when(Condition.isPresent('$.Finding.Remediation.Recommendation.Text'), addText)
-          .afterwards({ includeOtherwise: true }))
-        .next(checkUrl
-          .when(Condition.isPresent('$.Finding.Remediation.Recommendation.Url'), addUrl)
-          .afterwards({ includeOtherwise: true })))
-      .afterwards({ includeOtherwise: true });
-  }
-
-  protected buildResources(): Chain {
-    const checkResources = new Choice(this, 'check-resources');
-
-    const addHeader = new Pass(this, 'add-resources-header', {
-      parameters: {
-        'Builder.$': SfnFn.format('{}\n\nResources:', [
-          '$.Description.Builder',
-        ]),
-      },
-      resultPath: '$.Description',
+    const remediation = builder.addSection('remediation', {
+      referenceChecks: [
+        '$.Finding.Remediation.Recommendation.Text',
+        '$.Finding.Remediation.Recommendation.Url',
+      ],
+      title: 'Remediation',
     });
 
-    const initializeIterator = new Pass(this, 'initialize-resource-iterator', {
-      parameters: {
-        'Index': 0,
-        'Length.$': SfnFn.arrayLength('$.Finding.Resources'),
-      },
-      resultPath: '$.ResourceIterator',
+    remediation.addReference('text', {
+      required: false,
+      value: '$.Finding.Remediation.Recommendation.Text',
     });
 
-    const iterateResource = new Choice(this, 'iterate-resource');
+    remediation.addReference('url', {
+      required: false,
+      value: '$.Finding.Remediation.Recommendation.Url',
+    });
 
-    const getResource = new Pass(this, 'get-resource', {
-      parameters: {
-        'Details.$': SfnFn.arrayGetItem(
-          '$.Finding.Resources',
-          '$.ResourceIterator.Index',
-        ),
-      },
-      resultPath: '$.Resource',
+    const resources = builder.addSection('resources', {
+      referenceChecks: [
+        '$.Finding.Resources[0]',
+      ],
+      title: 'Resources',
     });
 
-    const addResource = new Pass(this, 'add-resource', {
-      parameters: {
-        'Builder.$': SfnFn.format('{}\n{}', [
-          '$.Description.Builder',
-          '$.Resource.Details.Id',
-        ]),
-      },
-      resultPath: '$.Description',
+    const resourceIterator = resources.addIterator('resource', {
+      arrayRef: '$.Finding.Resources',
+      resultPath: '$.Resources',
     });
 
-    const step = new Pass(this, 'step-resource-iterator', {
-      parameters: {
-        'Index.$': SfnFn.mathAdd('$.ResourceIterator.Index', 1),
-        'Length.$': '$.ResourceIterator.Length',
-      },
-      resultPath: '$.ResourceIterator',
+    resourceIterator.addReference('id', {
+      code: true,
+      value: '$.Item.Id',
     });
 
-    // An ugly workaround for:
-    // https://github.com/aws/aws-cdk/issues/16218
-    const finalize = new Pass(this, 'finalize-resources');
-
-    return checkResources
-      .when(Condition.isPresent('$.Finding.Resources'), addHeader
-        .next(initializeIterator)
-        .next(iterateResource
-          .when(Condition.numberLessThanJsonPath(
-            '$.ResourceIterator.Index',
-            '$.ResourceIterator.Length',
-          ), getResource
-            .next(addResource)
-            .next(step)
-            .next(iterateResource))
-          .otherwise(finalize)
-          .afterwards()))
-      .otherwise(finalize)
-      .afterwards();
+    return addUrl
+      .next(builder.render());
   }
 
   protected buildSeverityMap(): Chain {
@@ -355,6 +284,42 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
     return checkSeverity.afterwards({ includeOtherwise: true });
   }
 
+  /**
+   * Determines whether the finding is still active or whether it has been
+   * resolved or archived.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(Condition.or(
+        Condition.and(
+          Condition.isPresent('$.Finding.Workflow.Status'),
+          Condition.stringEquals('$.Finding.Workflow.Status', 'RESOLVED'),
+        ),
+        Condition.and(
+          Condition.isPresent('$.Finding.RecordState'),
+          Condition.stringEquals('$.Finding.RecordState', 'ARCHIVED'),
+        ),
+      ), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
   protected buildUrl(): Chain {
     const findingUrl = [
       `https://${this.stack.region}.console.aws.amazon.com`,
@@ -458,16 +423,13 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
       resultPath: '$.UrlBuilder.Iterator',
     });
 
-    const addFindingUrl = new Pass(this, 'add-finding-url', {
+    const formatFindingUrl = new Pass(this, 'format-finding-url', {
       parameters: {
-        'Builder.$': SfnFn.format(
-          `{}\n\nFinding details:\n${findingUrl}`, [
-            '$.Description.Builder',
-            '$.UrlBuilder.Iterator.Text',
-          ],
-        ),
+        'Formatted.$': SfnFn.format(findingUrl, [
+          '$.UrlBuilder.Iterator.Text',
+        ]),
       },
-      resultPath: '$.Description',
+      resultPath: '$.FindingUrl',
     });
 
     return setOperations
@@ -487,7 +449,7 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
             .afterwards({ includeOtherwise: true })
             .next(step)))
         .afterwards({ includeOtherwise: true }))
-      .next(addFindingUrl);
+      .next(formatFindingUrl);
   }
 
   public registerIssueTrigger(id: string, options: SecurityHubFindingEventOptions = {}): IssueTrigger {
@@ -519,7 +481,10 @@ export class SecurityHubFinding extends IssuePluginBase implements IIssueParser
               ],
             },
             Workflow: {
-              Status: [
+              Status: options.includeResolved ? [
+                'NEW',
+                'RESOLVED',
+              ] : [
                 'NEW',
               ],
             },
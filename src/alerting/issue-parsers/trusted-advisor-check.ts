@@ -1,12 +1,12 @@
-/*import { Duration } from "aws-cdk-lib";
-import { IIssueParser } from "../issue-manager";
-import { IssueParserPluginBase, IssueParserPluginBaseProps } from "./issue-parser-plugin-base";
-import { Condition, IStateMachine, Pass, StateMachine, StateMachineType } from "aws-cdk-lib/aws-stepfunctions";
-import { IConstruct } from "constructs";
-import { SfnFn } from "../../stepfunctions";
-import { IssueTrigger } from "../issue-trigger";
-import { DescriptionBuilder } from "./description-builder";
-import { IssueHandlerOverride } from "../issue-handler-override";
+import { Duration } from 'aws-cdk-lib';
+import { Chain, Choice, Condition, DefinitionBody, IStateMachine, Pass, StateMachine, StateMachineType } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { DescriptionBuilder } from './description-builder';
+import { IssueParserPluginBase, IssueParserPluginBaseProps } from './issue-parser-plugin-base';
+import { SfnFn } from '../../stepfunctions';
+import { IssueHandlerOverride } from '../issue-handler-override';
+import { IIssueParser } from '../issue-manager';
+import { IssueTrigger } from '../issue-trigger';
 
 
 export class TrustedAdvisorCheckSeverity {
@@ -54,12 +54,29 @@ export class TrustedAdvisorCheckSeverity {
 }
 
 export interface TrustedAdvisorCheckRuleOptions {
+  /**
+   * The names of the Trusted Advisor checks that the trigger should match,
+   * for example `Service Limits` or `Low Utilization Amazon EC2 Instances`.
+   *
+   * @default All checks
+   */
+  readonly checks?: string[];
+
   readonly overrides?: IssueHandlerOverride[];
   readonly severity?: TrustedAdvisorCheckSeverity[];
 }
 
 export interface TrustedAdvisorCheckProps extends IssueParserPluginBaseProps {}
 
+/**
+ * Parses the events generated when Trusted Advisor refreshes the status of a
+ * check item.
+ *
+ * Trusted Advisor only publishes events to EventBridge in the `us-east-1`
+ * region so the issue manager using this parser must be deployed there.
+ *
+ * @see [Monitoring AWS Trusted Advisor check results with Amazon EventBridge](https://docs.aws.amazon.com/awssupport/latest/user/cloudwatch-events-ta.html)
+ */
 export class TrustedAdvisorCheck extends IssueParserPluginBase implements IIssueParser {
   public static readonly MATCH_TYPE: string = 'TrustedAdvisorCheck';
   public static readonly SEVERITIES: TrustedAdvisorCheckSeverity[] = [
@@ -85,26 +102,46 @@ export class TrustedAdvisorCheck extends IssueParserPluginBase implements IIssue
 
     const extractDetail = new Pass(this, 'extract-detail', {
       parameters: {
+        'Check': {
+          'Account.$': '$.account',
+          'ItemDetail.$': "$.detail['check-item-detail']",
+          'Name.$': "$.detail['check-name']",
+          'Region.$': '$.region',
+          'ResourceId.$': '$.detail.resource_id',
+          'Status.$': '$.detail.status',
+        },
         'Detail.$': '$.detail',
       },
     });
 
+    const mapSeverity = this.buildSeverityMap();
+
     const buildDescription = this.buildDescription();
 
+    const mapStatus = this.buildStatusMap();
+
     const formatOutput = new Pass(this, 'format-output', {
       parameters: {
         'Alert': true,
         'Description.$': '$.Description.Builder',
-        'Summary.$': SfnFn.format('OpenSearch - {} ({}) - {}', [
-          '$.Detail.event',
-          '$.Detail.status',
-          '$.Domain.name',
+        'DescriptionFormats.$': '$.Description.Formats',
+        'Id.$': SfnFn.format('{}/{}', [
+          '$.Check.Name',
+          '$.Check.ResourceId',
+        ]),
+        'Severity.$': '$.Severity.Standardized',
+        'Status.$': '$.Status.Value',
+        'Summary.$': SfnFn.format('Trusted Advisor - {} ({})', [
+          '$.Check.Name',
+          '$.Check.Status',
         ]),
       },
     });
 
     const definition = extractDetail
+      .next(mapSeverity)
       .next(buildDescription.render())
+      .next(mapStatus)
       .next(formatOutput);
 
     this.handler = new StateMachine(this, 'state-machine', {
@@ -121,55 +158,120 @@ export class TrustedAdvisorCheck extends IssueParserPluginBase implements IIssue
     return this.registerIssueTrigger('default');
   }
 
-  private addDomainDetails(builder: DescriptionBuilder): void {
-    const url = [
-      `https://{}.console.aws.amazon.com`,
-      'aos',
-      `home?region={}#opensearch`,
-      'domains',
-      '{}'
-    ].join('/');
-
-    const section = builder.addSection('domain', {
-      title: 'Domain Information'
+  private addCheckDetails(builder: DescriptionBuilder): void {
+    const section = builder.addSection('check', {
+      title: 'Check Information',
     });
 
     section.addReference('name', {
       label: 'Name',
-      value: '$.Domain.Name',
+      value: '$.Check.Name',
+    });
+
+    section.addReference('status', {
+      label: 'Status',
+      value: '$.Check.Status',
     });
 
-    section.addReference('arn', {
-      label: 'ARN',
-      value: '$.Domain.Arn',
+    section.addReference('resource-id', {
+      label: 'Resource ID',
+      value: '$.Check.ResourceId',
     });
 
-    section.addReference('console', {
-      label: 'Console',
-      value: SfnFn.format(url, [
-        '$.Domain.Region',
-        '$.Domain.Region',
-        '$.Domain.Name',
-      ]),
+    section.addReference('account', {
+      label: 'Account',
+      value: '$.Check.Account',
+    });
+
+    section.addReference('item-detail', {
+      label: 'Details',
+      value: SfnFn.jsonToString('$.Check.ItemDetail'),
     });
   }
 
   protected buildDescription(): DescriptionBuilder {
     const builder = new DescriptionBuilder(this, {
-      initialDescription: '$.Detail.description',
+      initialDescription: 'Trusted Advisor has reported a change in the status of a check item.',
     });
 
-    this.addDomainDetails(builder);
+    this.addCheckDetails(builder);
 
     return builder;
   }
 
+  protected buildSeverityMap(): Chain {
+    const statusPath = '$.Check.Status';
+
+    const checkSeverity = new Choice(this, 'check-severity');
+
+    [...TrustedAdvisorCheck.SEVERITIES].reverse().forEach((x) => {
+      const setSeverity = new Pass(this, `set-${x.original.toLowerCase()}`, {
+        parameters: {
+          'Original.$': statusPath,
+          'Standardized': x.standardized.toUpperCase(),
+        },
+        resultPath: '$.Severity',
+      });
+
+      checkSeverity.when(x.buildCondition(statusPath), setSeverity);
+    });
+
+    const setUnknown = new Pass(this, 'set-unknown', {
+      parameters: {
+        Standardized: 'UNKNOWN',
+      },
+      resultPath: '$.Severity',
+    });
+
+    return checkSeverity
+      .otherwise(setUnknown)
+      .afterwards();
+  }
+
+  /**
+   * Determines whether the check item still requires attention.
+   *
+   * Check items that have returned to an `OK` status are reported as
+   * `RESOLVED` so that issue handlers which support it can close out any
+   * notifications that were previously raised for the item.
+   */
+  protected buildStatusMap(): Chain {
+    const checkStatus = new Choice(this, 'check-status');
+
+    const setResolved = new Pass(this, 'set-status-resolved', {
+      parameters: {
+        Value: 'RESOLVED',
+      },
+      resultPath: '$.Status',
+    });
+
+    const setOpen = new Pass(this, 'set-status-open', {
+      parameters: {
+        Value: 'OPEN',
+      },
+      resultPath: '$.Status',
+    });
+
+    return checkStatus
+      .when(TrustedAdvisorCheckSeverity.OK.buildCondition('$.Check.Status'), setResolved)
+      .otherwise(setOpen)
+      .afterwards();
+  }
+
   public registerIssueTrigger(id: string, options: TrustedAdvisorCheckRuleOptions = {}): IssueTrigger {
     const severityLevels = options.severity ?? TrustedAdvisorCheckSeverity.threshold(TrustedAdvisorCheckSeverity.WARN);
 
+    if (severityLevels.length === 0) {
+      throw new Error([
+        'At least one severity level is required when creating a Trusted',
+        'Advisor check rule.',
+      ].join(' '));
+    }
+
     return new IssueTrigger(this, `trigger-${id}`, {
       eventPattern: {
         detail: {
+          'check-name': options.checks,
           'status': severityLevels.map((x) => {
             return x.original;
           }),
@@ -185,4 +287,4 @@ export class TrustedAdvisorCheck extends IssueParserPluginBase implements IIssue
       parser: this,
     });
   }
-}*/
\ No newline at end of file
+}
@@ -0,0 +1,193 @@
+import { RemovalPolicy, Resource, ResourceProps } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ITable, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Chain, Choice, Condition, JsonPath, Pass } from 'aws-cdk-lib/aws-stepfunctions';
+import { DynamoAttributeValue, DynamoDeleteItem, DynamoGetItem, DynamoPutItem } from 'aws-cdk-lib/aws-stepfunctions-tasks';
+import { IConstruct } from 'constructs';
+import { IIssueHandler } from './issue-manager';
+import { SfnFn } from '../stepfunctions';
+
+
+export interface IssueTrackingProps extends ResourceProps {
+  /**
+   * The table used to store references to the tickets and messages created
+   * by issue handlers.
+   *
+   * The table must use a string partition key named `IssueKey` and a string
+   * sort key named `Handler`.
+   *
+   * @default A new table is created
+   */
+  readonly table?: ITable;
+}
+
+/**
+ * Keeps track of the external tickets and messages that issue handlers
+ * create for each issue so that they can be updated when the issue is
+ * resolved.
+ *
+ * Issue handlers that support tracking return a `Reference` value in their
+ * output when they create a ticket or message. That reference is stored
+ * against the issue and passed back to the handler as the `Reference` input
+ * the next time the same issue is raised, allowing the handler to update or
+ * close the original ticket rather than creating a new one. The stored
+ * reference is removed once a handler has processed a `RESOLVED` issue.
+ *
+ * Currently only the `JiraTicket` and `Discord` handlers return a reference.
+ * Tracking has no effect on the other handlers which handle `RESOLVED`
+ * issues in the same way as any other issue.
+ */
+export class IssueTracking extends Resource {
+  // Resource properties
+  public readonly table: ITable;
+
+
+  public constructor(scope: IConstruct, id: string, props: IssueTrackingProps = {}) {
+    super(scope, id, props);
+
+    this.table = props.table ?? new Table(this, 'table', {
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      partitionKey: {
+        name: 'IssueKey',
+        type: AttributeType.STRING,
+      },
+      removalPolicy: RemovalPolicy.DESTROY,
+      sortKey: {
+        name: 'Handler',
+        type: AttributeType.STRING,
+      },
+    });
+  }
+
+  /**
+   * Builds the states that compute the key used to identify an issue across
+   * executions.
+   *
+   * Issues are identified by the parser that raised them, the account they
+   * were raised in and their ID. The summary is used in place of the ID for
+   * parsers that don't provide one.
+   *
+   * @param scope The construct that the states should be created in.
+   * @returns The states that compute the key.
+   */
+  public bindKey(scope: IConstruct): Chain {
+    const setKeyDefaults = new Pass(scope, 'set-tracking-key-defaults', {
+      parameters: {
+        'Id.$': '$.Issue.Output.Summary',
+      },
+      resultPath: '$.Tracking',
+    });
+
+    const mergeKeyFields = new Pass(scope, 'merge-tracking-key-fields', {
+      parameters: {
+        'Fields.$': SfnFn.jsonMerge('$.Tracking', '$.Issue.Output'),
+      },
+      resultPath: '$.Tracking',
+    });
+
+    const computeKey = new Pass(scope, 'compute-tracking-key', {
+      parameters: {
+        'Key.$': SfnFn.hash(SfnFn.format('{}/{}/{}', [
+          '$.Context.MatchType',
+          '$.Context.AccountId',
+          '$.Tracking.Fields.Id',
+        ]), 'SHA-256'),
+      },
+      resultPath: '$.Tracking',
+    });
+
+    return setKeyDefaults
+      .next(mergeKeyFields)
+      .next(computeKey);
+  }
+
+  /**
+   * Builds the states that load any reference previously stored for a
+   * handler and add it to the handler overrides.
+   *
+   * @param scope The construct that the states should be created in.
+   * @param handler The issue handler that the reference is being loaded for.
+   * @returns The states that load the reference.
+   */
+  public bindLookup(scope: IConstruct, handler: IIssueHandler): Chain {
+    const lookupReference = new DynamoGetItem(scope, `lookup-reference-${handler.name}`, {
+      key: this.buildKey(handler),
+      resultPath: '$.Lookup',
+      table: this.table,
+    });
+
+    const checkReference = new Choice(scope, `check-reference-${handler.name}`);
+
+    const setReference = new Pass(scope, `set-reference-${handler.name}`, {
+      parameters: {
+        'Reference.$': '$.Lookup.Item.Reference.S',
+      },
+      resultPath: '$.Reference',
+    });
+
+    const mergeReference = new Pass(scope, `merge-reference-${handler.name}`, {
+      parameters: {
+        'Overrides.$': SfnFn.jsonMerge('$.Handler.Overrides', '$.Reference'),
+      },
+      resultPath: '$.Handler',
+    });
+
+    return lookupReference
+      .next(checkReference
+        .when(Condition.isPresent('$.Lookup.Item.Reference.S'), setReference
+          .next(mergeReference))
+        .afterwards({ includeOtherwise: true }));
+  }
+
+  /**
+   * Builds the states that store the reference returned by a handler or
+   * remove the stored reference once the issue has been resolved.
+   *
+   * Expects the output of the handler execution to be available at
+   * `$.Execution.Output`.
+   *
+   * @param scope The construct that the states should be created in.
+   * @param handler The issue handler that the reference belongs to.
+   * @returns The states that update the stored reference.
+   */
+  public bindRecord(scope: IConstruct, handler: IIssueHandler): Chain {
+    const checkResult = new Choice(scope, `check-result-${handler.name}`);
+
+    const removeReference = new DynamoDeleteItem(scope, `remove-reference-${handler.name}`, {
+      key: this.buildKey(handler),
+      resultPath: JsonPath.DISCARD,
+      table: this.table,
+    });
+
+    const recordReference = new DynamoPutItem(scope, `record-reference-${handler.name}`, {
+      item: {
+        ...this.buildKey(handler),
+        Reference: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Execution.Output.Reference')),
+        UpdatedAt: DynamoAttributeValue.fromString(JsonPath.stringAt('$$.State.EnteredTime')),
+      },
+      resultPath: JsonPath.DISCARD,
+      table: this.table,
+    });
+
+    const noChange = new Pass(scope, `reference-unchanged-${handler.name}`);
+
+    return checkResult
+      .when(Condition.and(
+        Condition.isPresent('$.Lookup.Item.Reference.S'),
+        Condition.isPresent('$.Issue.Output.Status'),
+        Condition.stringEquals('$.Issue.Output.Status', 'RESOLVED'),
+      ), removeReference)
+      .when(Condition.and(
+        Condition.isPresent('$.Execution.Output.Reference'),
+        Condition.isString('$.Execution.Output.Reference'),
+      ), recordReference)
+      .otherwise(noChange)
+      .afterwards();
+  }
+
+  private buildKey(handler: IIssueHandler): {[key: string]: DynamoAttributeValue} {
+    return {
+      Handler: DynamoAttributeValue.fromString(handler.name),
+      IssueKey: DynamoAttributeValue.fromString(JsonPath.stringAt('$.Tracking.Key')),
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { EventField, EventPattern, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
+import { EventField, EventPattern, IEventBus, Rule, RuleTargetInput } from 'aws-cdk-lib/aws-events';
 import { SfnStateMachine } from 'aws-cdk-lib/aws-events-targets';
 import { StateMachine } from 'aws-cdk-lib/aws-stepfunctions';
 import { Construct, IConstruct } from 'constructs';
@@ -42,9 +42,10 @@ export class IssueTrigger extends Construct {
     this._overrides.push(handlerOverrides);
   }
 
-  public bind(stateMachine: StateMachine): Rule {
+  public bind(stateMachine: StateMachine, eventBus?: IEventBus): Rule {
     return new Rule(this, 'rule', {
       enabled: true,
+      eventBus: eventBus,
       eventPattern: this.eventPattern,
       targets: [
         new SfnStateMachine(stateMachine, {
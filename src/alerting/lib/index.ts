@@ -1 +1,2 @@
-export * from './logging';
\ No newline at end of file
+export * from './logging';
+export * from './topic-event-bridge';
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { ArnFormat, Stack } from 'aws-cdk-lib';
+import { IEventBus } from 'aws-cdk-lib/aws-events';
+import { IRole, PolicyStatement, Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { CfnPipe } from 'aws-cdk-lib/aws-pipes';
+import { ITopic } from 'aws-cdk-lib/aws-sns';
+import { SqsSubscription } from 'aws-cdk-lib/aws-sns-subscriptions';
+import { IQueue, Queue } from 'aws-cdk-lib/aws-sqs';
+import { Construct, IConstruct } from 'constructs';
+
+
+export interface TopicEventBridgeProps {
+  /**
+   * The detail type of the events that are published.
+   */
+  readonly detailType: string;
+
+  /**
+   * The event bus that events are published to.
+   *
+   * @default The default event bus for the account
+   */
+  readonly eventBus?: IEventBus;
+
+  /**
+   * Whether the messages sent to the topic should be used as the detail of
+   * the published events.
+   *
+   * Raw delivery requires messages to be valid JSON. When disabled the
+   * detail of the published events is the SNS notification that wraps the
+   * message, with the message available as a string in its `Message` field.
+   *
+   * @default false
+   */
+  readonly rawMessageDelivery?: boolean;
+
+  /**
+   * The source of the events that are published.
+   */
+  readonly source: string;
+
+  /**
+   * The topic whose messages should be published.
+   */
+  readonly topic: ITopic;
+}
+
+/**
+ * Publishes the messages sent to an SNS topic to an EventBridge event bus so
+ * that they can be used to trigger issues.
+ *
+ * SNS topics can't publish to EventBridge directly so the topic is
+ * subscribed to by an SQS queue which is read by an EventBridge pipe that
+ * publishes each message as an event.
+ */
+export class TopicEventBridge extends Construct {
+  // Input properties
+  public readonly detailType: string;
+  public readonly eventBus?: IEventBus;
+  public readonly rawMessageDelivery: boolean;
+  public readonly source: string;
+  public readonly topic: ITopic;
+
+  // Resource properties
+  public readonly pipe: CfnPipe;
+  public readonly queue: IQueue;
+  public readonly role: IRole;
+
+
+  public constructor(scope: IConstruct, id: string, props: TopicEventBridgeProps) {
+    super(scope, id);
+
+    this.detailType = props.detailType;
+    this.eventBus = props.eventBus;
+    this.rawMessageDelivery = props.rawMessageDelivery ?? false;
+    this.source = props.source;
+    this.topic = props.topic;
+
+    this.queue = new Queue(this, 'queue');
+
+    this.topic.addSubscription(new SqsSubscription(this.queue, {
+      rawMessageDelivery: this.rawMessageDelivery,
+    }));
+
+    this.role = new Role(this, 'role', {
+      assumedBy: new ServicePrincipal('pipes.amazonaws.com'),
+    });
+
+    this.queue.grantConsumeMessages(this.role);
+
+    const eventBusArn = this.eventBus?.eventBusArn ?? Stack.of(this).formatArn({
+      arnFormat: ArnFormat.SLASH_RESOURCE_NAME,
+      resource: 'event-bus',
+      resourceName: 'default',
+      service: 'events',
+    });
+
+    this.role.addToPrincipalPolicy(new PolicyStatement({
+      actions: [
+        'events:PutEvents',
+      ],
+      resources: [
+        eventBusArn,
+      ],
+    }));
+
+    // The body of SQS messages is parsed as JSON when it is valid JSON so
+    // it can be used directly as the detail of the published event.
+    this.pipe = new CfnPipe(this, 'pipe', {
+      description: `Publishes messages sent to an SNS topic as ${this.detailType} events.`,
+      roleArn: this.role.roleArn,
+      source: this.queue.queueArn,
+      sourceParameters: {
+        sqsQueueParameters: {
+          batchSize: 1,
+        },
+      },
+      target: eventBusArn,
+      targetParameters: {
+        eventBridgeEventBusParameters: {
+          detailType: this.detailType,
+          source: this.source,
+        },
+        inputTemplate: '<$.body>',
+      },
+    });
+  }
+}
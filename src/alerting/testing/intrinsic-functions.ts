@@ -0,0 +1,320 @@
+import { createHash, randomUUID } from 'crypto';
+import { readPath } from './json-path';
+
+
+type Argument =
+  | { type: 'literal'; value: any; raw?: string }
+  | { type: 'path'; path: string }
+  | { type: 'call'; name: string; args: Argument[] };
+
+const HASH_ALGORITHMS: {[name: string]: string} = {
+  'MD5': 'md5',
+  'SHA-1': 'sha1',
+  'SHA-256': 'sha256',
+  'SHA-384': 'sha384',
+  'SHA-512': 'sha512',
+};
+
+class IntrinsicParser {
+  private pos: number;
+
+  public constructor(private readonly expression: string) {
+    this.pos = 0;
+  }
+
+  public parse(): Argument {
+    const result = this.parseArgument();
+    this.skipWhitespace();
+
+    if (this.pos !== this.expression.length) {
+      throw this.error('Unexpected trailing characters');
+    }
+
+    return result;
+  }
+
+  private error(message: string): Error {
+    return new Error([
+      `${message} at position ${this.pos} of intrinsic function`,
+      `'${this.expression}'.`,
+    ].join(' '));
+  }
+
+  private parseArgument(): Argument {
+    this.skipWhitespace();
+    const rest = this.expression.slice(this.pos);
+
+    if (rest.startsWith('\'')) {
+      return this.parseString();
+    } else if (rest.startsWith('States.')) {
+      return this.parseCall();
+    } else if (rest.startsWith('$')) {
+      return this.parsePath();
+    }
+
+    const match = /^(-?[0-9]+(\.[0-9]+)?|null|true|false)/.exec(rest);
+    if (!match) {
+      throw this.error('Expected an argument');
+    }
+
+    this.pos += match[0].length;
+    return { type: 'literal', value: JSON.parse(match[0]) };
+  }
+
+  private parseCall(): Argument {
+    const match = /^States\.[A-Za-z0-9]+/.exec(this.expression.slice(this.pos))!;
+    this.pos += match[0].length;
+
+    if (this.expression[this.pos] !== '(') {
+      throw this.error('Expected an opening parenthesis');
+    }
+
+    this.pos++;
+    const args: Argument[] = [];
+
+    this.skipWhitespace();
+    if (this.expression[this.pos] === ')') {
+      this.pos++;
+      return { type: 'call', name: match[0].slice('States.'.length), args: args };
+    }
+
+    while (true) {
+      args.push(this.parseArgument());
+      this.skipWhitespace();
+
+      const char = this.expression[this.pos++];
+      if (char === ')') {
+        return { type: 'call', name: match[0].slice('States.'.length), args: args };
+      } else if (char !== ',') {
+        this.pos--;
+        throw this.error('Expected a comma or closing parenthesis');
+      }
+    }
+  }
+
+  private parsePath(): Argument {
+    const start = this.pos;
+    let depth = 0;
+    let quote: string | undefined;
+
+    for (; this.pos < this.expression.length; this.pos++) {
+      const char = this.expression[this.pos];
+
+      if (quote) {
+        if (char === '\\') {
+          this.pos++;
+        } else if (char === quote) {
+          quote = undefined;
+        }
+      } else if (char === '\'' || char === '"') {
+        quote = char;
+      } else if (char === '[' || char === '(') {
+        depth++;
+      } else if ((char === ']' || char === ')') && depth > 0) {
+        depth--;
+      } else if (depth === 0 && (char === ',' || char === ')' || /\s/.test(char))) {
+        break;
+      }
+    }
+
+    return { type: 'path', path: this.expression.slice(start, this.pos) };
+  }
+
+  private parseString(): Argument {
+    const start = ++this.pos;
+    let value = '';
+
+    for (; this.pos < this.expression.length; this.pos++) {
+      const char = this.expression[this.pos];
+
+      if (char === '\\') {
+        value += this.expression[++this.pos];
+      } else if (char === '\'') {
+        const raw = this.expression.slice(start, this.pos++);
+        return { type: 'literal', value: value, raw: raw };
+      } else {
+        value += char;
+      }
+    }
+
+    throw this.error('Unterminated string');
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.expression[this.pos] ?? '')) {
+      this.pos++;
+    }
+  }
+}
+
+function format(template: Argument, values: any[]): string {
+  const raw = template.type === 'literal' ? template.raw ?? String(template.value) : undefined;
+  if (raw === undefined) {
+    throw new Error('The template for States.Format must be a string literal.');
+  }
+
+  let result = '';
+  let index = 0;
+
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '\\') {
+      result += raw[++i];
+    } else if (raw.startsWith('{}', i)) {
+      if (index >= values.length) {
+        throw new Error(`Not enough arguments were given for the States.Format template '${raw}'.`);
+      }
+
+      const value = values[index++];
+      result += typeof value === 'string' ? value : JSON.stringify(value);
+      i++;
+    } else {
+      result += raw[i];
+    }
+  }
+
+  if (index !== values.length) {
+    throw new Error(`Too many arguments were given for the States.Format template '${raw}'.`);
+  }
+
+  return result;
+}
+
+function expectInteger(value: any, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new Error(`Expected an integer for the arguments of States.${name} but got '${JSON.stringify(value)}'.`);
+  }
+
+  return value;
+}
+
+function expectArray(value: any, name: string): any[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected an array for the arguments of States.${name} but got '${JSON.stringify(value)}'.`);
+  }
+
+  return value;
+}
+
+function expectString(value: any, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Expected a string for the arguments of States.${name} but got '${JSON.stringify(value)}'.`);
+  }
+
+  return value;
+}
+
+function call(name: string, args: Argument[], evaluate: (arg: Argument) => any): any {
+  const values = name === 'Format' ? args.slice(1).map(evaluate) : args.map(evaluate);
+
+  switch (name) {
+    case 'Array':
+      return values;
+    case 'ArrayContains':
+      return expectArray(values[0], name).some((x) => {
+        return JSON.stringify(x) === JSON.stringify(values[1]);
+      });
+    case 'ArrayGetItem':
+      return expectArray(values[0], name)[expectInteger(values[1], name)];
+    case 'ArrayLength':
+      return expectArray(values[0], name).length;
+    case 'ArrayPartition': {
+      const array = expectArray(values[0], name);
+      const size = expectInteger(values[1], name);
+      const chunks: any[][] = [];
+      for (let i = 0; i < array.length; i += size) {
+        chunks.push(array.slice(i, i + size));
+      }
+      return chunks;
+    }
+    case 'ArrayRange': {
+      const [start, end, step] = values.map((x) => expectInteger(x, name));
+      const range: number[] = [];
+      for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+        range.push(i);
+      }
+      return range;
+    }
+    case 'ArrayUnique':
+      return expectArray(values[0], name).filter((x, idx, array) => {
+        return array.findIndex((y) => JSON.stringify(y) === JSON.stringify(x)) === idx;
+      });
+    case 'Base64Decode':
+      return Buffer.from(expectString(values[0], name), 'base64').toString('utf-8');
+    case 'Base64Encode':
+      return Buffer.from(expectString(values[0], name), 'utf-8').toString('base64');
+    case 'Format':
+      return format(args[0], values);
+    case 'Hash': {
+      const algorithm = HASH_ALGORITHMS[expectString(values[1], name)];
+      if (!algorithm) {
+        throw new Error(`Unsupported hashing algorithm '${values[1]}' given to States.Hash.`);
+      }
+      return createHash(algorithm).update(expectString(values[0], name)).digest('hex');
+    }
+    case 'JsonMerge':
+      if (values[2] !== false) {
+        throw new Error('Deep merging is not supported by States.JsonMerge.');
+      }
+      return {
+        ...values[0],
+        ...values[1],
+      };
+    case 'JsonToString':
+      return JSON.stringify(values[0]);
+    case 'MathAdd':
+      return expectInteger(values[0], name) + expectInteger(values[1], name);
+    case 'MathRandom': {
+      const start = expectInteger(values[0], name);
+      return start + Math.floor(Math.random() * (expectInteger(values[1], name) - start));
+    }
+    case 'StringSplit': {
+      const splitters = [...expectString(values[1], name)];
+      return [...expectString(values[0], name)].reduce<string[]>((parts, x) => {
+        if (splitters.includes(x)) {
+          parts.push('');
+        } else {
+          parts[parts.length - 1] += x;
+        }
+        return parts;
+      }, ['']).filter((x) => x !== '');
+    }
+    case 'StringToJson':
+      return JSON.parse(expectString(values[0], name));
+    case 'UUID':
+      return randomUUID();
+    default:
+      throw new Error(`Unsupported intrinsic function 'States.${name}'.`);
+  }
+}
+
+/**
+ * Evaluates an expression using the `States.*` intrinsic functions supported
+ * by Step Functions.
+ *
+ * @param expression The intrinsic function expression to evaluate.
+ * @param data The document that JsonPath arguments are read from.
+ * @param context The context object that `$$` arguments are read from.
+ * @returns The result of the expression.
+ */
+export function evaluateIntrinsic(expression: string, data: any, context: any): any {
+  const evaluate = (arg: Argument): any => {
+    switch (arg.type) {
+      case 'literal':
+        return arg.value;
+      case 'call':
+        return call(arg.name, arg.args, evaluate);
+      case 'path': {
+        const result = arg.path.startsWith('$$') ? readPath(context, arg.path.slice(1)) : readPath(data, arg.path);
+        if (!result.present) {
+          throw new Error([
+            `The JsonPath argument '${arg.path}' of intrinsic function`,
+            `'${expression}' could not be found in the input.`,
+          ].join(' '));
+        }
+        return result.value;
+      }
+    }
+  };
+
+  return evaluate(new IntrinsicParser(expression).parse());
+}
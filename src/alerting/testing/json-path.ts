@@ -0,0 +1,312 @@
+type PathSegment =
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number }
+  | { type: 'wildcard' }
+  | { type: 'filter'; expression: string };
+
+/**
+ * The result of reading a JsonPath.
+ *
+ * Definite paths resolve to at most a single value. Indefinite paths, those
+ * using wildcards, slices or filters, always resolve to a list of the values
+ * that matched.
+ */
+export interface PathResult {
+  readonly present: boolean;
+  readonly value?: any;
+}
+
+function parseSegments(path: string): PathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`Expected a JsonPath starting with '$' but got '${path}'.`);
+  }
+
+  const segments: PathSegment[] = [];
+  let pos = 1;
+
+  while (pos < path.length) {
+    const char = path[pos];
+
+    if (path.startsWith('..', pos)) {
+      throw new Error(`Deep scan JsonPath expressions are not supported: '${path}'.`);
+    } else if (char === '.') {
+      pos++;
+      const match = /^[^.[]+/.exec(path.slice(pos));
+      if (!match) {
+        throw new Error(`Expected a property name at position ${pos} of JsonPath '${path}'.`);
+      }
+
+      segments.push(match[0] === '*' ? { type: 'wildcard' } : { type: 'property', name: match[0] });
+      pos += match[0].length;
+    } else if (char === '[') {
+      const end = findClosingBracket(path, pos);
+      const body = path.slice(pos + 1, end).trim();
+      segments.push(parseBracket(body, path));
+      pos = end + 1;
+    } else {
+      throw new Error(`Unexpected character '${char}' at position ${pos} of JsonPath '${path}'.`);
+    }
+  }
+
+  return segments;
+}
+
+function findClosingBracket(path: string, start: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = start; i < path.length; i++) {
+    const char = path[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  throw new Error(`Unterminated bracket in JsonPath '${path}'.`);
+}
+
+function parseBracket(body: string, path: string): PathSegment {
+  if (body === '*') {
+    return { type: 'wildcard' };
+  } else if (body.startsWith('?(') && body.endsWith(')')) {
+    return { type: 'filter', expression: body.slice(2, -1).trim() };
+  } else if (/^-?[0-9]+$/.test(body)) {
+    return { type: 'index', index: Number(body) };
+  } else if (/^-?[0-9]*:-?[0-9]*$/.test(body)) {
+    const [start, end] = body.split(':');
+    return {
+      type: 'slice',
+      start: start === '' ? undefined : Number(start),
+      end: end === '' ? undefined : Number(end),
+    };
+  } else if (/^'.*'$|^".*"$/.test(body)) {
+    return { type: 'property', name: body.slice(1, -1).replace(/\\(.)/g, '$1') };
+  }
+
+  throw new Error(`Unsupported JsonPath segment '[${body}]' in '${path}'.`);
+}
+
+function parseLiteral(value: string): any {
+  const trimmed = value.trim();
+
+  if (/^'.*'$|^".*"$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+  } else if (trimmed === 'true' || trimmed === 'false' || trimmed === 'null' || /^-?[0-9.]+(e-?[0-9]+)?$/i.test(trimmed)) {
+    return JSON.parse(trimmed);
+  }
+
+  throw new Error(`Unsupported literal '${value}' in JsonPath filter expression.`);
+}
+
+function splitTopLevel(expression: string, operator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0 && expression.startsWith(operator, i)) {
+      parts.push(expression.slice(start, i));
+      start = i + operator.length;
+      i += operator.length - 1;
+    }
+  }
+
+  parts.push(expression.slice(start));
+  return parts;
+}
+
+function evaluateFilter(expression: string, item: any): boolean {
+  const trimmed = expression.trim();
+
+  const alternatives = splitTopLevel(trimmed, '||');
+  if (alternatives.length > 1) {
+    return alternatives.some((x) => evaluateFilter(x, item));
+  }
+
+  const conditions = splitTopLevel(trimmed, '&&');
+  if (conditions.length > 1) {
+    return conditions.every((x) => evaluateFilter(x, item));
+  }
+
+  if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+    return evaluateFilter(trimmed.slice(1, -1), item);
+  }
+
+  const match = /^@(\S*)\s*(==|!=|<=|>=|<|>)\s*(.+)$/.exec(trimmed);
+  if (!match) {
+    if (/^@\S*$/.test(trimmed)) {
+      return readPath(item, `$${trimmed.slice(1)}`).present;
+    }
+
+    throw new Error(`Unsupported JsonPath filter expression '${expression}'.`);
+  }
+
+  const [, relative, operator, literal] = match;
+  const left = readPath(item, `$${relative}`);
+  if (!left.present) {
+    return false;
+  }
+
+  const right = parseLiteral(literal);
+  switch (operator) {
+    case '==': return left.value === right;
+    case '!=': return left.value !== right;
+    case '<': return left.value < right;
+    case '<=': return left.value <= right;
+    case '>': return left.value > right;
+    default: return left.value >= right;
+  }
+}
+
+function children(value: any): any[] {
+  if (Array.isArray(value)) {
+    return value;
+  } else if (value !== null && typeof value === 'object') {
+    return Object.values(value);
+  }
+
+  return [];
+}
+
+/**
+ * Reads the value referenced by a JsonPath from a JSON document.
+ *
+ * @param data The document to read from.
+ * @param path A JsonPath starting with `$`.
+ * @returns Whether the path was found and the value it references.
+ */
+export function readPath(data: any, path: string): PathResult {
+  const segments = parseSegments(path);
+  let nodes: any[] = [data];
+  let definite = true;
+
+  for (const segment of segments) {
+    const next: any[] = [];
+
+    nodes.forEach((node) => {
+      switch (segment.type) {
+        case 'property':
+          if (node !== null && typeof node === 'object' && !Array.isArray(node) && segment.name in node) {
+            next.push(node[segment.name]);
+          }
+          break;
+        case 'index':
+          if (Array.isArray(node)) {
+            const index = segment.index < 0 ? node.length + segment.index : segment.index;
+            if (index >= 0 && index < node.length) {
+              next.push(node[index]);
+            }
+          }
+          break;
+        case 'slice':
+          if (Array.isArray(node)) {
+            next.push(...node.slice(segment.start, segment.end));
+          }
+          break;
+        case 'wildcard':
+          next.push(...children(node));
+          break;
+        case 'filter':
+          next.push(...children(node).filter((x) => evaluateFilter(segment.expression, x)));
+          break;
+      }
+    });
+
+    if (segment.type !== 'property' && segment.type !== 'index') {
+      definite = false;
+    }
+
+    nodes = next;
+  }
+
+  if (!definite) {
+    return {
+      present: true,
+      value: nodes,
+    };
+  }
+
+  return nodes.length === 0 ? { present: false } : {
+    present: true,
+    value: nodes[0],
+  };
+}
+
+/**
+ * Returns a copy of a JSON document with the value at a JsonPath replaced,
+ * creating any objects along the path that don't already exist.
+ *
+ * @param data The document to update.
+ * @param path A definite JsonPath starting with `$`.
+ * @param value The value to write.
+ * @returns The updated document.
+ */
+export function writePath(data: any, path: string, value: any): any {
+  const segments = parseSegments(path);
+  if (segments.length === 0) {
+    return value;
+  }
+
+  const root = JSON.parse(JSON.stringify(data ?? {}));
+  let node = root;
+
+  segments.forEach((segment, idx) => {
+    const last = idx === segments.length - 1;
+
+    if (segment.type === 'property') {
+      if (node === null || typeof node !== 'object' || Array.isArray(node)) {
+        throw new Error(`Unable to write to '${path}' as a parent of '${segment.name}' is not an object.`);
+      }
+
+      if (last) {
+        node[segment.name] = value;
+      } else {
+        if (node[segment.name] === null || typeof node[segment.name] !== 'object') {
+          node[segment.name] = {};
+        }
+
+        node = node[segment.name];
+      }
+    } else if (segment.type === 'index' && Array.isArray(node) && segment.index < node.length) {
+      if (last) {
+        node[segment.index] = value;
+      } else {
+        node = node[segment.index];
+      }
+    } else {
+      throw new Error(`Only definite paths can be written to. Got '${path}'.`);
+    }
+  });
+
+  return root;
+}
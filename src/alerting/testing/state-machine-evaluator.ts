@@ -0,0 +1,400 @@
+import { Stack } from 'aws-cdk-lib';
+import { CfnStateMachine, IStateMachine } from 'aws-cdk-lib/aws-stepfunctions';
+import { evaluateIntrinsic } from './intrinsic-functions';
+import { readPath, writePath } from './json-path';
+
+
+/**
+ * Options for evaluating a state machine definition.
+ */
+export interface StateMachineEvaluationOptions {
+  /**
+   * The time to report as the start time of the execution in the context
+   * object.
+   *
+   * @default The current time
+   */
+  readonly startTime?: Date;
+
+  /**
+   * The results to use for Task states, keyed by the name of the state.
+   *
+   * Task states call other services so they can't be evaluated locally. The
+   * result given for a Task state is processed using its `ResultSelector`,
+   * `ResultPath` and `OutputPath` as though it had been returned by the
+   * service. Evaluation fails if a Task state is reached that doesn't have a
+   * result.
+   *
+   * @default No Task states can be evaluated
+   */
+  readonly taskResults?: {[state: string]: any};
+}
+
+interface StateResult {
+  readonly next?: string;
+  readonly output: any;
+}
+
+/**
+ * Evaluates a Step Functions state machine definition locally against a
+ * JSON input without deploying it.
+ *
+ * Intended for testing the output of issue parsers and the descriptions they
+ * build. Pass, Choice, Map, Parallel, Wait, Succeed and Fail states are
+ * evaluated along with the `States.*` intrinsic functions produced by
+ * `SfnFn`. Task states return the results configured for them rather than
+ * calling other services and Wait states don't wait. Retries and catchers
+ * aren't evaluated.
+ *
+ * As with Step Functions, a reference to a path that isn't present in the
+ * input causes evaluation to fail, which helps catch descriptions and
+ * outputs that would fail for events missing optional fields.
+ *
+ * @example
+ *
+ * const parser = new GuardDutyFinding(stack, 'guard-duty-finding');
+ * const issue = StateMachineEvaluator.fromStateMachine(parser.handler)
+ *   .evaluate(IssueParserSamples.GUARD_DUTY_FINDING.event);
+ */
+export class StateMachineEvaluator {
+  /**
+   * The maximum number of state transitions allowed in a single evaluation
+   * before it is assumed to be stuck in a loop.
+   */
+  public static readonly MAX_TRANSITIONS: number = 10000;
+
+  /**
+   * Creates an evaluator for the definition of a state machine created in a
+   * CDK app.
+   *
+   * References to other resources in the definition, such as the ARNs of
+   * the resources called by Task states, are replaced with placeholder
+   * strings.
+   *
+   * @param stateMachine The state machine to evaluate. Must have been
+   * created using an inline definition.
+   * @returns An evaluator for the state machine's definition.
+   */
+  public static fromStateMachine(stateMachine: IStateMachine): StateMachineEvaluator {
+    const resource = stateMachine.node.defaultChild as CfnStateMachine | undefined;
+    const definition = resource?.definitionString;
+
+    if (!definition) {
+      throw new Error([
+        `The state machine at '${stateMachine.node.path}' does not have an`,
+        'inline definition that can be evaluated.',
+      ].join(' '));
+    }
+
+    const resolved = Stack.of(stateMachine).resolve(definition);
+    const rendered = typeof resolved === 'string' ? resolved : resolved['Fn::Join'][1].map((x: any) => {
+      // Tokens appear inside JSON strings in the rendered definition so the
+      // placeholder needs to be escaped to keep the definition valid.
+      return typeof x === 'string' ? x : JSON.stringify(`\${Token[${JSON.stringify(x)}]}`).slice(1, -1);
+    }).join('');
+
+    return new StateMachineEvaluator(JSON.parse(rendered));
+  }
+
+  /**
+   * The Amazon States Language definition being evaluated.
+   */
+  public readonly definition: {[key: string]: any};
+
+  // Internal properties
+  private _transitions: number;
+
+
+  /**
+   * Creates a new instance of the StateMachineEvaluator class.
+   *
+   * @param definition An Amazon States Language definition.
+   */
+  public constructor(definition: {[key: string]: any}) {
+    this._transitions = 0;
+
+    this.definition = definition;
+  }
+
+  /**
+   * Evaluates the definition against an input and returns the output of the
+   * execution.
+   *
+   * @param input The input the execution is started with, for example the
+   * EventBridge event that triggers an issue parser.
+   * @param options Options controlling how the definition is evaluated.
+   * @returns The output of the execution.
+   */
+  public evaluate(input: any, options: StateMachineEvaluationOptions = {}): any {
+    this._transitions = 0;
+
+    const context = {
+      Execution: {
+        Id: 'arn:aws:states:us-east-1:123456789012:execution:evaluation:local',
+        Input: input,
+        Name: 'local',
+        StartTime: (options.startTime ?? new Date()).toISOString(),
+      },
+      StateMachine: {
+        Id: 'arn:aws:states:us-east-1:123456789012:stateMachine:evaluation',
+        Name: 'evaluation',
+      },
+    };
+
+    return this.runStates(this.definition, input, context, options);
+  }
+
+  private runStates(graph: {[key: string]: any}, input: any, context: any, options: StateMachineEvaluationOptions): any {
+    let name: string | undefined = graph.StartAt;
+    let data = input;
+
+    while (name !== undefined) {
+      if (++this._transitions > StateMachineEvaluator.MAX_TRANSITIONS) {
+        throw new Error([
+          `Evaluation exceeded ${StateMachineEvaluator.MAX_TRANSITIONS} state`,
+          'transitions and is assumed to be stuck in a loop.',
+        ].join(' '));
+      }
+
+      const state = graph.States[name];
+      if (!state) {
+        throw new Error(`The state '${name}' does not exist in the definition.`);
+      }
+
+      const stateContext = {
+        ...context,
+        State: {
+          EnteredTime: new Date().toISOString(),
+          Name: name,
+        },
+      };
+
+      const result = this.runState(name, state, data, stateContext, options);
+      data = result.output;
+      name = result.next;
+    }
+
+    return data;
+  }
+
+  private runState(name: string, state: {[key: string]: any}, input: any, context: any, options: StateMachineEvaluationOptions): StateResult {
+    const effectiveInput = state.InputPath === null ? {} : this.readRequired(input, state.InputPath ?? '$', name);
+    const next = state.End ? undefined : state.Next;
+
+    switch (state.Type) {
+      case 'Pass': {
+        const result = state.Parameters ? this.renderTemplate(state.Parameters, effectiveInput, context) : state.Result ?? effectiveInput;
+        return { next: next, output: this.applyOutput(input, result, state, name) };
+      }
+      case 'Task': {
+        const results = options.taskResults ?? {};
+        if (!(name in results)) {
+          throw new Error([
+            `The Task state '${name}' can't be evaluated locally. A result for`,
+            'the state must be provided using the taskResults option.',
+          ].join(' '));
+        }
+
+        return { next: next, output: this.applyOutput(input, results[name], state, name, context) };
+      }
+      case 'Map': {
+        const items = this.readRequired(effectiveInput, state.ItemsPath ?? '$', name);
+        if (!Array.isArray(items)) {
+          throw new Error(`The ItemsPath of Map state '${name}' did not reference an array.`);
+        }
+
+        const processor = state.ItemProcessor ?? state.Iterator;
+        const selector = state.ItemSelector ?? state.Parameters;
+        const results = items.map((x, idx) => {
+          const itemContext = {
+            ...context,
+            Map: {
+              Item: {
+                Index: idx,
+                Value: x,
+              },
+            },
+          };
+
+          const item = selector ? this.renderTemplate(selector, effectiveInput, itemContext) : x;
+          return this.runStates(processor, item, context, options);
+        });
+
+        return { next: next, output: this.applyOutput(input, results, state, name, context) };
+      }
+      case 'Parallel': {
+        const results = (state.Branches as any[]).map((x) => {
+          return this.runStates(x, effectiveInput, context, options);
+        });
+
+        return { next: next, output: this.applyOutput(input, results, state, name, context) };
+      }
+      case 'Choice': {
+        const choice = (state.Choices as any[]).find((x) => {
+          return this.evaluateRule(x, effectiveInput, context, name);
+        });
+
+        if (!choice && !state.Default) {
+          throw new Error(`No choices matched in Choice state '${name}' and it has no default.`);
+        }
+
+        return { next: choice?.Next ?? state.Default, output: this.applyOutputPath(effectiveInput, state, name) };
+      }
+      case 'Wait':
+        return { next: next, output: this.applyOutputPath(effectiveInput, state, name) };
+      case 'Succeed':
+        return { output: this.applyOutputPath(effectiveInput, state, name) };
+      case 'Fail':
+        throw new Error([
+          `Execution failed in state '${name}' with error`,
+          `'${state.Error ?? 'States.Fail'}': ${state.Cause ?? 'No cause given'}`,
+        ].join(' '));
+      default:
+        throw new Error(`Unsupported state type '${state.Type}' for state '${name}'.`);
+    }
+  }
+
+  private applyOutput(input: any, result: any, state: {[key: string]: any}, name: string, context?: any): any {
+    const selected = state.ResultSelector ? this.renderTemplate(state.ResultSelector, result, context) : result;
+
+    let output: any;
+    if (state.ResultPath === null) {
+      output = input;
+    } else if (state.ResultPath === undefined || state.ResultPath === '$') {
+      output = selected;
+    } else {
+      output = writePath(input, state.ResultPath, selected);
+    }
+
+    return this.applyOutputPath(output, state, name);
+  }
+
+  private applyOutputPath(output: any, state: {[key: string]: any}, name: string): any {
+    return state.OutputPath === null ? {} : this.readRequired(output, state.OutputPath ?? '$', name);
+  }
+
+  private readRequired(data: any, path: string, name: string, context?: any): any {
+    const result = path.startsWith('$$') ? readPath(context, path.slice(1)) : readPath(data, path);
+    if (!result.present) {
+      throw new Error([
+        `The JsonPath '${path}' referenced by state '${name}' could not be`,
+        'found in the input.',
+      ].join(' '));
+    }
+
+    return result.value;
+  }
+
+  private renderTemplate(template: any, data: any, context: any): any {
+    if (Array.isArray(template)) {
+      return template.map((x) => {
+        return this.renderTemplate(x, data, context);
+      });
+    } else if (template === null || typeof template !== 'object') {
+      return template;
+    }
+
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => {
+      if (!key.endsWith('.$')) {
+        return [key, this.renderTemplate(value, data, context)];
+      }
+
+      const expression = value as string;
+      const rendered = expression.startsWith('States.') ?
+        evaluateIntrinsic(expression, data, context) :
+        this.readRequired(data, expression, context?.State?.Name ?? 'unknown', context);
+
+      return [key.slice(0, -2), rendered];
+    }));
+  }
+
+  private evaluateRule(rule: {[key: string]: any}, data: any, context: any, name: string): boolean {
+    if (rule.And) {
+      return (rule.And as any[]).every((x) => this.evaluateRule(x, data, context, name));
+    } else if (rule.Or) {
+      return (rule.Or as any[]).some((x) => this.evaluateRule(x, data, context, name));
+    } else if (rule.Not) {
+      return !this.evaluateRule(rule.Not, data, context, name);
+    }
+
+    const variable = rule.Variable as string;
+    const result = variable.startsWith('$$') ? readPath(context, variable.slice(1)) : readPath(data, variable);
+
+    if ('IsPresent' in rule) {
+      return result.present === rule.IsPresent;
+    } else if (!result.present) {
+      throw new Error([
+        `The variable '${variable}' used by Choice state '${name}' could not be`,
+        'found in the input.',
+      ].join(' '));
+    }
+
+    const value = result.value;
+    const [operator, expected] = Object.entries(rule).find(([key]) => {
+      return key !== 'Variable' && key !== 'Next';
+    })!;
+
+    const comparand = operator.endsWith('Path') ? this.readRequired(data, expected, name, context) : expected;
+    const baseOperator = operator.endsWith('Path') ? operator.slice(0, -4) : operator;
+
+    switch (baseOperator) {
+      case 'IsNull': return (value === null) === comparand;
+      case 'IsNumeric': return (typeof value === 'number') === comparand;
+      case 'IsString': return (typeof value === 'string') === comparand;
+      case 'IsBoolean': return (typeof value === 'boolean') === comparand;
+      case 'IsTimestamp': return (typeof value === 'string' && isTimestamp(value)) === comparand;
+      case 'StringMatches': return typeof value === 'string' && matchesPattern(value, comparand);
+      case 'BooleanEquals': return typeof value === 'boolean' && value === comparand;
+    }
+
+    const [type, comparison] = /^(String|Numeric|Timestamp)(.*)$/.exec(baseOperator)?.slice(1) ?? [];
+    if (!type) {
+      throw new Error(`Unsupported Choice rule operator '${operator}' in state '${name}'.`);
+    }
+
+    let left: any = value;
+    let right: any = comparand;
+    if (type === 'String' && (typeof left !== 'string' || typeof right !== 'string')) {
+      return false;
+    } else if (type === 'Numeric' && (typeof left !== 'number' || typeof right !== 'number')) {
+      return false;
+    } else if (type === 'Timestamp') {
+      if (typeof left !== 'string' || !isTimestamp(left) || typeof right !== 'string' || !isTimestamp(right)) {
+        return false;
+      }
+
+      left = Date.parse(left);
+      right = Date.parse(right);
+    }
+
+    switch (comparison) {
+      case 'Equals': return left === right;
+      case 'LessThan': return left < right;
+      case 'LessThanEquals': return left <= right;
+      case 'GreaterThan': return left > right;
+      case 'GreaterThanEquals': return left >= right;
+      default:
+        throw new Error(`Unsupported Choice rule operator '${operator}' in state '${name}'.`);
+    }
+  }
+}
+
+function isTimestamp(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value));
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  const expression = pattern.split(/(\\\\|\\\*|\*)/).map((x) => {
+    if (x === '*') {
+      return '.*';
+    } else if (x === '\\*') {
+      return '\\*';
+    } else if (x === '\\\\') {
+      return '\\\\';
+    }
+
+    return x.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+
+  return new RegExp(`^${expression}$`, 's').test(value);
+}
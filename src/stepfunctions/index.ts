@@ -1,2 +1,3 @@
 export * from './lib';
-export * from './patterns';
\ No newline at end of file
+export * from './patterns';
+export * from './tasks';
\ No newline at end of file
@@ -31,7 +31,7 @@ function assertExpressionOrInt(value: string, arg: string, intrinsic: string): v
 }
 
 function escape(value: string): string {
-  return value.replace('\\', '\\\\').replace("'", "\\'");
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
 }
 
 function toInline(value: any): string {
@@ -0,0 +1,143 @@
+import { Aws } from 'aws-cdk-lib';
+import { IConnection } from 'aws-cdk-lib/aws-events';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { FieldUtils, TaskInput, TaskMetricsConfig, TaskStateBase, TaskStateBaseProps } from 'aws-cdk-lib/aws-stepfunctions';
+import { IConstruct } from 'constructs';
+import { StepFunctionValidation } from '../lib';
+
+
+export interface HttpInvokeProps extends TaskStateBaseProps {
+  /**
+   * The URL that the request should be sent to. Can be either a static URL
+   * or a JSONPath or intrinsic function that resolves to a URL at runtime.
+   */
+  readonly apiEndpoint: string;
+
+  /**
+   * The prefix that all URLs the task sends requests to will start with.
+   * Used to restrict the endpoints the state machine is permitted to invoke.
+   *
+   * @default The value of `apiEndpoint` if it is a static URL, otherwise any
+   * endpoint is permitted
+   */
+  readonly apiRoot?: string;
+
+  /**
+   * The EventBridge connection that provides the credentials used to
+   * authenticate the request.
+   */
+  readonly connection: IConnection;
+
+  /**
+   * Additional headers to include in the request.
+   */
+  readonly headers?: {[key: string]: any};
+
+  /**
+   * The HTTP method to use for the request.
+   *
+   * @default POST
+   */
+  readonly method?: string;
+
+  /**
+   * Query string parameters to add to the request.
+   */
+  readonly queryParameters?: {[key: string]: any};
+
+  /**
+   * The body of the request.
+   *
+   * Use `TaskInput.fromObject` to build the body from a static object where
+   * keys ending in `.$` are resolved as JSONPath or intrinsic functions, or
+   * `TaskInput.fromJsonPathAt` to send an object built by earlier states.
+   */
+  readonly requestBody?: TaskInput;
+}
+
+/**
+ * Calls a third-party HTTP API directly from a state machine, allowing the
+ * response to be used in later states.
+ *
+ * @see [Call third-party APIs in Step Functions workflows](https://docs.aws.amazon.com/step-functions/latest/dg/call-https-apis.html)
+ */
+export class HttpInvoke extends TaskStateBase {
+  public readonly apiEndpoint: string;
+  public readonly apiRoot?: string;
+  public readonly connection: IConnection;
+  public readonly headers?: {[key: string]: any};
+  public readonly method: string;
+  public readonly queryParameters?: {[key: string]: any};
+  public readonly requestBody?: TaskInput;
+
+  protected readonly taskMetrics?: TaskMetricsConfig;
+  protected readonly taskPolicies?: PolicyStatement[];
+
+
+  public constructor(scope: IConstruct, id: string, props: HttpInvokeProps) {
+    super(scope, id, props);
+
+    this.apiEndpoint = props.apiEndpoint;
+    this.connection = props.connection;
+    this.headers = props.headers;
+    this.method = props.method ?? 'POST';
+    this.queryParameters = props.queryParameters;
+    this.requestBody = props.requestBody;
+
+    this.apiRoot = props.apiRoot ?? (StepFunctionValidation.isStatesExpression(this.apiEndpoint) ? undefined : this.apiEndpoint);
+
+    this.taskPolicies = [
+      new PolicyStatement({
+        actions: [
+          'states:InvokeHTTPEndpoint',
+        ],
+        conditions: this.apiRoot ? {
+          StringLike: {
+            'states:HTTPEndpoint': `${this.apiRoot}*`,
+          },
+        } : undefined,
+        resources: [
+          '*',
+        ],
+      }),
+      new PolicyStatement({
+        actions: [
+          'events:RetrieveConnectionCredentials',
+        ],
+        resources: [
+          this.connection.connectionArn,
+        ],
+      }),
+      new PolicyStatement({
+        actions: [
+          'secretsmanager:DescribeSecret',
+          'secretsmanager:GetSecretValue',
+        ],
+        resources: [
+          this.connection.connectionSecretArn,
+        ],
+      }),
+    ];
+  }
+
+  /**
+   * @internal
+   */
+  protected _renderTask(): any {
+    const endpointKey = StepFunctionValidation.isStatesExpression(this.apiEndpoint) ? 'ApiEndpoint.$' : 'ApiEndpoint';
+
+    return {
+      Resource: `arn:${Aws.PARTITION}:states:::http:invoke`,
+      Parameters: FieldUtils.renderObject({
+        [endpointKey]: this.apiEndpoint,
+        Authentication: {
+          ConnectionArn: this.connection.connectionArn,
+        },
+        Headers: this.headers,
+        Method: this.method,
+        QueryParameters: this.queryParameters,
+        RequestBody: this.requestBody?.value,
+      }),
+    };
+  }
+}
@@ -0,0 +1 @@
+export * from './http-invoke';
\ No newline at end of file
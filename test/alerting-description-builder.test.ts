@@ -0,0 +1,125 @@
+import { Stack } from 'aws-cdk-lib';
+import { DefinitionBody, StateMachine } from 'aws-cdk-lib/aws-stepfunctions';
+import { findState, getDefinitions, getState } from './alerting-helpers';
+import { DescriptionBuilder, StateMachineEvaluator } from '../src/alerting';
+
+test('description builders should record a block for each value they write', () => {
+  const stack = new Stack();
+
+  addStateMachine(stack);
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'initialize-description-builder').Parameters).toEqual({
+    'Blocks': {
+      B000: {
+        'Type': 'intro',
+        'Value.$': '$.Detail.description',
+      },
+    },
+    'Builder.$': '$.Detail.description',
+    'Delimiter': '\n',
+    'Markdown.$': '$.Detail.description',
+  });
+  expect(findState(definition, 'block-finding-region')).toMatchObject({
+    Parameters: {
+      'Code': false,
+      'Label': 'Region',
+      'Type': 'field',
+      'Value.$': "States.Format('{}', $.Detail.region)",
+    },
+  });
+  expect(findState(definition, 'block-finding-id')).toMatchObject({
+    Parameters: {
+      Code: true,
+      Label: 'ID',
+      Type: 'field',
+    },
+  });
+  expect(getState(definition, 'add-finding-id').Parameters).toMatchObject({
+    'Markdown.$': "States.Format('{}\n- **ID:** `{}`', $.Description.Markdown, $.Detail.id)",
+  });
+  expect(getState(definition, 'format-description').Parameters?.Formats).toEqual({
+    'Adf': {
+      'content.$': '$.Formatting.Adf',
+      'type': 'doc',
+      'version': 1,
+    },
+    'Embed': {
+      'description.$': '$.Detail.description',
+      'fields.$': '$.Formatting.Fields',
+    },
+    'Facts.$': '$.Formatting.Facts',
+    'Markdown.$': '$.Description.Markdown',
+  });
+});
+
+test('description builders should render each structured format', () => {
+  const stack = new Stack();
+
+  const evaluator = StateMachineEvaluator.fromStateMachine(addStateMachine(stack));
+
+  const { Description: description } = evaluator.evaluate({
+    Detail: {
+      description: 'A finding was raised.',
+      id: 'abc123',
+      region: 'us-east-1',
+    },
+  });
+
+  expect(description.Formats.Markdown).toBe([
+    'A finding was raised.',
+    '',
+    '### Finding Information',
+    '',
+    '- **Region:** us-east-1',
+    '- **ID:** `abc123`',
+  ].join('\n'));
+  expect(description.Formats.Embed).toEqual({
+    description: 'A finding was raised.',
+    fields: [
+      { inline: false, name: 'Finding Information', value: '\u200b' },
+      { inline: true, name: 'Region', value: 'us-east-1' },
+      { inline: false, name: 'ID', value: '`abc123`' },
+    ],
+  });
+  expect(description.Formats.Facts).toEqual([
+    { title: 'Region', value: 'us-east-1' },
+    { title: 'ID', value: 'abc123' },
+  ]);
+  expect(description.Formats.Adf).toMatchObject({
+    type: 'doc',
+    version: 1,
+  });
+  expect(description.Formats.Adf.content.map((x: {[key: string]: unknown}) => x.type)).toEqual([
+    'paragraph',
+    'heading',
+    'paragraph',
+    'paragraph',
+  ]);
+});
+
+function addStateMachine(stack: Stack): StateMachine {
+  const builder = new DescriptionBuilder(stack, {
+    initialDescription: '$.Detail.description',
+  });
+
+  const section = builder.addSection('finding', {
+    title: 'Finding Information',
+  });
+
+  section.addReference('region', {
+    label: 'Region',
+    value: '$.Detail.region',
+  });
+
+  section.addReference('id', {
+    code: true,
+    label: 'ID',
+    value: '$.Detail.id',
+  });
+
+  return new StateMachine(stack, 'state-machine', {
+    definitionBody: DefinitionBody.fromChainable(builder.render()),
+  });
+}
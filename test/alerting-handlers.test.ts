@@ -0,0 +1,1160 @@
+import { CfnElement, Duration, SecretValue, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Authorization, HttpMethod, Schedule } from 'aws-cdk-lib/aws-events';
+import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { findState, getDefinitions, getState } from './alerting-helpers';
+import { Discord, EcrScanFinding, Email, EmailTemplate, GitHubIssue, IssueDigest, IssueManager, JiraTicket, PagerDuty, ServiceNowIncident, Slack, StateMachineEvaluator, Teams, Webhook } from '../src/alerting';
+
+test('slack messages should be posted to the slack api through an api destination', () => {
+  const stack = new Stack();
+
+  new Slack(stack, 'handler', {
+    channel: 'C0123ABCD',
+    token: new Secret(stack, 'token'),
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'POST',
+    InvocationEndpoint: Slack.MESSAGES_ENDPOINT,
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail-type': [Slack.DEFAULT_NAME],
+      'source': ['cdke.issues'],
+    },
+    Targets: [Match.objectLike({
+      DeadLetterConfig: Match.objectLike({
+        Arn: Match.anyValue(),
+      }),
+      InputPath: '$.detail.payload',
+    })],
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toEqual({
+    Channel: 'C0123ABCD',
+    Mentions: [],
+    Severity: 'UNKNOWN',
+  });
+  expect(getState(definition, 'build-request').Parameters).toEqual({
+    'attachments': [{
+      'blocks': [
+        {
+          text: {
+            'text.$': '$.Description',
+            'type': 'mrkdwn',
+          },
+          type: 'section',
+        },
+        {
+          elements: [{
+            'text.$': "States.Format('*Severity:* {}', $.Severity)",
+            'type': 'mrkdwn',
+          }],
+          type: 'context',
+        },
+      ],
+      'color.$': '$.Resolved.Color',
+    }],
+    'channel.$': '$.Channel',
+    'text.$': "States.Format('*{}*', $.Summary)",
+  });
+  expect(getState(definition, 'put-event').Parameters?.Entries).toEqual([
+    expect.objectContaining({
+      Detail: {
+        'payload.$': '$.Output',
+      },
+      DetailType: Slack.DEFAULT_NAME,
+      Source: 'cdke.issues',
+    }),
+  ]);
+});
+
+test('slack colors should merge with the defaults and mentions should be prepended', () => {
+  const stack = new Stack();
+
+  const handler = new Slack(stack, 'handler', {
+    channel: 'C0123ABCD',
+    colorMap: {
+      critical: '#000000',
+    },
+    mentions: ['<@U0123ABCD>'],
+    token: new Secret(stack, 'token'),
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(handler.colorMap).toEqual({
+    ...Slack.DEFAULT_COLOR_MAP,
+    critical: '#000000',
+  });
+  expect(getState(definition, 'map-critical').Parameters).toEqual({
+    'Color': '#000000',
+    'Severity.$': '$.Severity',
+  });
+  expect(getState(definition, 'map-high').Parameters?.Color).toBe(Slack.DEFAULT_COLOR_MAP.high);
+  expect(getState(definition, 'add-defaults').Parameters?.Mentions).toEqual(['<@U0123ABCD>']);
+  expect(getState(definition, 'merge-mentions').Parameters).toEqual({
+    'attachments.$': '$.Output.attachments',
+    'channel.$': '$.Output.channel',
+    'text.$': '$.Optional.Mentions.Text',
+  });
+});
+
+test('pagerduty events should be deduplicated by issue and resolved when the issue closes', () => {
+  const stack = new Stack();
+
+  new PagerDuty(stack, 'handler', {
+    routingKey: new Secret(stack, 'routing-key'),
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'POST',
+    InvocationEndpoint: PagerDuty.EVENTS_ENDPOINT,
+  });
+  template.hasResourceProperties('AWS::Events::Connection', {
+    AuthParameters: Match.objectLike({
+      ApiKeyAuthParameters: {
+        ApiKeyName: 'X-PagerDuty-Auth',
+        ApiKeyValue: 'none',
+      },
+      InvocationHttpParameters: Match.objectLike({
+        BodyParameters: [Match.objectLike({
+          IsValueSecret: true,
+          Key: 'routing_key',
+        })],
+      }),
+    }),
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toEqual({
+    Source: PagerDuty.DEFAULT_SOURCE,
+  });
+  expect(getState(definition, 'hash-id').Parameters).toEqual({
+    'Key.$': "States.Hash($.Id, 'SHA-256')",
+  });
+  expect(getState(definition, 'hash-summary').Parameters).toEqual({
+    'Key.$': "States.Hash($.Summary, 'SHA-256')",
+  });
+  expect(getState(definition, 'check-status').Choices).toEqual([{
+    And: [
+      { Variable: '$.Status', IsPresent: true },
+      { Variable: '$.Status', StringEquals: 'RESOLVED' },
+    ],
+    Next: 'build-resolve',
+  }]);
+  expect(getState(definition, 'build-resolve').Parameters).toEqual({
+    'dedup_key.$': '$.DedupKey.Key',
+    'event_action': 'resolve',
+  });
+  expect(getState(definition, 'build-trigger').Parameters).toEqual({
+    'dedup_key.$': '$.DedupKey.Key',
+    'event_action': 'trigger',
+    'payload': {
+      'custom_details': {
+        'description.$': '$.Description',
+      },
+      'severity.$': '$.Resolved.Severity',
+      'source.$': '$.Source',
+      'summary.$': '$.Summary',
+    },
+  });
+});
+
+test('pagerduty severities should merge with the defaults and allow overrides', () => {
+  const stack = new Stack();
+
+  const handler = new PagerDuty(stack, 'handler', {
+    routingKey: new Secret(stack, 'routing-key'),
+    severityMap: {
+      low: 'info',
+    },
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'map-low').Parameters).toEqual({
+    Severity: 'info',
+  });
+  expect(getState(definition, 'map-critical').Parameters).toEqual({
+    Severity: PagerDuty.DEFAULT_SEVERITY_MAP.critical,
+  });
+  expect(getState(definition, 'check-severity').Choices?.[0]).toEqual({
+    Variable: '$.PagerDutySeverity',
+    IsPresent: true,
+    Next: 'map-override',
+  });
+  expect(handler.buildEventOverrides({ severity: 'critical' }).overrides).toEqual({
+    PagerDutySeverity: 'critical',
+    Source: undefined,
+  });
+});
+
+test('teams messages should be sent as adaptive cards to the selected webhook', () => {
+  const stack = new Stack();
+
+  const handler = new Teams(stack, 'handler', {
+    webhookUrl: new Secret(stack, 'default-webhook'),
+  });
+
+  const security = new Secret(stack, 'security-webhook');
+  handler.addWebhook('security', security);
+
+  const template = Template.fromStack(stack);
+
+  template.resourceCountIs('AWS::Events::ApiDestination', 2);
+  template.resourceCountIs('AWS::SQS::Queue', 1);
+  template.hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'POST',
+    InvocationEndpoint: {
+      'Fn::Join': ['', [
+        '{{resolve:secretsmanager:',
+        { Ref: stack.getLogicalId(security.node.defaultChild as CfnElement) },
+        ':SecretString:url::}}',
+      ]],
+    },
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({
+      'detail': {
+        webhook: ['security'],
+      },
+      'detail-type': [Teams.DEFAULT_NAME],
+    }),
+    Targets: [Match.objectLike({
+      InputPath: '$.detail.payload',
+    })],
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toEqual({
+    RegisteredWebhooks: [Teams.DEFAULT_WEBHOOK, 'security'],
+    Severity: 'UNKNOWN',
+    Status: 'OPEN',
+    Webhook: Teams.DEFAULT_WEBHOOK,
+  });
+  expect(getState(definition, 'build-request').Parameters).toMatchObject({
+    attachments: [{
+      content: {
+        'actions.$': '$.Actions.List',
+        'body': [
+          expect.objectContaining({
+            'text.$': '$.Summary',
+            'type': 'TextBlock',
+          }),
+          {
+            'facts.$': '$.Facts.List',
+            'type': 'FactSet',
+          },
+          expect.objectContaining({
+            'text.$': '$.CardDescription',
+            'type': 'TextBlock',
+          }),
+        ],
+        'type': 'AdaptiveCard',
+        'version': '1.4',
+      },
+      contentType: 'application/vnd.microsoft.card.adaptive',
+    }],
+    type: 'message',
+  });
+  expect(getState(definition, 'put-event').Parameters?.Entries).toEqual([expect.objectContaining({
+    Detail: {
+      'payload.$': '$.Output',
+      'webhook.$': '$.Webhook',
+    },
+  })]);
+});
+
+test('teams messages should fall back to the default webhook and allow the url to be overridden', () => {
+  const stack = new Stack();
+
+  const handler = new Teams(stack, 'handler', {
+    webhookUrl: new Secret(stack, 'default-webhook'),
+  });
+
+  handler.addWebhook('security', new Secret(stack, 'security-webhook'));
+
+  const evaluator = StateMachineEvaluator.fromStateMachine(handler.handler);
+
+  const issue = {
+    DescriptionFormats: {
+      Facts: [
+        { title: 'Region', value: 'us-east-1' },
+      ],
+    },
+    Description: 'A finding was raised.',
+    Severity: 'HIGH',
+    Summary: 'GuardDuty Finding',
+  };
+
+  // Overrides are serialized into the definition of the issue manager so
+  // fields that aren't set are dropped.
+  const send = (overrides: {[key: string]: unknown}) => {
+    return evaluator.evaluate({
+      ...issue,
+      ...JSON.parse(JSON.stringify(overrides)),
+    }, {
+      taskResults: {
+        'post-to-webhook-url': {},
+        'put-event': {},
+      },
+    });
+  };
+
+  const registered = send(handler.buildEventOverrides({ webhook: 'security' }).overrides);
+  const unregistered = send(handler.buildEventOverrides({ webhook: 'unknown' }).overrides);
+
+  expect(registered.Webhook).toBe('security');
+  expect(unregistered.Webhook).toBe(Teams.DEFAULT_WEBHOOK);
+  expect(registered.Facts.List).toEqual([
+    { title: 'Severity', value: 'HIGH' },
+    { title: 'Status', value: 'OPEN' },
+    { title: 'Region', value: 'us-east-1' },
+  ]);
+
+  // Messages with a URL are posted directly so evaluation fails if the
+  // message is sent through the event bus instead.
+  expect(() => {
+    evaluator.evaluate({
+      ...issue,
+      WebhookUrl: 'https://example.webhook.office.com/webhookb2/oncall',
+    }, {
+      taskResults: {
+        'post-to-webhook-url': {},
+      },
+    });
+  }).not.toThrow();
+
+  expect(handler.buildEventOverrides({ webhookUrl: 'https://example.webhook.office.com/webhookb2/oncall' }).overrides).toEqual({
+    Webhook: undefined,
+    WebhookUrl: 'https://example.webhook.office.com/webhookb2/oncall',
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'post-to-webhook-url')).toMatchObject({
+    Parameters: {
+      'ApiEndpoint.$': '$.WebhookUrl',
+      'Method': 'POST',
+      'RequestBody.$': '$.Output',
+    },
+    Resource: expect.stringContaining(':states:::http:invoke'),
+  });
+});
+
+test('teams webhooks should not be registered twice', () => {
+  const stack = new Stack();
+
+  const handler = new Teams(stack, 'handler', {
+    webhookUrl: new Secret(stack, 'default-webhook'),
+  });
+
+  expect(() => {
+    handler.addWebhook(Teams.DEFAULT_WEBHOOK, new Secret(stack, 'other-webhook'));
+  }).toThrow(/has already been registered/);
+});
+
+test('webhook templates should be rendered into the request body', () => {
+  const stack = new Stack();
+
+  new Webhook(stack, 'handler', {
+    authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+    defaults: {
+      Team: 'platform',
+    },
+    endpoint: 'https://example.com/issues',
+    headers: {
+      'X-Source': 'aws',
+    },
+    httpMethod: HttpMethod.PUT,
+    template: {
+      labels: ['aws', 'issue'],
+      links: ['$.Url'],
+      summary: '$.Summary',
+      team: {
+        name: '$.Team',
+        static: true,
+      },
+    },
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'PUT',
+    InvocationEndpoint: 'https://example.com/issues',
+  });
+  template.hasResourceProperties('AWS::Events::Connection', {
+    AuthParameters: Match.objectLike({
+      InvocationHttpParameters: {
+        HeaderParameters: [
+          { IsValueSecret: false, Key: 'Content-Type', Value: 'application/json' },
+          { IsValueSecret: false, Key: 'X-Source', Value: 'aws' },
+        ],
+      },
+    }),
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toEqual({
+    Team: 'platform',
+  });
+  expect(getState(definition, 'build-request').Parameters).toEqual({
+    'labels': ['aws', 'issue'],
+    'links.$': 'States.Array($.Url)',
+    'summary.$': '$.Summary',
+    'team': {
+      'name.$': '$.Team',
+      'static': true,
+    },
+  });
+});
+
+test('webhooks should require a connection or authorization', () => {
+  const stack = new Stack();
+
+  expect(() => {
+    new Webhook(stack, 'handler', {
+      endpoint: 'https://example.com/issues',
+      template: {},
+    });
+  }).toThrow(/One of connection or authorization must be specified/);
+});
+
+test('servicenow incidents should be created through the table api', () => {
+  const stack = new Stack();
+
+  const handler = new ServiceNowIncident(stack, 'handler', {
+    assignmentGroup: 'Security',
+    credentials: new Secret(stack, 'credentials'),
+    instanceUrl: 'https://example.service-now.com/',
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'POST',
+    InvocationEndpoint: 'https://example.service-now.com/api/now/table/incident',
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    Targets: [Match.objectLike({
+      DeadLetterConfig: Match.objectLike({
+        Arn: Match.anyValue(),
+      }),
+      InputPath: '$.detail.fields',
+    })],
+  });
+  expect(handler.deadLetterQueue).toBeDefined();
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toEqual({
+    AssignmentGroup: 'Security',
+  });
+  expect(getState(definition, 'build-fields').Parameters).toEqual({
+    'description.$': '$.Description',
+    'impact.$': '$.Resolved.Impact',
+    'short_description.$': '$.Summary',
+    'urgency.$': '$.Resolved.Urgency',
+  });
+  expect(getState(definition, 'build-correlation-id').Parameters).toEqual({
+    'correlation_id.$': '$.Id',
+  });
+  expect(getState(definition, 'put-event').Parameters?.Entries).toEqual([expect.objectContaining({
+    Detail: {
+      'fields.$': '$.Output.Fields',
+    },
+  })]);
+});
+
+test('github issues should be created in the configured repository with severity labels', () => {
+  const stack = new Stack();
+
+  new GitHubIssue(stack, 'handler', {
+    assignees: ['octocat'],
+    labels: ['security'],
+    owner: 'example',
+    repository: 'infrastructure',
+    token: new Secret(stack, 'token'),
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'POST',
+    InvocationEndpoint: GitHubIssue.ISSUES_ENDPOINT,
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    Targets: [Match.objectLike({
+      HttpParameters: {
+        PathParameterValues: ['$.detail.owner', '$.detail.repository'],
+      },
+      InputPath: '$.detail.payload',
+    })],
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toEqual({
+    Assignees: ['octocat'],
+    Labels: ['security'],
+    MatchType: 'Unknown',
+    Owner: 'example',
+    Repository: 'infrastructure',
+  });
+  expect(getState(definition, 'map-critical').Parameters).toEqual({
+    'Label': GitHubIssue.DEFAULT_SEVERITY_LABELS.critical,
+    'Severity.$': '$.Severity',
+  });
+  expect(getState(definition, 'flatten-labels').Parameters).toEqual({
+    'Labels.$': '$.LabelGroups.Groups[*][*]',
+  });
+  expect(getState(definition, 'check-description-format').Choices?.[0]).toMatchObject({
+    Next: 'use-markdown-description',
+    Variable: '$.DescriptionFormats.Markdown',
+  });
+  expect(getState(definition, 'build-request').Parameters).toEqual({
+    'assignees.$': '$.Assignees',
+    'body.$': '$.Body.Value',
+    'labels.$': '$.Resolved.Labels',
+    'title.$': '$.Summary',
+  });
+  expect(getState(definition, 'put-event').Parameters?.Entries).toEqual([expect.objectContaining({
+    Detail: {
+      'owner.$': '$.Owner',
+      'payload.$': '$.Output',
+      'repository.$': '$.Repository',
+    },
+  })]);
+});
+
+test('ecr scan findings should be routable to the repository that owns the image', () => {
+  const stack = new Stack();
+
+  const handler = new GitHubIssue(stack, 'handler', {
+    owner: 'example',
+    repository: 'infrastructure',
+    token: new Secret(stack, 'token'),
+  });
+
+  const parser = new EcrScanFinding(stack, 'parser');
+
+  parser.registerIssueTrigger('payments', {
+    overrides: [
+      handler.buildEventOverrides({
+        repository: 'payments-api',
+      }),
+    ],
+    repositories: ['payments-api'],
+  });
+
+  new IssueManager(stack, 'issue-manager', {
+    handlers: [handler],
+    parsers: [parser],
+  });
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({
+      detail: Match.objectLike({
+        'repository-name': ['payments-api'],
+      }),
+      source: ['aws.ecr'],
+    }),
+    Targets: [Match.objectLike({
+      InputTransformer: Match.objectLike({
+        InputTemplate: Match.stringLikeRegexp('"Overrides":\\{"GitHubIssue":\\{"Repository":"payments-api"\\}\\}'),
+      }),
+    })],
+  });
+});
+
+test('emails should be sent through ses using the configured templates', () => {
+  const stack = new Stack();
+
+  new Email(stack, 'handler', {
+    from: 'alerts@example.com',
+    recipients: ['security@example.com'],
+    subjectTemplate: EmailTemplate.format('Issue: {}', ['$.Summary']),
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([Match.objectLike({
+        Action: 'ses:SendEmail',
+        Effect: 'Allow',
+      })]),
+    },
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'add-defaults').Parameters).toMatchObject({
+    Recipients: ['security@example.com'],
+    Status: 'OPEN',
+  });
+  expect(findState(definition, 'escape-less-than-initialize')).toBeDefined();
+  expect(findState(definition, 'send-email')).toMatchObject({
+    Parameters: {
+      Content: {
+        Simple: {
+          Body: {
+            Html: {
+              'Charset': 'UTF-8',
+              'Data.$': EmailTemplate.DEFAULT_HTML.render(),
+            },
+            Text: {
+              'Charset': 'UTF-8',
+              'Data.$': EmailTemplate.DEFAULT_TEXT.render(),
+            },
+          },
+          Subject: {
+            'Charset': 'UTF-8',
+            'Data.$': "States.Format('Issue: {}', $.Summary)",
+          },
+        },
+      },
+      Destination: {
+        'ToAddresses.$': '$.Recipients',
+      },
+      FromEmailAddress: 'alerts@example.com',
+    },
+    Resource: expect.stringContaining(':sesv2:sendEmail'),
+  });
+});
+
+test('emails should escape the summary and url used in the html body', () => {
+  const stack = new Stack();
+
+  const handler = new Email(stack, 'handler', {
+    from: 'alerts@example.com',
+    recipients: ['security@example.com'],
+  });
+
+  const output = StateMachineEvaluator.fromStateMachine(handler.handler).evaluate({
+    AccountId: '123456789012',
+    Description: 'Traffic from <unknown> & unexpected hosts.',
+    MatchType: 'GuardDutyFinding',
+    Region: 'us-east-1',
+    Severity: 'HIGH',
+    Summary: 'Port probe on <b>web</b> & db',
+    Url: 'https://console.aws.amazon.com/guardduty/home?a=1&b="2"&c=3',
+  }, {
+    taskResults: {
+      'send-email': {},
+    },
+  });
+
+  expect(output).toMatchObject({
+    ConsoleLink: {
+      Html: '<p><a href="https://console.aws.amazon.com/guardduty/home?a=1&amp;b=&quot;2&quot;&amp;c=3">View in AWS Console</a></p>',
+      Text: 'View in AWS Console: https://console.aws.amazon.com/guardduty/home?a=1&b="2"&c=3',
+    },
+    HtmlDescription: 'Traffic from &lt;unknown&gt; &amp; unexpected hosts.',
+    HtmlSummary: 'Port probe on &lt;b&gt;web&lt;/b&gt; &amp; db',
+  });
+});
+
+test('email templates should have a field for each placeholder', () => {
+  expect(() => {
+    EmailTemplate.format('{} {}', ['$.Summary']);
+  }).toThrow(/has 2 placeholders but 1 fields/);
+});
+
+test('emails should require at least one recipient', () => {
+  const stack = new Stack();
+
+  expect(() => {
+    new Email(stack, 'handler', {
+      from: 'alerts@example.com',
+      recipients: [],
+    });
+  }).toThrow(/At least one recipient must be specified/);
+});
+
+test('discord messages should announce resolved issues in the original channel', () => {
+  const stack = new Stack();
+
+  const handler = new Discord(stack, 'handler', {
+    channel: '123456789012345678',
+    token: new Secret(stack, 'token'),
+  });
+
+  expect(handler.apiDestination).toBeDefined();
+  expect(handler.deadLetterQueue).toBeDefined();
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'check-resolution').Choices).toEqual([{
+    And: [
+      { Variable: '$.Reference', IsPresent: true },
+      { Variable: '$.Status', IsPresent: true },
+      { Variable: '$.Status', StringEquals: 'RESOLVED' },
+    ],
+    Next: 'build-resolution',
+  }]);
+  expect(getState(definition, 'build-resolution').Parameters).toEqual({
+    'Channel.$': '$.Reference',
+    'Request': {
+      'content.$': "States.Format('**Resolved:** {}', $.Summary)",
+    },
+  });
+  expect(getState(definition, 'format-message-output').Parameters).toEqual({
+    'Reference.$': '$.Channel',
+  });
+});
+
+test('jira tickets should be labelled and transitioned once their issue is resolved', () => {
+  const stack = new Stack();
+
+  const handler = new JiraTicket(stack, 'handler', {
+    credentials: new Secret(stack, 'credentials'),
+    issueType: 'Bug',
+    jiraUrl: 'https://example.atlassian.net/',
+    priorityMap: {},
+    project: 'OPS',
+    transitionId: '31',
+  });
+
+  expect(handler.deadLetterQueue).toBeDefined();
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::ApiDestination', {
+    HttpMethod: 'POST',
+    InvocationEndpoint: 'https://example.atlassian.net/rest/api/2/issue/',
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'check-resolution').Choices?.[0].Next).toBe('find-tickets');
+  expect(getState(definition, 'check-tracking').Choices?.[0]).toEqual({
+    Variable: '$.TransitionId',
+    IsPresent: true,
+    Next: 'build-label',
+  });
+  expect(getState(definition, 'build-label').Parameters).toEqual({
+    'Value.$': "States.Format('cdke-{}', States.UUID())",
+  });
+  expect(findState(definition, 'find-tickets')).toMatchObject({
+    Next: 'transition-tickets',
+    Parameters: {
+      ApiEndpoint: 'https://example.atlassian.net/rest/api/2/search',
+      Method: 'GET',
+      QueryParameters: {
+        'fields': 'key',
+        'jql.$': "States.Format('labels = \"{}\"', $.Reference)",
+      },
+    },
+  });
+  expect(getState(definition, 'transition-ticket').Parameters).toMatchObject({
+    'ApiEndpoint.$': "States.Format('https://example.atlassian.net/rest/api/2/issue/{}/transitions', $.Key)",
+    'Method': 'POST',
+    'RequestBody': {
+      transition: {
+        'id.$': '$.TransitionId',
+      },
+    },
+  });
+  expect(getState(definition, 'format-create-output').Parameters).toEqual({
+    'Reference.$': '$.Label.Value',
+  });
+});
+
+test('jira handlers should ignore resolved issues that they cannot transition', () => {
+  const stack = new Stack();
+
+  const props = {
+    credentials: new Secret(stack, 'credentials'),
+    issueType: 'Bug',
+    jiraUrl: 'https://example.atlassian.net/',
+    priorityMap: {},
+    project: 'OPS',
+  };
+
+  const untracked = StateMachineEvaluator.fromStateMachine(new JiraTicket(stack, 'untracked', props).handler);
+  const tracked = StateMachineEvaluator.fromStateMachine(new JiraTicket(stack, 'tracked', {
+    ...props,
+    transitionId: '31',
+  }).handler);
+
+  const issue = {
+    Description: 'The alarm has returned to the OK state.',
+    Severity: 'HIGH',
+    Status: 'RESOLVED',
+    Summary: 'CloudWatch Alarm - HighCPU',
+  };
+
+  // No task results are given so evaluation fails if a ticket is created or
+  // transitioned.
+  expect(() => {
+    untracked.evaluate({
+      ...issue,
+      Reference: 'cdke-6f1c2e3a-0d4b-4c5e-8f9a-1b2c3d4e5f60',
+    });
+  }).not.toThrow();
+  expect(() => {
+    tracked.evaluate(issue);
+  }).not.toThrow();
+  expect(() => {
+    tracked.evaluate({
+      ...issue,
+      Status: 'OPEN',
+    });
+  }).toThrow(/The Task state 'put-event' can't be evaluated locally/);
+  expect(() => {
+    tracked.evaluate({
+      ...issue,
+      Reference: 'cdke-6f1c2e3a-0d4b-4c5e-8f9a-1b2c3d4e5f60',
+    });
+  }).toThrow(/The Task state 'find-tickets' can't be evaluated locally/);
+});
+
+test('handlers that cannot resolve issues should ignore resolved issues', () => {
+  const stack = new Stack();
+
+  const handlers = [
+    new Email(stack, 'email', {
+      from: 'alerts@example.com',
+      recipients: ['security@example.com'],
+    }),
+    new GitHubIssue(stack, 'github', {
+      owner: 'example',
+      repository: 'infrastructure',
+      token: new Secret(stack, 'github-token'),
+    }),
+    new ServiceNowIncident(stack, 'servicenow', {
+      credentials: new Secret(stack, 'servicenow-credentials'),
+      instanceUrl: 'https://example.service-now.com/',
+    }),
+    new Slack(stack, 'slack', {
+      channel: 'C0123ABCD',
+      token: new Secret(stack, 'slack-token'),
+    }),
+    new Teams(stack, 'teams', {
+      webhookUrl: new Secret(stack, 'teams-webhook'),
+    }),
+    new Webhook(stack, 'webhook', {
+      authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+      endpoint: 'https://example.com/issues',
+      template: {
+        summary: '$.Summary',
+      },
+    }),
+  ];
+
+  const issue = {
+    AccountId: '123456789012',
+    Description: 'The alarm has returned to the OK state.',
+    MatchType: 'CloudWatchAlarm',
+    Region: 'us-east-1',
+    Severity: 'HIGH',
+    Summary: 'CloudWatch Alarm - HighCPU',
+  };
+
+  handlers.forEach((x) => {
+    const evaluator = StateMachineEvaluator.fromStateMachine(x.handler);
+
+    // No task results are given so evaluation fails if anything is sent.
+    expect(() => {
+      evaluator.evaluate({
+        ...issue,
+        Status: 'RESOLVED',
+      });
+    }).not.toThrow();
+    expect(() => {
+      evaluator.evaluate({
+        ...issue,
+        Status: 'OPEN',
+      });
+    }).toThrow(/The Task state '(put-event|send-email)' can't be evaluated locally/);
+  });
+});
+
+test('jira cloud tickets should be found using the jql search endpoint', () => {
+  const stack = new Stack();
+
+  new JiraTicket(stack, 'handler', {
+    cloud: true,
+    credentials: new Secret(stack, 'credentials'),
+    issueType: 'Bug',
+    jiraUrl: 'https://example.atlassian.net/',
+    priorityMap: {},
+    project: 'OPS',
+    transitionId: '31',
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'find-tickets').Parameters).toMatchObject({
+    ApiEndpoint: 'https://example.atlassian.net/rest/api/3/search/jql',
+  });
+  expect(getState(definition, 'transition-ticket').Parameters).toMatchObject({
+    'ApiEndpoint.$': "States.Format('https://example.atlassian.net/rest/api/3/issue/{}/transitions', $.Key)",
+  });
+});
+
+test('discord resolution notices should be sent to the channel of the original message', () => {
+  const stack = new Stack();
+
+  const handler = new Discord(stack, 'handler', {
+    channel: '123456789012345678',
+    token: new Secret(stack, 'token'),
+  });
+
+  const evaluator = StateMachineEvaluator.fromStateMachine(handler.handler);
+  const evaluate = (issue: {[key: string]: unknown}): {[key: string]: unknown} => {
+    return evaluator.evaluate({
+      Description: 'The alarm has returned to the OK state.',
+      Summary: 'CloudWatch Alarm - HighCPU',
+      ...issue,
+    }, {
+      taskResults: {
+        'put-event': {},
+      },
+    });
+  };
+
+  expect(evaluate({
+    Status: 'OPEN',
+  })).toEqual({
+    Reference: '123456789012345678',
+  });
+  expect(evaluate({
+    Reference: '876543210987654321',
+    Status: 'RESOLVED',
+  })).toEqual({
+    Reference: '876543210987654321',
+  });
+});
+
+test('issue digests should count issues by type and severity until they are sent', () => {
+  const stack = new Stack();
+
+  const destination = new Webhook(stack, 'destination', {
+    authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+    endpoint: 'https://example.com/issues',
+    template: {
+      'summary.$': '$.Summary',
+    },
+  });
+
+  new IssueDigest(stack, 'digest', {
+    handler: destination,
+    schedule: Schedule.rate(Duration.hours(6)),
+    severity: 'low',
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::DynamoDB::Table', {
+    KeySchema: [
+      { AttributeName: 'Digest', KeyType: 'HASH' },
+      { AttributeName: 'Group', KeyType: 'RANGE' },
+    ],
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    ScheduleExpression: 'rate(6 hours)',
+  });
+
+  const definitions = getDefinitions(stack);
+  const record = definitions.find((x) => {
+    return findState(x, 'record-issue') !== undefined;
+  });
+  const flush = definitions.find((x) => {
+    return findState(x, 'query-groups') !== undefined;
+  });
+
+  expect(getState(record, 'record-issue').Parameters).toMatchObject({
+    Key: {
+      Digest: { S: IssueDigest.DEFAULT_NAME },
+      Group: { 'S.$': "States.Format('{}#{}', $.MatchType, $.Severity)" },
+    },
+    UpdateExpression: expect.stringMatching(/^ADD #count :one SET /),
+  });
+  expect(getState(flush, 'check-groups').Choices).toEqual([{
+    Variable: '$.Groups.Count',
+    NumericGreaterThan: 0,
+    Next: expect.any(String),
+  }]);
+  expect(getState(flush, 'send-digest').Parameters?.Input).toMatchObject({
+    'Alert': true,
+    'MatchType': IssueDigest.MATCH_TYPE,
+    'Severity': 'LOW',
+    'Status': 'OPEN',
+    'Summary.$': `States.Format('${IssueDigest.DEFAULT_NAME} - {} groups of issues since the last digest', $.Groups.Count)`,
+  });
+  expect(findState(flush, 'remove-group')).toMatchObject({
+    Catch: [{
+      ErrorEquals: ['DynamoDB.ConditionalCheckFailedException'],
+      Next: 'group-changed',
+    }],
+    Parameters: {
+      ConditionExpression: 'IssueCount = :count',
+    },
+  });
+});
+
+test('issue digests should record issues that have no summary', () => {
+  const stack = new Stack();
+
+  const digest = new IssueDigest(stack, 'digest', {
+    handler: new Webhook(stack, 'destination', {
+      authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+      endpoint: 'https://example.com/issues',
+      template: {
+        'summary.$': '$.Summary',
+      },
+    }),
+  });
+
+  const output = StateMachineEvaluator.fromStateMachine(digest.handler).evaluate({
+    MatchType: 'GuardDutyFinding',
+    Severity: 'HIGH',
+  }, {
+    taskResults: {
+      'record-issue': {},
+    },
+  });
+
+  expect(output).toEqual({
+    MatchType: 'GuardDutyFinding',
+    Severity: 'HIGH',
+    Summary: 'Untitled issue',
+  });
+});
+
+test('pagerduty incidents should be resolved using the dedup key they were raised with', () => {
+  const stack = new Stack();
+
+  const handler = new PagerDuty(stack, 'handler', {
+    routingKey: new Secret(stack, 'routing-key'),
+  });
+
+  const evaluator = StateMachineEvaluator.fromStateMachine(handler.handler);
+  const evaluate = (issue: {[key: string]: unknown}): {[key: string]: unknown} => {
+    return evaluator.evaluate(issue, {
+      taskResults: {
+        'put-event': {},
+      },
+    }).Output;
+  };
+
+  const raised = evaluate({
+    Description: 'An instance is communicating with a known command and control server.',
+    Id: 'issue-1',
+    Severity: 'HIGH',
+    Status: 'OPEN',
+    Summary: 'Backdoor:EC2/C&CActivity.B',
+  });
+  const resolved = evaluate({
+    Id: 'issue-1',
+    Status: 'RESOLVED',
+    Summary: 'Backdoor:EC2/C&CActivity.B',
+  });
+
+  expect(raised).toMatchObject({
+    event_action: 'trigger',
+    payload: {
+      severity: 'error',
+      source: PagerDuty.DEFAULT_SOURCE,
+    },
+  });
+  expect(resolved).toEqual({
+    dedup_key: raised.dedup_key,
+    event_action: 'resolve',
+  });
+});
+
+test('servicenow severities should merge with the defaults and allow partial overrides', () => {
+  const stack = new Stack();
+
+  const handler = new ServiceNowIncident(stack, 'handler', {
+    credentials: new Secret(stack, 'credentials'),
+    instanceUrl: 'https://example.service-now.com',
+    severityMap: {
+      low: {
+        impact: '2',
+        urgency: '3',
+      },
+    },
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'map-low').Parameters).toEqual({
+    'Impact': '2',
+    'Severity.$': '$.Severity',
+    'Urgency': '3',
+  });
+  expect(getState(definition, 'map-default').Parameters).toEqual({
+    Impact: ServiceNowIncident.DEFAULT_SEVERITY_MAP.default!.impact,
+    Severity: 'DEFAULT',
+    Urgency: ServiceNowIncident.DEFAULT_SEVERITY_MAP.default!.urgency,
+  });
+  expect(getState(definition, 'map-override').Parameters).toEqual({
+    'Value.$': 'States.JsonMerge($.Resolved, $.Priority, false)',
+  });
+  expect(handler.buildEventOverrides({ urgency: '1' }).overrides.Priority).toEqual({
+    Urgency: '1',
+  });
+});
+
+test('github severity labels should merge with the defaults', () => {
+  const stack = new Stack();
+
+  new GitHubIssue(stack, 'handler', {
+    owner: 'example',
+    repository: 'infrastructure',
+    severityLabels: {
+      critical: 'P0',
+    },
+    token: new Secret(stack, 'token'),
+  });
+
+  const [definition] = getDefinitions(stack);
+
+  expect(getState(definition, 'map-critical').Parameters).toEqual({
+    'Label': 'P0',
+    'Severity.$': '$.Severity',
+  });
+  expect(getState(definition, 'map-high').Parameters).toEqual({
+    'Label': GitHubIssue.DEFAULT_SEVERITY_LABELS.high,
+    'Severity.$': '$.Severity',
+  });
+  expect(getState(definition, 'map-default').Parameters).toEqual({
+    Label: GitHubIssue.DEFAULT_SEVERITY_LABELS.default,
+    Severity: 'DEFAULT',
+  });
+});
+
+test('discord embeds should be limited to the sizes accepted by discord', () => {
+  const stack = new Stack();
+
+  new Discord(stack, 'handler', {
+    channel: '123456789012345678',
+    token: new Secret(stack, 'token'),
+  });
+
+  const [definition] = getDefinitions(stack);
+  const limitEmbed = getState(definition, 'limit-embed');
+
+  expect(limitEmbed).toMatchObject({
+    Next: 'build-embed-request',
+    QueryLanguage: 'JSONata',
+    Type: 'Pass',
+  });
+  expect(limitEmbed.Output).toMatch(/^\{%[\s\S]*%\}$/);
+  expect(limitEmbed.Output).toContain(`$truncate($field.value, ${Discord.MAX_EMBED_FIELD_VALUE_LENGTH})`);
+  expect(limitEmbed.Output).toContain(`$index < ${Discord.MAX_EMBED_FIELDS}`);
+  expect(limitEmbed.Output).toContain(`'remaining': ${Discord.MAX_EMBED_LENGTH}`);
+});
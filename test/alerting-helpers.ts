@@ -0,0 +1,152 @@
+import { SecretValue, Stack } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { Authorization } from 'aws-cdk-lib/aws-events';
+import { IIssueParser, IssueManager, Webhook } from '../src/alerting';
+
+/**
+ * A rule of a Choice state in an Amazon States Language definition.
+ */
+export interface ChoiceRule {
+  readonly And?: ChoiceRule[];
+  readonly Next?: string;
+  readonly Not?: ChoiceRule;
+  readonly Or?: ChoiceRule[];
+  readonly Variable?: string;
+  readonly [key: string]: unknown;
+}
+
+/**
+ * A state in an Amazon States Language definition.
+ */
+export interface StateDefinition {
+  readonly Branches?: StateMachineDefinition[];
+  readonly Catch?: {[key: string]: unknown}[];
+  readonly Choices?: ChoiceRule[];
+  readonly Default?: string;
+  readonly ItemProcessor?: StateMachineDefinition;
+  readonly Iterator?: StateMachineDefinition;
+  readonly Next?: string;
+  readonly Parameters?: {[key: string]: unknown};
+  readonly Retry?: {[key: string]: unknown}[];
+  readonly Type: string;
+  readonly [key: string]: unknown;
+}
+
+/**
+ * An Amazon States Language definition.
+ */
+export interface StateMachineDefinition {
+  readonly StartAt: string;
+  readonly States: {[name: string]: StateDefinition};
+  readonly TimeoutSeconds?: number;
+}
+
+/**
+ * Creates an issue manager that uses the given parsers so that the rules for
+ * their triggers are added to the stack.
+ */
+export function addIssueManager(stack: Stack, ...parsers: IIssueParser[]): IssueManager {
+  const handler = new Webhook(stack, 'handler', {
+    authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+    endpoint: 'https://example.com/issues',
+    template: {
+      'summary.$': '$.Summary',
+    },
+  });
+
+  return new IssueManager(stack, 'issue-manager', {
+    handlers: [handler],
+    parsers: parsers,
+  });
+}
+
+/**
+ * Returns the parsed definitions of all state machines in a stack.
+ *
+ * References to other resources in a definition are replaced with the
+ * logical ID of the resource so the definition can be parsed as JSON.
+ */
+export function getDefinitions(stack: Stack): StateMachineDefinition[] {
+  const resources = Template.fromStack(stack).findResources('AWS::StepFunctions::StateMachine');
+
+  return Object.values(resources).map((x) => {
+    return JSON.parse(resolveString(x.Properties.DefinitionString));
+  });
+}
+
+/**
+ * Returns the definition of the state machine that contains a state.
+ */
+export function getDefinition(stack: Stack, name: string): StateMachineDefinition {
+  const definition = getDefinitions(stack).find((x) => {
+    return findState(x, name) !== undefined;
+  });
+
+  if (!definition) {
+    throw new Error(`No state machine in the stack has a state named '${name}'.`);
+  }
+
+  return definition;
+}
+
+export function getManagerDefinition(stack: Stack): StateMachineDefinition {
+  return getDefinition(stack, 'determine-issue-type');
+}
+
+export function findState(definition: StateMachineDefinition | undefined, name: string): StateDefinition | undefined {
+  if (!definition?.States) {
+    return undefined;
+  }
+
+  if (name in definition.States) {
+    return definition.States[name];
+  }
+
+  for (const state of Object.values(definition.States)) {
+    const nested = [
+      ...(state.Branches ?? []),
+      state.Iterator,
+      state.ItemProcessor,
+    ];
+
+    for (const x of nested) {
+      const match = findState(x, name);
+      if (match) {
+        return match;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns a state from a definition, failing when the state doesn't exist.
+ */
+export function getState(definition: StateMachineDefinition | undefined, name: string): StateDefinition {
+  const state = findState(definition, name);
+
+  if (!state) {
+    throw new Error(`The definition doesn't contain a state named '${name}'.`);
+  }
+
+  return state;
+}
+
+function resolveString(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  const intrinsic = value as {[key: string]: unknown};
+  if ('Fn::Join' in intrinsic) {
+    const [separator, parts] = intrinsic['Fn::Join'] as [string, unknown[]];
+    return parts.map(resolveString).join(separator);
+  } else if ('Ref' in intrinsic) {
+    return `${intrinsic.Ref}`;
+  } else if ('Fn::GetAtt' in intrinsic) {
+    return (intrinsic['Fn::GetAtt'] as string[]).join('.');
+  }
+
+  return JSON.stringify(value).replace(/"/g, '');
+}
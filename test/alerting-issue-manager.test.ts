@@ -0,0 +1,676 @@
+import { Duration, SecretValue, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { Authorization, EventBus } from 'aws-cdk-lib/aws-events';
+import { Topic } from 'aws-cdk-lib/aws-sns';
+import { findState, getDefinitions, getManagerDefinition, getState } from './alerting-helpers';
+import { GuardDutyFinding, IssueEnrichment, IssueForwarder, IssueHandlerOverride, IssueManager, IssueManagerProps, IssueMute, IssueMuteAction, Webhook } from '../src/alerting';
+import { TimeIntervalEntry, Weekday } from '../src/aps';
+
+test('deduplication should only pass issues to handlers the first time they are seen', () => {
+  const resources = getCommonResources({
+    deduplication: {
+      window: Duration.minutes(30),
+    },
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'record-issue')).toMatchObject({
+    Catch: [{
+      ErrorEquals: ['DynamoDB.ConditionalCheckFailedException'],
+      Next: 'duplicate-issue',
+    }],
+    Next: 'handle-unique-issue',
+    Parameters: {
+      ConditionExpression: 'attribute_not_exists(Fingerprint)',
+    },
+    Resource: expect.stringContaining(':dynamodb:putItem'),
+  });
+  expect(findState(definition, 'check-suppressions')).toBeUndefined();
+
+  const expiry = getDefinitions(resources.stack).find((x) => {
+    return findState(x, 'wait-for-window') !== undefined;
+  });
+
+  expect(findState(expiry, 'wait-for-window')).toMatchObject({
+    Seconds: 1800,
+  });
+  expect(findState(expiry, 'remove-record')).toMatchObject({
+    Retry: [{
+      ErrorEquals: ['States.ALL'],
+      MaxAttempts: 8,
+    }],
+  });
+});
+
+test('deduplication should only record issues once they have been handled', () => {
+  const resources = getCommonResources({
+    deduplication: {},
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  // A failure in any handler removes the record so that the issue isn't
+  // treated as a duplicate when it is retried.
+  expect(findState(definition, 'handle-unique-issue')).toMatchObject({
+    Branches: [{
+      StartAt: 'execute-issue-handlers',
+    }],
+    Catch: [{
+      ErrorEquals: ['States.ALL'],
+      Next: 'forget-issue',
+      ResultPath: '$.HandlingError',
+    }],
+    Next: 'schedule-expiry',
+    ResultPath: null,
+    Type: 'Parallel',
+  });
+  expect(findState(definition, 'forget-issue')).toMatchObject({
+    Next: 'issue-handling-failed',
+    Parameters: {
+      Key: {
+        Fingerprint: {
+          'S.$': '$.Fingerprint.Value',
+        },
+      },
+    },
+    Resource: expect.stringContaining(':dynamodb:deleteItem'),
+    Retry: [{
+      ErrorEquals: ['States.ALL'],
+    }],
+  });
+  expect(findState(definition, 'issue-handling-failed')).toEqual({
+    CausePath: '$.HandlingError.Cause',
+    ErrorPath: '$.HandlingError.Error',
+    Type: 'Fail',
+  });
+  expect(findState(definition, 'schedule-expiry')).toMatchObject({
+    End: true,
+  });
+});
+
+test('suppressions should be checked before issues are deduplicated', () => {
+  const resources = getCommonResources({
+    deduplication: {},
+  });
+
+  resources.manager.deduplication!.addSuppression({
+    accountIds: ['123456789012'],
+    findingTypes: ['Recon:EC2/*'],
+  });
+
+  resources.manager.deduplication!.addSuppression({
+    resourcePatterns: ['arn:aws:ec2:*:*:instance/i-0123456789abcdef0'],
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'check-suppressions')).toEqual({
+    Type: 'Choice',
+    Choices: [
+      {
+        And: [
+          { Or: [{ Variable: '$.Context.AccountId', StringEquals: '123456789012' }] },
+          { Variable: '$.Issue.Output.FindingType', IsPresent: true },
+          { Or: [{ Variable: '$.Issue.Output.FindingType', StringMatches: 'Recon:EC2/*' }] },
+        ],
+        Next: 'suppressed-issue',
+      },
+      {
+        And: [
+          { Variable: '$.Event.resources[0]', IsPresent: true },
+          { Or: [{ Variable: '$.Event.resources[0]', StringMatches: 'arn:aws:ec2:*:*:instance/i-0123456789abcdef0' }] },
+        ],
+        Next: 'suppressed-issue',
+      },
+    ],
+    Default: 'set-fingerprint-defaults',
+  });
+});
+
+test('suppressions should require at least one criteria', () => {
+  const resources = getCommonResources({
+    deduplication: {},
+  });
+
+  expect(() => {
+    resources.manager.deduplication!.addSuppression({
+      expiration: new Date('2030-01-01T00:00:00Z'),
+    });
+  }).toThrow(/At least one account ID, finding type, match type, or resource/);
+});
+
+test('deduplication windows that cannot expire within a year should be rejected', () => {
+  expect(() => {
+    getCommonResources({
+      deduplication: {
+        window: Duration.days(365),
+      },
+    });
+  }).toThrow(/must be between 1 second and 8759 hours/);
+
+  const resources = getCommonResources({
+    deduplication: {
+      window: Duration.hours(8759),
+    },
+  });
+
+  const expiry = getDefinitions(resources.stack).find((x) => {
+    return findState(x, 'wait-for-window') !== undefined;
+  });
+
+  expect(expiry?.TimeoutSeconds).toBe(365 * 24 * 60 * 60);
+});
+
+test('tracking should store the references returned by handlers against each issue', () => {
+  const resources = getCommonResources({
+    tracking: {},
+  });
+
+  const template = Template.fromStack(resources.stack);
+
+  template.hasResourceProperties('AWS::DynamoDB::Table', {
+    BillingMode: 'PAY_PER_REQUEST',
+    KeySchema: [
+      { AttributeName: 'IssueKey', KeyType: 'HASH' },
+      { AttributeName: 'Handler', KeyType: 'RANGE' },
+    ],
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'set-tracking-key-defaults')).toMatchObject({
+    Next: 'merge-tracking-key-fields',
+    Parameters: {
+      'Id.$': '$.Issue.Output.Summary',
+    },
+  });
+  expect(getState(definition, 'compute-tracking-key').Parameters).toEqual({
+    'Key.$': "States.Hash(States.Format('{}/{}/{}', $.Context.MatchType, $.Context.AccountId, $.Tracking.Fields.Id), 'SHA-256')",
+  });
+  expect(findState(definition, 'lookup-reference-Webhook')).toMatchObject({
+    Parameters: {
+      Key: {
+        Handler: { S: 'Webhook' },
+        IssueKey: { 'S.$': '$.Tracking.Key' },
+      },
+    },
+    Resource: expect.stringContaining(':dynamodb:getItem'),
+    ResultPath: '$.Lookup',
+  });
+  expect(findState(definition, 'execute-issue-handler-Webhook')).toMatchObject({
+    Next: 'check-result-Webhook',
+    ResultPath: '$.Execution',
+  });
+  expect(getState(definition, 'check-result-Webhook').Choices?.map((x) => {
+    return x.Next;
+  })).toEqual([
+    'remove-reference-Webhook',
+    'record-reference-Webhook',
+  ]);
+  expect(getState(definition, 'record-reference-Webhook').Parameters?.Item).toEqual({
+    Handler: { S: 'Webhook' },
+    IssueKey: { 'S.$': '$.Tracking.Key' },
+    Reference: { 'S.$': '$.Execution.Output.Reference' },
+    UpdatedAt: { 'S.$': '$$.State.EnteredTime' },
+  });
+});
+
+test('tracking should not be added unless it is enabled', () => {
+  const resources = getCommonResources();
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(resources.manager.tracking).toBeUndefined();
+  expect(findState(definition, 'compute-tracking-key')).toBeUndefined();
+  expect(getState(definition, 'execute-issue-handler-Webhook').ResultPath).toBeUndefined();
+  Template.fromStack(resources.stack).resourceCountIs('AWS::DynamoDB::Table', 0);
+});
+
+test('routed handlers should only receive issues that match one of their routes', () => {
+  const resources = getCommonResources();
+
+  resources.manager.addRoute({
+    accountIds: ['123456789012'],
+    handlers: [resources.handler],
+    matchTypes: ['GuardDutyFinding'],
+    severities: ['critical', 'high'],
+  });
+
+  resources.manager.addRoute({
+    handlers: [resources.handler],
+    regions: ['us-east-1'],
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'check-routes-Webhook')).toEqual({
+    Type: 'Choice',
+    Choices: [
+      {
+        And: [
+          { Variable: '$.Context.AccountId', IsPresent: true },
+          { Or: [{ Variable: '$.Context.AccountId', StringEquals: '123456789012' }] },
+          { Variable: '$.Context.MatchType', IsPresent: true },
+          { Or: [{ Variable: '$.Context.MatchType', StringEquals: 'GuardDutyFinding' }] },
+          { Variable: '$.Issue.Output.Severity', IsPresent: true },
+          {
+            Or: [
+              { Variable: '$.Issue.Output.Severity', StringEquals: 'CRITICAL' },
+              { Variable: '$.Issue.Output.Severity', StringEquals: 'HIGH' },
+            ],
+          },
+        ],
+        Next: 'check-overrides-Webhook',
+      },
+      {
+        And: [
+          { Variable: '$.Context.Region', IsPresent: true },
+          { Or: [{ Variable: '$.Context.Region', StringEquals: 'us-east-1' }] },
+        ],
+        Next: 'check-overrides-Webhook',
+      },
+    ],
+    Default: 'not-routed-Webhook',
+  });
+  expect(findState(definition, 'get-resource-tags')).toBeUndefined();
+});
+
+test('handlers without routes should receive every issue', () => {
+  const resources = getCommonResources();
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'check-routes-Webhook')).toBeUndefined();
+  expect(findState(definition, 'check-overrides-Webhook')).toBeDefined();
+});
+
+test('tag routes should look up the tags of the resources an issue was raised for', () => {
+  const resources = getCommonResources();
+
+  resources.manager.addRoute({
+    handlers: [resources.handler],
+    tags: {
+      Team: 'platform',
+    },
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(getState(definition, 'check-resources').Choices).toEqual([{
+    Variable: '$.Event.resources[0]',
+    IsPresent: true,
+    Next: 'get-resource-tags',
+  }]);
+  expect(findState(definition, 'get-resource-tags')).toMatchObject({
+    Catch: [{
+      ErrorEquals: ['States.ALL'],
+      Next: 'no-resource-tags',
+      ResultPath: '$.ResourceTags',
+    }],
+    Parameters: {
+      'ResourceARNList.$': '$.Event.resources',
+    },
+    ResultSelector: {
+      'Key0.$': "$.ResourceTagMappingList[*].Tags[?(@.Key == 'Team')].Value",
+    },
+    Retry: [{
+      ErrorEquals: ['ResourceGroupsTaggingAPI.ThrottledException'],
+      MaxAttempts: 3,
+    }],
+  });
+  expect(getState(definition, 'no-resource-tags').Parameters).toEqual({
+    Key0: [],
+  });
+  expect(getState(definition, 'evaluate-resource-tags').Parameters).toEqual({
+    'Tag0.$': "States.ArrayContains($.ResourceTags.Key0, 'platform')",
+  });
+  expect(getState(definition, 'check-routes-Webhook').Choices).toEqual([{
+    And: [{ Variable: '$.Routing.Tag0', BooleanEquals: true }],
+    Next: 'check-overrides-Webhook',
+  }]);
+});
+
+test('issue managers should accept events forwarded from other accounts', () => {
+  const stack = new Stack();
+  const eventBus = new EventBus(stack, 'event-bus');
+
+  const resources = getCommonResources({
+    eventBus: eventBus,
+    sourceAccounts: ['111111111111'],
+    sourceOrganizationId: 'o-a1b2c3d4e5',
+  }, stack);
+
+  const template = Template.fromStack(resources.stack);
+
+  template.hasResourceProperties('AWS::Events::EventBusPolicy', {
+    Action: 'events:PutEvents',
+    EventBusName: { Ref: Match.stringLikeRegexp('^eventbus') },
+    Principal: '111111111111',
+  });
+  template.hasResourceProperties('AWS::Events::EventBusPolicy', {
+    Condition: {
+      Key: 'aws:PrincipalOrgID',
+      Type: 'StringEquals',
+      Value: 'o-a1b2c3d4e5',
+    },
+    Principal: '*',
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventBusName: { Ref: Match.stringLikeRegexp('^eventbus') },
+    EventPattern: Match.objectLike({
+      source: ['aws.guardduty'],
+    }),
+  });
+});
+
+test('issue forwarders should send matching events to the central event bus', () => {
+  const stack = new Stack();
+
+  const destination = EventBus.fromEventBusArn(stack, 'destination', 'arn:aws:events:us-east-1:123456789012:event-bus/issues');
+
+  new IssueForwarder(stack, 'forwarder', {
+    destination: destination,
+    parsers: [
+      new GuardDutyFinding(stack, 'parser'),
+    ],
+  });
+
+  const template = Template.fromStack(stack);
+
+  template.resourceCountIs('AWS::Events::Rule', 1);
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({
+      source: ['aws.guardduty'],
+    }),
+    Targets: [Match.objectLike({
+      Arn: 'arn:aws:events:us-east-1:123456789012:event-bus/issues',
+    })],
+  });
+});
+
+test('mutes that drop issues should be checked before mutes that defer them', () => {
+  const resources = getCommonResources();
+
+  resources.manager.addMute({
+    action: IssueMuteAction.DEFER,
+    handlers: [resources.handler],
+    intervals: [new TimeIntervalEntry({
+      timeZone: 'Europe/London',
+      times: [{
+        end: '24:00',
+        start: '22:00',
+      }],
+      weekdays: [{
+        end: Weekday.SUNDAY,
+        start: Weekday.SATURDAY,
+      }],
+    })],
+    pollInterval: Duration.minutes(10),
+  });
+
+  resources.manager.addMute({
+    end: new Date('2030-01-02T00:00:00Z'),
+    exceptSeverities: ['critical'],
+    handlers: [resources.handler],
+    start: new Date('2030-01-01T00:00:00Z'),
+  });
+
+  const template = Template.fromStack(resources.stack);
+
+  template.hasResourceProperties('AWS::Scheduler::Schedule', {
+    ScheduleExpression: 'cron(0 22 ? * 1,7 *)',
+    ScheduleExpressionTimezone: 'Europe/London',
+  });
+  template.hasResourceProperties('AWS::Scheduler::Schedule', {
+    ScheduleExpression: 'cron(0 0 * * ? *)',
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'evaluate-mute-0-Webhook')).toMatchObject({
+    Next: 'check-mutes-Webhook',
+    Parameters: {
+      Select: 'COUNT',
+    },
+    ResultPath: '$.Mutes.Mute0',
+  });
+  expect(findState(definition, 'check-mutes-Webhook')).toEqual({
+    Type: 'Choice',
+    Choices: [
+      {
+        And: [
+          {
+            Not: {
+              And: [
+                { Variable: '$.Issue.Output.Severity', IsPresent: true },
+                { Or: [{ Variable: '$.Issue.Output.Severity', StringEquals: 'CRITICAL' }] },
+              ],
+            },
+          },
+          { Variable: '$$.State.EnteredTime', TimestampGreaterThanEquals: '2030-01-01T00:00:00.000Z' },
+          { Variable: '$$.State.EnteredTime', TimestampLessThan: '2030-01-02T00:00:00.000Z' },
+        ],
+        Next: 'muted-mute-1-Webhook',
+      },
+      {
+        Variable: '$.Mutes.Mute0.Count',
+        NumericGreaterThan: 0,
+        Next: 'wait-mute-0-Webhook',
+      },
+    ],
+    Default: 'check-overrides-Webhook',
+  });
+  expect(findState(definition, 'wait-mute-0-Webhook')).toEqual({
+    Type: 'Wait',
+    Seconds: 600,
+    Next: 'evaluate-mute-0-Webhook',
+  });
+});
+
+test('mutes should require a valid time to be applied', () => {
+  const resources = getCommonResources();
+
+  expect(() => {
+    new IssueMute(resources.stack, 'no-time', {
+      handlers: [resources.handler],
+    });
+  }).toThrow(/must specify a start time, an end time or at least one time interval/);
+  expect(() => {
+    new IssueMute(resources.stack, 'ends-before-start', {
+      end: new Date('2030-01-01T00:00:00Z'),
+      handlers: [resources.handler],
+      start: new Date('2030-01-02T00:00:00Z'),
+    });
+  }).toThrow(/start of an issue mute must be before the end/);
+  expect(() => {
+    new IssueMute(resources.stack, 'deferred-forever', {
+      action: IssueMuteAction.DEFER,
+      handlers: [resources.handler],
+      start: new Date('2030-01-01T00:00:00Z'),
+    });
+  }).toThrow(/mutes that defer issues must specify an end time or at least one time interval/);
+  expect(() => {
+    new IssueMute(resources.stack, 'deferred-until-end', {
+      action: IssueMuteAction.DEFER,
+      end: new Date('2030-01-02T00:00:00Z'),
+      handlers: [resources.handler],
+      start: new Date('2030-01-01T00:00:00Z'),
+    });
+  }).not.toThrow();
+  expect(() => {
+    new IssueMute(resources.stack, 'invalid-time', {
+      handlers: [resources.handler],
+      intervals: [new TimeIntervalEntry({
+        times: [{
+          end: '25:00',
+          start: '22:00',
+        }],
+      })],
+    });
+  }).toThrow(/Invalid time '25:00'/);
+});
+
+test('enrichments should add handler overrides built from resource tags', () => {
+  const stack = new Stack();
+
+  const handler = new Webhook(stack, 'enriched', {
+    authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+    endpoint: 'https://example.com/issues',
+    name: 'Enriched',
+    template: {
+      'summary.$': '$.Summary',
+    },
+  });
+
+  const resources = getCommonResources({
+    enrichments: [
+      new IssueHandlerOverride(handler, {
+        Labels: ['security', IssueEnrichment.resourceTag('team')],
+        Owner: IssueEnrichment.resourceTag('owner'),
+        Static: {
+          Value: 'unchanged',
+        },
+      }),
+    ],
+  }, stack);
+
+  resources.manager.addHandler(handler);
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(getState(definition, 'get-resource-tags').ResultSelector).toEqual({
+    'Key0.$': "$.ResourceTagMappingList[*].Tags[?(@.Key == 'team')].Value",
+    'Key1.$': "$.ResourceTagMappingList[*].Tags[?(@.Key == 'owner')].Value",
+  });
+  expect(findState(definition, 'evaluate-resource-tags')).toBeUndefined();
+  expect(getState(definition, 'default-overrides-Enriched').Next).toBe('check-enrichment-Enriched-0');
+  expect(getState(definition, 'check-enrichment-Enriched-0').Choices).toEqual([{
+    And: [
+      { Variable: '$.ResourceTags.Key0[0]', IsPresent: true },
+      { Variable: '$.ResourceTags.Key1[0]', IsPresent: true },
+    ],
+    Next: 'build-enrichment-Enriched-0',
+  }]);
+  expect(getState(definition, 'build-enrichment-Enriched-0').Parameters).toEqual({
+    'Labels.$': "States.Array('security', $.ResourceTags.Key0[0])",
+    'Owner.$': '$.ResourceTags.Key1[0]',
+    'Static': {
+      Value: 'unchanged',
+    },
+  });
+  expect(getState(definition, 'apply-enrichment-Enriched-0').Parameters).toEqual({
+    'Overrides.$': 'States.JsonMerge($.Enrichment, $.Handler.Overrides, false)',
+  });
+  expect(findState(definition, 'check-enrichment-Webhook-0')).toBeUndefined();
+});
+
+test('enrichments should reference at least one resource tag', () => {
+  const resources = getCommonResources();
+
+  expect(() => {
+    resources.manager.addEnrichment(new IssueHandlerOverride(resources.handler, {
+      Owner: 'security-team',
+    }));
+  }).toThrow(/don't reference any resource tags/);
+  expect(() => {
+    IssueEnrichment.resourceTag("team's");
+  }).toThrow(/cannot contain single quotes/);
+});
+
+test('failed handlers should be retried before issues are sent to the dead-letter queue', () => {
+  const stack = new Stack();
+  const topic = new Topic(stack, 'topic');
+
+  const resources = getCommonResources({
+    failureHandling: {
+      alarmActions: [new SnsAction(topic)],
+    },
+  }, stack);
+
+  resources.manager.failureHandling!.addHandlerRetry(resources.handler, {
+    errors: ['States.Timeout'],
+    maxAttempts: 5,
+  });
+
+  const template = Template.fromStack(resources.stack);
+
+  template.hasResourceProperties('AWS::SQS::Queue', {
+    MessageRetentionPeriod: 1209600,
+  });
+  template.resourceCountIs('AWS::CloudWatch::Alarm', 4);
+  template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    AlarmActions: [{ Ref: Match.stringLikeRegexp('^topic') }],
+    AlarmDescription: `Requests made by the ${Webhook.DEFAULT_NAME} issue handler could not be delivered.`,
+    ComparisonOperator: 'GreaterThanOrEqualToThreshold',
+    MetricName: 'ApproximateNumberOfMessagesVisible',
+    Threshold: 1,
+    TreatMissingData: 'notBreaching',
+  });
+  template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    AlarmDescription: 'Executions of the issue manager failed.',
+    MetricName: 'ExecutionsFailed',
+  });
+
+  const definition = getManagerDefinition(resources.stack);
+
+  expect(findState(definition, 'execute-issue-handler-Webhook')).toMatchObject({
+    Catch: [{
+      ErrorEquals: ['States.ALL'],
+      Next: 'send-to-dead-letter-queue-Webhook',
+      ResultPath: '$.Failure',
+    }],
+    Retry: [{
+      ErrorEquals: ['States.Timeout'],
+      MaxAttempts: 5,
+    }],
+  });
+  expect(findState(definition, 'send-to-dead-letter-queue-Webhook')).toMatchObject({
+    Next: 'handler-failed-Webhook',
+    Parameters: {
+      MessageBody: {
+        'Context.$': '$.Context',
+        'Error.$': '$.Failure',
+        'Handler': Webhook.DEFAULT_NAME,
+        'Issue.$': '$.Issue',
+      },
+    },
+  });
+});
+
+test('handler failures should fail the issue manager unless failure handling is enabled', () => {
+  const resources = getCommonResources();
+
+  const definition = getManagerDefinition(resources.stack);
+  const execute = getState(definition, 'execute-issue-handler-Webhook');
+
+  expect(execute.Catch).toBeUndefined();
+  expect(execute.Retry).toBeUndefined();
+  Template.fromStack(resources.stack).resourceCountIs('AWS::CloudWatch::Alarm', 0);
+});
+
+function getCommonResources(props: IssueManagerProps = {}, stack: Stack = new Stack()) {
+  const parser = new GuardDutyFinding(stack, 'parser');
+
+  const handler = new Webhook(stack, 'handler', {
+    authorization: Authorization.apiKey('x-api-key', SecretValue.unsafePlainText('api-key')),
+    endpoint: 'https://example.com/issues',
+    template: {
+      'summary.$': '$.Summary',
+    },
+  });
+
+  const manager = new IssueManager(stack, 'issue-manager', {
+    handlers: [handler],
+    parsers: [parser],
+    ...props,
+  });
+
+  return {
+    handler,
+    manager,
+    parser,
+    stack,
+  };
+}
@@ -0,0 +1,771 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Topic } from 'aws-cdk-lib/aws-sns';
+import { DefinitionBody, Pass, StateMachine } from 'aws-cdk-lib/aws-stepfunctions';
+import { addIssueManager, findState, getDefinition, getDefinitions, getState } from './alerting-helpers';
+import { AccessAnalyzerFinding, AccessAnalyzerSeverity, AccessAnalyzerSeverityConfiguration, AlertManagerAlert, AwsHealthEvent, AwsHealthEventCategory, BudgetNotification, CloudTrailActivity, CloudTrailActivityRule, CloudWatchAlarm, CloudWatchAlarmState, ConfigComplianceChange, CostAnomaly, IIssueParser, IssueParserSample, IssueParserSamples, MacieFinding, MacieSeverity, MacieSeverityConfiguration, StateMachineEvaluator, TrustedAdvisorCheck, TrustedAdvisorCheckSeverity } from '../src/alerting';
+
+test('trusted advisor checks should match warnings and errors by default', () => {
+  const stack = new Stack();
+
+  addIssueManager(stack, new TrustedAdvisorCheck(stack, 'parser'));
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        status: ['WARN', 'ERROR'],
+      },
+      'detail-type': ['Trusted Advisor Check Item Refresh Notification'],
+      'source': ['aws.trustedadvisor'],
+    },
+  });
+});
+
+test('trusted advisor triggers should filter by check and severity', () => {
+  const stack = new Stack();
+
+  const parser = new TrustedAdvisorCheck(stack, 'parser');
+
+  parser.registerIssueTrigger('password-policy', {
+    checks: ['IAM Password Policy'],
+    severity: TrustedAdvisorCheckSeverity.all(),
+  });
+
+  addIssueManager(stack, parser);
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({
+      detail: {
+        'check-name': ['IAM Password Policy'],
+        'status': ['OK', 'INFO', 'WARN', 'ERROR'],
+      },
+    }),
+  });
+  expect(() => {
+    parser.registerIssueTrigger('none', {
+      severity: [],
+    });
+  }).toThrow(/At least one severity level is required/);
+});
+
+test('aws health events should match all categories by default', () => {
+  const stack = new Stack();
+
+  addIssueManager(stack, new AwsHealthEvent(stack, 'parser'));
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        eventTypeCategory: AwsHealthEventCategory.all().map((x) => x.original),
+      },
+      'detail-type': ['AWS Health Event'],
+      'source': ['aws.health'],
+    },
+  });
+});
+
+test('aws health triggers should filter by category, service and event type', () => {
+  const stack = new Stack();
+
+  const parser = new AwsHealthEvent(stack, 'parser');
+
+  parser.registerIssueTrigger('ec2', {
+    categories: AwsHealthEventCategory.threshold(AwsHealthEventCategory.SCHEDULED_CHANGE),
+    eventTypeCodes: ['AWS_EC2_INSTANCE_RETIREMENT_SCHEDULED'],
+    services: ['EC2'],
+  });
+
+  addIssueManager(stack, parser);
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({
+      detail: {
+        eventTypeCategory: ['scheduledChange', 'issue'],
+        eventTypeCode: ['AWS_EC2_INSTANCE_RETIREMENT_SCHEDULED'],
+        service: ['EC2'],
+      },
+    }),
+  });
+  expect(() => {
+    parser.registerIssueTrigger('none', {
+      categories: [],
+    });
+  }).toThrow(/At least one event category is required/);
+});
+
+test('cloudwatch alarms should match alarm and ok transitions by default', () => {
+  const stack = new Stack();
+
+  addIssueManager(stack, new CloudWatchAlarm(stack, 'parser'));
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        state: {
+          value: ['ALARM', 'OK'],
+        },
+      },
+      'detail-type': ['CloudWatch Alarm State Change'],
+      'source': ['aws.cloudwatch'],
+    },
+  });
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'cloudwatch:DescribeAlarms',
+          Resource: '*',
+        }),
+        Match.objectLike({
+          Action: 'cloudwatch:ListTagsForResource',
+        }),
+      ]),
+    },
+  });
+});
+
+test('cloudwatch alarm triggers should filter by alarm name and state', () => {
+  const stack = new Stack();
+
+  const parser = new CloudWatchAlarm(stack, 'parser', {
+    severityTag: 'Priority',
+  });
+
+  parser.registerIssueTrigger('cpu', {
+    alarmNames: ['ServerCpuTooHigh'],
+    states: [CloudWatchAlarmState.ALARM, CloudWatchAlarmState.INSUFFICIENT_DATA],
+  });
+
+  addIssueManager(stack, parser);
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: Match.objectLike({
+      detail: {
+        alarmName: ['ServerCpuTooHigh'],
+        state: {
+          value: ['ALARM', 'INSUFFICIENT_DATA'],
+        },
+      },
+    }),
+  });
+  expect(parser.matchType).toBe(CloudWatchAlarm.MATCH_TYPE);
+
+  const definition = getDefinitions(stack).find((x) => {
+    return findState(x, 'list-tags') !== undefined;
+  });
+
+  expect(getState(definition, 'list-tags').ResultSelector).toEqual({
+    'Values.$': "$.Tags[?(@.Key == 'Priority')].Value",
+  });
+  expect(() => {
+    parser.registerIssueTrigger('none', {
+      states: [],
+    });
+  }).toThrow(/At least one alarm state is required/);
+});
+
+test('macie findings should match high severity findings by default', () => {
+  const stack = new Stack();
+
+  const parser = new MacieFinding(stack, 'parser');
+
+  parser.registerIssueTrigger('all', {
+    severity: MacieSeverityConfiguration.all(),
+  });
+
+  addIssueManager(stack, parser);
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        severity: {
+          description: ['Low', 'Medium', 'High'],
+        },
+      },
+      'detail-type': ['Macie Finding'],
+      'source': ['aws.macie'],
+    },
+  });
+  expect(parser.bind(stack).map((x) => x.eventPattern.detail)).toEqual([{
+    severity: {
+      description: ['Low', 'Medium', 'High'],
+    },
+  }]);
+  expect(new MacieFinding(stack, 'default').bind(stack)[0].eventPattern.detail).toEqual({
+    severity: {
+      description: [MacieSeverity.HIGH.name],
+    },
+  });
+});
+
+test('access analyzer findings should match active findings by default', () => {
+  const stack = new Stack();
+
+  const parser = new AccessAnalyzerFinding(stack, 'parser');
+
+  parser.registerIssueTrigger('public-buckets', {
+    includeResolved: true,
+    resourceTypes: ['AWS::S3::Bucket'],
+    severity: AccessAnalyzerSeverityConfiguration.threshold(AccessAnalyzerSeverity.PUBLIC),
+  });
+
+  addIssueManager(stack, parser);
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        isPublic: [true],
+        resourceType: ['AWS::S3::Bucket'],
+        status: ['ACTIVE', 'ARCHIVED', 'RESOLVED'],
+      },
+      'detail-type': ['Access Analyzer Finding'],
+      'source': ['aws.access-analyzer'],
+    },
+  });
+  expect(new AccessAnalyzerFinding(stack, 'default').bind(stack)[0].eventPattern.detail).toEqual({
+    isPublic: [false, true],
+    status: ['ACTIVE'],
+  });
+  expect(() => {
+    parser.registerIssueTrigger('none', {
+      severity: AccessAnalyzerSeverityConfiguration.custom(),
+    });
+  }).toThrow(/At least one severity level is required/);
+});
+
+test('alertmanager notifications should be published to eventbridge from sns topics', () => {
+  const stack = new Stack();
+
+  const parser = new AlertManagerAlert(stack, 'parser');
+
+  parser.addTopic(new Topic(stack, 'topic'));
+
+  parser.registerIssueTrigger('high-cpu', {
+    alertNames: ['HighCPU'],
+    receivers: ['default'],
+  });
+
+  addIssueManager(stack, parser);
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::SNS::Subscription', {
+    Protocol: 'sqs',
+    RawMessageDelivery: true,
+  });
+  template.hasResourceProperties('AWS::Pipes::Pipe', {
+    TargetParameters: {
+      EventBridgeEventBusParameters: {
+        DetailType: AlertManagerAlert.DETAIL_TYPE,
+        Source: AlertManagerAlert.EVENT_SOURCE,
+      },
+      InputTemplate: '<$.body>',
+    },
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        commonLabels: {
+          alertname: ['HighCPU'],
+        },
+        receiver: ['default'],
+      },
+      'detail-type': [AlertManagerAlert.DETAIL_TYPE],
+      'source': [AlertManagerAlert.EVENT_SOURCE],
+    },
+  });
+});
+
+test('cost anomaly triggers should filter by monitor and minimum impact', () => {
+  const stack = new Stack();
+
+  const parser = new CostAnomaly(stack, 'parser');
+
+  parser.registerIssueTrigger('large', {
+    minimumImpact: 250,
+    monitorArns: ['arn:aws:ce::123456789012:anomalymonitor/abcdef12-1234-4ea0-84cc-918a97d736ef'],
+  });
+
+  addIssueManager(stack, parser);
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        impact: {
+          totalImpact: [{ numeric: ['>=', 250] }],
+        },
+        monitorArn: ['arn:aws:ce::123456789012:anomalymonitor/abcdef12-1234-4ea0-84cc-918a97d736ef'],
+      },
+      'detail-type': ['Anomaly Detected'],
+      'source': ['aws.ce'],
+    },
+  });
+
+  const definition = getDefinition(stack, 'check-url');
+
+  expect(getState(definition, 'check-severity').Choices?.map((x) => {
+    return x.And?.[2].NumericGreaterThanEquals;
+  })).toEqual([5000, 1000, 100, 10]);
+});
+
+test('budget notifications should be published to eventbridge from sns topics', () => {
+  const stack = new Stack();
+
+  const topic = new Topic(stack, 'topic');
+  const parser = new BudgetNotification(stack, 'parser', {
+    severityMap: {
+      overBudgetByHalf: 'CRITICAL',
+    },
+  });
+
+  parser.addTopic(topic);
+
+  parser.registerIssueTrigger('topic', {
+    topics: [topic],
+  });
+
+  addIssueManager(stack, parser);
+
+  const template = Template.fromStack(stack);
+
+  template.hasResourceProperties('AWS::SNS::TopicPolicy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([Match.objectLike({
+        Action: 'sns:Publish',
+        Principal: {
+          Service: 'budgets.amazonaws.com',
+        },
+      })]),
+    },
+  });
+  template.hasResourceProperties('AWS::SNS::Subscription', {
+    Protocol: 'sqs',
+    RawMessageDelivery: false,
+  });
+  template.hasResourceProperties('AWS::Pipes::Pipe', {
+    TargetParameters: Match.objectLike({
+      EventBridgeEventBusParameters: {
+        DetailType: BudgetNotification.DETAIL_TYPE,
+        Source: BudgetNotification.EVENT_SOURCE,
+      },
+    }),
+  });
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        TopicArn: [{ Ref: Match.stringLikeRegexp('^topic') }],
+      },
+      'detail-type': [BudgetNotification.DETAIL_TYPE],
+      'source': [BudgetNotification.EVENT_SOURCE],
+    },
+  });
+  expect(parser.severityMap).toEqual({
+    ...BudgetNotification.DEFAULT_SEVERITY_MAP,
+    overBudgetByHalf: 'CRITICAL',
+  });
+  expect(evaluateSample(parser, IssueParserSamples.BUDGET_NOTIFICATION)).toMatchObject({
+    Severity: 'CRITICAL',
+  });
+});
+
+test('trusted advisor checks that return to ok should be resolved', () => {
+  const parser = new TrustedAdvisorCheck(new Stack(), 'parser');
+
+  const evaluate = (status: string): {[key: string]: unknown} => {
+    return evaluateSample(parser, IssueParserSamples.TRUSTED_ADVISOR_CHECK, {
+      status: status,
+    });
+  };
+
+  expect(evaluate('WARN')).toMatchObject({
+    Severity: TrustedAdvisorCheckSeverity.WARN.standardized,
+    Status: 'OPEN',
+  });
+  expect(evaluate('OK')).toMatchObject({
+    Severity: TrustedAdvisorCheckSeverity.OK.standardized,
+    Status: 'RESOLVED',
+  });
+});
+
+test('aws health events should be resolved once they are closed', () => {
+  const parser = new AwsHealthEvent(new Stack(), 'parser');
+
+  expect(evaluateSample(parser, IssueParserSamples.AWS_HEALTH_EVENT)).toMatchObject({
+    Severity: AwsHealthEventCategory.ISSUE.standardized,
+    Status: 'OPEN',
+  });
+  expect(evaluateSample(parser, IssueParserSamples.AWS_HEALTH_EVENT, {
+    statusCode: 'closed',
+  })).toMatchObject({
+    Status: 'RESOLVED',
+  });
+});
+
+test('cloudwatch alarm severity should come from the severity tag when present', () => {
+  const parser = new CloudWatchAlarm(new Stack(), 'parser', {
+    severityMap: {
+      alarm: 'MEDIUM',
+    },
+  });
+  const sample = IssueParserSamples.CLOUDWATCH_ALARM;
+
+  const evaluate = (tags: {[key: string]: string}[], state: string = 'ALARM'): {[key: string]: unknown} => {
+    return StateMachineEvaluator.fromStateMachine(parser.handler).evaluate({
+      ...sample.event,
+      detail: {
+        ...sample.event.detail,
+        state: {
+          ...sample.event.detail.state,
+          value: state,
+        },
+      },
+    }, {
+      taskResults: {
+        ...sample.taskResults,
+        'list-tags': {
+          Tags: tags,
+        },
+      },
+    });
+  };
+
+  expect(evaluate([{ Key: 'Severity', Value: 'CRITICAL' }])).toMatchObject({
+    Severity: 'CRITICAL',
+    Status: 'OPEN',
+  });
+  expect(evaluate([{ Key: 'Severity', Value: 'URGENT' }])).toMatchObject({
+    Severity: 'MEDIUM',
+  });
+  expect(evaluate([])).toMatchObject({
+    Severity: 'MEDIUM',
+  });
+  expect(evaluate([{ Key: 'Severity', Value: 'CRITICAL' }], 'OK')).toMatchObject({
+    Severity: CloudWatchAlarm.DEFAULT_SEVERITY_MAP.ok,
+    Status: 'RESOLVED',
+  });
+});
+
+test('macie findings should report their severity and sensitive data', () => {
+  const parser = new MacieFinding(new Stack(), 'parser');
+
+  const issue = evaluateSample(parser, IssueParserSamples.MACIE_FINDING);
+
+  expect(issue).toMatchObject({
+    FindingType: 'SensitiveData:S3Object/Personal',
+    Severity: MacieSeverity.MEDIUM.standardized,
+    Status: 'OPEN',
+  });
+});
+
+test('access analyzer findings should be resolved once archived', () => {
+  const parser = new AccessAnalyzerFinding(new Stack(), 'parser');
+
+  expect(evaluateSample(parser, IssueParserSamples.ACCESS_ANALYZER_FINDING)).toMatchObject({
+    Severity: AccessAnalyzerSeverity.EXTERNAL.standardized,
+    Status: 'OPEN',
+  });
+  expect(evaluateSample(parser, IssueParserSamples.ACCESS_ANALYZER_FINDING, {
+    isPublic: true,
+    status: 'ARCHIVED',
+  })).toMatchObject({
+    Severity: AccessAnalyzerSeverity.PUBLIC.standardized,
+    Status: 'RESOLVED',
+  });
+});
+
+/**
+ * Evaluates a parser against one of the sample events with the given values
+ * replacing those in the detail of the event.
+ */
+
+test('alertmanager severity should come from the severity label', () => {
+  const parser = new AlertManagerAlert(new Stack(), 'parser', {
+    severityMap: {
+      page: 'CRITICAL',
+    },
+  });
+
+  expect(evaluateSample(parser, IssueParserSamples.ALERT_MANAGER_ALERT)).toMatchObject({
+    Severity: AlertManagerAlert.DEFAULT_SEVERITY,
+    Status: 'OPEN',
+    Summary: 'High CPU usage on web servers',
+  });
+  expect(evaluateSample(parser, IssueParserSamples.ALERT_MANAGER_ALERT, {
+    commonLabels: {
+      alertname: 'HighCPU',
+      severity: 'page',
+    },
+    status: 'resolved',
+  })).toMatchObject({
+    Severity: 'CRITICAL',
+    Status: 'RESOLVED',
+  });
+  expect(() => {
+    new AlertManagerAlert(new Stack(), 'invalid', {
+      severityLabel: 'alert-severity',
+    });
+  }).toThrow(/not a valid Prometheus label name/);
+});
+
+test('config remediations should be started for the rules they were configured for', () => {
+  const stack = new Stack();
+
+  const workflow = new StateMachine(stack, 'workflow', {
+    definitionBody: DefinitionBody.fromChainable(new Pass(stack, 'remediate')),
+  });
+
+  const parser = new ConfigComplianceChange(stack, 'parser', {
+    remediations: [
+      {
+        ruleNames: ['s3-bucket-public-read-prohibited'],
+      },
+      {
+        ruleNames: ['restricted-ssh', 'restricted-common-ports'],
+        workflow: workflow,
+      },
+    ],
+    remediationTimeout: Duration.minutes(1),
+  });
+
+  addIssueManager(stack, parser);
+
+  const definition = getDefinition(stack, 'match-remediation-rule');
+
+  expect(getState(definition, 'match-remediation-rule')).toMatchObject({
+    Choices: [
+      {
+        Or: [
+          { Variable: '$.Detail.configRuleName', StringEquals: 's3-bucket-public-read-prohibited' },
+        ],
+        Next: 'start-remediation-0',
+      },
+      {
+        Or: [
+          { Variable: '$.Detail.configRuleName', StringEquals: 'restricted-ssh' },
+          { Variable: '$.Detail.configRuleName', StringEquals: 'restricted-common-ports' },
+        ],
+        Next: 'start-remediation-workflow-1',
+      },
+    ],
+    Default: 'no-remediation',
+  });
+  expect(getState(definition, 'check-remediation-status-0').Choices?.[2]).toEqual({
+    Variable: '$.RemediationPoll.Attempts',
+    NumericLessThan: 4,
+    Next: 'wait-for-remediation-0',
+  });
+  expect(getState(definition, 'start-remediation-workflow-1').Parameters).toMatchObject({
+    Input: {
+      'Detail.$': '$.Detail',
+      'Resource.$': '$.Resource.Info',
+    },
+  });
+});
+
+test('config remediations should require a rule name and time for at least one status check', () => {
+  const stack = new Stack();
+
+  expect(() => {
+    new ConfigComplianceChange(stack, 'no-rules', {
+      remediations: [{
+        ruleNames: [],
+      }],
+    });
+  }).toThrow(/At least one rule name is required/);
+  expect(() => {
+    new ConfigComplianceChange(stack, 'short-timeout', {
+      remediationTimeout: Duration.seconds(5),
+    });
+  }).toThrow(/must be at least 15 seconds/);
+});
+
+test('config compliance changes for rules without a remediation should be raised unchanged', () => {
+  const stack = new Stack();
+
+  const parser = new ConfigComplianceChange(stack, 'parser', {
+    remediations: [{
+      ruleNames: ['restricted-ssh'],
+    }],
+  });
+
+  // No results are given for the remediation tasks so evaluation would fail
+  // if the remediation was started.
+  const issue = evaluateSample(parser, IssueParserSamples.CONFIG_COMPLIANCE_CHANGE);
+
+  expect(issue.Remediation).toEqual({
+    Result: 'NONE',
+  });
+  expect(issue.Description).not.toContain('Remediation');
+});
+
+test('config remediation workflows should be reported as remediated once their execution succeeds', () => {
+  const stack = new Stack();
+  const sample = IssueParserSamples.CONFIG_COMPLIANCE_CHANGE;
+
+  const workflow = new StateMachine(stack, 'workflow', {
+    definitionBody: DefinitionBody.fromChainable(new Pass(stack, 'remediate')),
+  });
+
+  const parser = new ConfigComplianceChange(stack, 'parser', {
+    remediations: [{
+      ruleNames: [sample.event.detail.configRuleName],
+      workflow: workflow,
+    }],
+  });
+
+  const issue = evaluateSample(parser, {
+    event: sample.event,
+    taskResults: {
+      ...sample.taskResults,
+      'describe-remediation-workflow-0': {
+        Status: 'SUCCEEDED',
+      },
+      'start-remediation-workflow-0': {
+        ExecutionArn: 'arn:aws:states:us-east-1:123456789012:execution:workflow:remediation',
+      },
+    },
+  });
+
+  expect(issue.Remediation).toEqual({
+    Action: 'Step Functions workflow',
+    Details: 'The remediation completed successfully.',
+    Outcome: 'Auto-remediated',
+    Result: 'AUTO_REMEDIATED',
+  });
+  expect(issue.Status).toBe('OPEN');
+  expect(issue.Description).toContain('Outcome: Auto-remediated');
+});
+
+test('cloudtrail activity triggers should match the api calls of each rule', () => {
+  const stack = new Stack();
+
+  addIssueManager(stack, new CloudTrailActivity(stack, 'parser'));
+
+  Template.fromStack(stack).hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      'detail': {
+        $or: Match.arrayWith([
+          {
+            eventName: ['ConsoleLogin'],
+            eventSource: ['signin.amazonaws.com'],
+            userIdentity: {
+              type: ['Root'],
+            },
+          },
+          {
+            eventName: ['AttachGroupPolicy', 'AttachRolePolicy', 'AttachUserPolicy'],
+            eventSource: ['iam.amazonaws.com'],
+            requestParameters: {
+              policyArn: ['arn:aws:iam::aws:policy/AdministratorAccess'],
+            },
+          },
+        ]),
+      },
+      'detail-type': [
+        'AWS API Call via CloudTrail',
+        'AWS Console Sign In via CloudTrail',
+      ],
+      'source': ['aws.signin', 'aws.iam', 'aws.cloudtrail', 'aws.guardduty'],
+    },
+  });
+});
+
+test('cloudtrail activity rules should be validated', () => {
+  const stack = new Stack();
+
+  expect(() => {
+    CloudTrailActivityRule.of({
+      eventNames: [],
+      eventSource: 'iam.amazonaws.com',
+      name: 'No Events',
+      severity: 'LOW',
+    });
+  }).toThrow(/must match at least one event name/);
+  expect(() => {
+    CloudTrailActivityRule.of({
+      eventNames: ['CreateUser'],
+      eventSource: 'iam',
+      name: 'Invalid Source',
+      severity: 'LOW',
+    });
+  }).toThrow(/Event sources should be in the form/);
+  expect(() => {
+    new CloudTrailActivity(stack, 'no-rules', {
+      rules: [],
+    });
+  }).toThrow(/At least one rule must be configured/);
+
+  const parser = new CloudTrailActivity(stack, 'parser', {
+    rules: [CloudTrailActivityRule.CLOUDTRAIL_DISABLED],
+  });
+
+  expect(() => {
+    parser.registerIssueTrigger('root-login', {
+      rules: [CloudTrailActivityRule.ROOT_CONSOLE_LOGIN],
+    });
+  }).toThrow(/has not been configured on the parser/);
+});
+
+test('cloudtrail activity should only take the severity of rules whose conditions all match', () => {
+  const sample = IssueParserSamples.CLOUDTRAIL_ACTIVITY;
+  const parser = new CloudTrailActivity(new Stack(), 'parser');
+
+  const evaluate = (detail: {[key: string]: unknown}): {[key: string]: unknown} => {
+    return evaluateSample(parser, {
+      event: {
+        ...sample.event,
+        detail: {
+          ...sample.event.detail,
+          ...detail,
+        },
+      },
+    });
+  };
+
+  expect(evaluateSample(parser, sample)).toMatchObject({
+    Severity: 'HIGH',
+    Summary: 'CloudTrail - Administrator Policy Attached - AttachRolePolicy',
+  });
+  expect(evaluate({
+    requestParameters: {
+      policyArn: 'arn:aws:iam::aws:policy/ReadOnlyAccess',
+      roleName: 'example-role',
+    },
+  })).toMatchObject({
+    Severity: 'UNKNOWN',
+  });
+  expect(evaluate({
+    eventName: 'CreateAccessKey',
+    requestParameters: {},
+  })).toMatchObject({
+    Severity: 'UNKNOWN',
+  });
+  expect(evaluate({
+    eventName: 'CreateAccessKey',
+    requestParameters: {},
+    userIdentity: {
+      type: 'Root',
+    },
+  })).toMatchObject({
+    Severity: 'CRITICAL',
+    Summary: 'CloudTrail - Root Access Key Created - CreateAccessKey',
+  });
+});
+
+function evaluateSample(parser: IIssueParser, sample: IssueParserSample, detail: {[key: string]: unknown} = {}): {[key: string]: unknown} {
+  return StateMachineEvaluator.fromStateMachine(parser.handler).evaluate({
+    ...sample.event,
+    detail: {
+      ...sample.event.detail,
+      ...detail,
+    },
+  }, {
+    taskResults: sample.taskResults,
+  });
+}
@@ -0,0 +1,196 @@
+import { Stack } from 'aws-cdk-lib';
+import { Annotations, Match } from 'aws-cdk-lib/assertions';
+import { AccessAnalyzerFinding, AlertManagerAlert, AwsHealthEvent, BudgetNotification, CloudTrailActivity, CloudTrailActivityRule, CloudWatchAlarm, ConfigComplianceChange, CostAnomaly, EcrScanFinding, GuardDutyFinding, IIssueParser, InspectorFinding, IssueParserSample, IssueParserSamples, MacieFinding, OpenSearchEvent, SecurityHubFinding, StateMachineEvaluator, TrustedAdvisorCheck } from '../src/alerting';
+
+function evaluateParser(parser: IIssueParser, sample: IssueParserSample): {[key: string]: unknown} {
+  return StateMachineEvaluator.fromStateMachine(parser.handler).evaluate(sample.event, {
+    taskResults: sample.taskResults,
+  });
+}
+
+const parsers: [string, (stack: Stack) => IIssueParser, IssueParserSample][] = [
+  ['AccessAnalyzerFinding', (x) => new AccessAnalyzerFinding(x, 'parser'), IssueParserSamples.ACCESS_ANALYZER_FINDING],
+  ['AlertManagerAlert', (x) => new AlertManagerAlert(x, 'parser'), IssueParserSamples.ALERT_MANAGER_ALERT],
+  ['AwsHealthEvent', (x) => new AwsHealthEvent(x, 'parser'), IssueParserSamples.AWS_HEALTH_EVENT],
+  ['BudgetNotification', (x) => new BudgetNotification(x, 'parser'), IssueParserSamples.BUDGET_NOTIFICATION],
+  ['CloudTrailActivity', (x) => new CloudTrailActivity(x, 'parser'), IssueParserSamples.CLOUDTRAIL_ACTIVITY],
+  ['CloudWatchAlarm', (x) => new CloudWatchAlarm(x, 'parser'), IssueParserSamples.CLOUDWATCH_ALARM],
+  ['ConfigComplianceChange', (x) => new ConfigComplianceChange(x, 'parser'), IssueParserSamples.CONFIG_COMPLIANCE_CHANGE],
+  ['CostAnomaly', (x) => new CostAnomaly(x, 'parser'), IssueParserSamples.COST_ANOMALY],
+  ['EcrScanFinding', (x) => new EcrScanFinding(x, 'parser'), IssueParserSamples.ECR_SCAN_FINDING],
+  ['GuardDutyFinding', (x) => new GuardDutyFinding(x, 'parser'), IssueParserSamples.GUARD_DUTY_FINDING],
+  ['InspectorFinding', (x) => new InspectorFinding(x, 'parser'), IssueParserSamples.INSPECTOR_FINDING],
+  ['MacieFinding', (x) => new MacieFinding(x, 'parser'), IssueParserSamples.MACIE_FINDING],
+  ['OpenSearchEvent', (x) => new OpenSearchEvent(x, 'parser'), IssueParserSamples.OPENSEARCH_EVENT],
+  ['SecurityHubFinding', (x) => new SecurityHubFinding(x, 'parser'), IssueParserSamples.SECURITY_HUB_FINDING],
+  ['TrustedAdvisorCheck', (x) => new TrustedAdvisorCheck(x, 'parser'), IssueParserSamples.TRUSTED_ADVISOR_CHECK],
+];
+
+test.each(parsers)('%s should produce an issue from its sample event', (_name, factory, sample) => {
+  const parser = factory(new Stack());
+
+  const issue = evaluateParser(parser, sample);
+
+  expect(issue).toMatchObject({
+    Alert: true,
+    Description: expect.any(String),
+    Summary: expect.any(String),
+  });
+
+  if ('Severity' in issue) {
+    expect(issue.Severity).toMatch(/^(CRITICAL|HIGH|MEDIUM|LOW|INFO|UNKNOWN)$/);
+  }
+});
+
+test('finding parsers should report the type of the finding', () => {
+  const parser = new GuardDutyFinding(new Stack(), 'parser');
+
+  const issue = evaluateParser(parser, IssueParserSamples.GUARD_DUTY_FINDING);
+
+  expect(issue.FindingType).toBe('Recon:EC2/PortProbeUnprotectedPort');
+});
+
+test('severity of a cost anomaly should scale with its impact', () => {
+  const parser = new CostAnomaly(new Stack(), 'parser', {
+    impactThresholds: {
+      high: 500,
+    },
+  });
+
+  const issue = evaluateParser(parser, IssueParserSamples.COST_ANOMALY);
+
+  expect(issue).toMatchObject({
+    Id: IssueParserSamples.COST_ANOMALY.event.detail.anomalyId,
+    Severity: 'HIGH',
+    Summary: 'Cost Anomaly - $1001 of unexpected spend',
+  });
+  expect(issue.Description).toContain('Amazon Elastic Compute Cloud - Compute');
+});
+
+test('severity of a budget notification should scale with the amount over budget', () => {
+  const parser = new BudgetNotification(new Stack(), 'parser');
+
+  const issue = evaluateParser(parser, IssueParserSamples.BUDGET_NOTIFICATION);
+
+  expect(issue).toMatchObject({
+    Id: `budgets/${IssueParserSamples.BUDGET_NOTIFICATION.event.account}/Monthly Spend`,
+    Severity: BudgetNotification.DEFAULT_SEVERITY_MAP.overBudgetByHalf,
+  });
+});
+
+test('budget notifications should be parsed when no forecast is available', () => {
+  const stack = new Stack();
+  const parser = new BudgetNotification(stack, 'parser');
+
+  const issue = evaluateParser(parser, IssueParserSamples.BUDGET_NOTIFICATION_WITHOUT_FORECAST);
+
+  expect(issue.Description).toContain('162.47');
+  expect(issue.Description).not.toContain('Forecasted');
+  Annotations.fromStack(stack).hasNoWarning('*', Match.stringLikeRegexp('optional'));
+});
+
+test('description formats should be rendered for structured descriptions', () => {
+  const parser = new GuardDutyFinding(new Stack(), 'parser');
+
+  const issue = evaluateParser(parser, IssueParserSamples.GUARD_DUTY_FINDING);
+
+  expect(issue.DescriptionFormats).toMatchObject({
+    Adf: expect.objectContaining({
+      type: 'doc',
+    }),
+    Markdown: expect.any(String),
+  });
+});
+
+test('task states without a result should fail evaluation', () => {
+  const parser = new CloudWatchAlarm(new Stack(), 'parser');
+
+  expect(() => {
+    StateMachineEvaluator.fromStateMachine(parser.handler).evaluate(IssueParserSamples.CLOUDWATCH_ALARM.event);
+  }).toThrow(/describe-alarm/);
+});
+
+test('intrinsic functions should be evaluated', () => {
+  const evaluator = new StateMachineEvaluator({
+    StartAt: 'evaluate',
+    States: {
+      evaluate: {
+        Type: 'Pass',
+        Parameters: {
+          'Format.$': "States.Format('{} has \\{{}\\}', $.Name, States.ArrayLength($.Items))",
+          'Parts.$': "States.StringSplit('a.b+c', '.+')",
+          'Partition.$': 'States.ArrayPartition($.Items, 2)',
+          'Sum.$': 'States.MathAdd($.Count, 1)',
+          'Matched.$': "$.Items[?(@ == 'x')]",
+        },
+        End: true,
+      },
+    },
+  });
+
+  expect(evaluator.evaluate({ Count: 1, Items: ['x', 'y', 'z'], Name: 'list' })).toEqual({
+    Format: 'list has {3}',
+    Matched: ['x'],
+    Partition: [['x', 'y'], ['z']],
+    Parts: ['a', 'b', 'c'],
+    Sum: 2,
+  });
+});
+
+test('outcome of a Config remediation should be recorded on the issue', () => {
+  const sample = IssueParserSamples.CONFIG_COMPLIANCE_CHANGE;
+  const parser = new ConfigComplianceChange(new Stack(), 'parser', {
+    remediations: [{
+      ruleNames: [sample.event.detail.configRuleName],
+    }],
+  });
+
+  const evaluate = (state: string): {[key: string]: unknown} => {
+    return evaluateParser(parser, {
+      event: sample.event,
+      taskResults: {
+        ...sample.taskResults,
+        'describe-remediation-0': {
+          RemediationExecutionStatuses: [{ State: state }],
+        },
+        'start-remediation-0': {
+          FailedItems: [],
+        },
+      },
+    });
+  };
+
+  expect(evaluate('SUCCEEDED').Remediation).toMatchObject({
+    Action: 'AWS Config remediation',
+    Result: 'AUTO_REMEDIATED',
+  });
+  expect(evaluate('FAILED')).toMatchObject({
+    Remediation: {
+      Result: 'NEEDS_HUMAN',
+    },
+    Status: 'OPEN',
+  });
+  expect(evaluate('IN_PROGRESS').Description).toContain('did not complete within 120 seconds');
+});
+
+test('severity of CloudTrail activity should be taken from the first matching rule', () => {
+  const parser = new CloudTrailActivity(new Stack(), 'parser', {
+    rules: [
+      CloudTrailActivityRule.of({
+        eventNames: ['AttachRolePolicy'],
+        eventSource: 'iam.amazonaws.com',
+        name: 'Role Policy Attached',
+        severity: 'LOW',
+      }),
+      CloudTrailActivityRule.ADMINISTRATOR_POLICY_ATTACHMENT.withSeverity('CRITICAL'),
+    ],
+  });
+
+  const issue = evaluateParser(parser, IssueParserSamples.CLOUDTRAIL_ACTIVITY);
+
+  expect(issue).toMatchObject({
+    Id: IssueParserSamples.CLOUDTRAIL_ACTIVITY.event.detail.eventID,
+    Severity: 'LOW',
+    Summary: 'CloudTrail - Role Policy Attached - AttachRolePolicy',
+  });
+});